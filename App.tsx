@@ -1,10 +1,55 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import CameraFeed, { CameraHandle } from './components/CameraFeed';
 import AudioMonitor, { AudioHandle } from './components/AudioMonitor';
 import RiskIndicator from './components/RiskIndicator';
-import { assessRisk, findSafePlaces, generateIncidentReport, generateEmergencyAlert } from './services/geminiService';
-import { RiskAssessment, RiskLevel, SafePlace } from './types';
+import SafeZonesPanel from './components/SafeZonesPanel';
+import EscalationPrompt from './components/EscalationPrompt';
+import ContactsPanel, { statusClass } from './components/ContactsPanel';
+import IncidentHistory from './components/IncidentHistory';
+import FakeCall from './components/FakeCall';
+import FakeCallSetup from './components/FakeCallSetup';
+import IncidentReportView from './components/IncidentReportView';
+import SafeWalk from './components/SafeWalk';
+import TripSetup, { TripSetupValues } from './components/TripSetup';
+import TripStatus from './components/TripStatus';
+import SchedulerDebug from './components/SchedulerDebug';
+import SessionReplayPanel from './components/SessionReplayPanel';
+import CovertTriggersSetup from './components/CovertTriggersSetup';
+import DisguiseShell from './components/DisguiseShell';
+import DisguiseSetup from './components/DisguiseSetup';
+import PrivacySettingsPanel from './components/PrivacySettingsPanel';
+import ProfileSettingsPanel from './components/ProfileSettingsPanel';
+import { assessRisk, generateEmergencyAlert, readNumberPlate } from './services/geminiService';
+import { formatVehicleInfo } from './services/ride';
+import { RiskEngine, createFailoverRiskEngine, createGeminiRiskEngine, createHeuristicRiskEngine } from './services/riskEngine';
+import { createContextTracker } from './services/contextTracker';
+import { createRiskAggregator } from './services/riskAggregator';
+import { AnalysisOutcome, SchedulerState, createAnalysisScheduler } from './services/analysisScheduler';
+import { createAnalysisPipeline } from './services/analysisPipeline';
+import { SessionRecorder, createSessionRecorder, parseRecording, withInterventionRecording, withModelRecording } from './services/sessionRecorder';
+import { ReplayResult, replaySession } from './services/sessionReplay';
+import { evaluateZones, loadSafeZones, saveSafeZones, waypointsFromTrace } from './services/safeZones';
+import { createId } from './services/storage';
+import { CATEGORY_LABEL, createSafePlacesFinder } from './services/safePlaces';
+import { TripAlarmReason, TripSnapshot, createTripMonitor } from './services/tripMonitor';
+import { createLiveShareController } from './services/liveShare';
+import { FilteredFrame, filterFrame, loadPrivacySettings, savePrivacySettings } from './services/privacyFilter';
+import { SENSITIVITY_PRESETS, UserProfile, alertProfileOf, languageName, loadProfile, riskProfileOf, saveProfile } from './services/profile';
+import { DisguiseConfig, checkPin, isDisguiseReady, loadDisguiseConfig, saveDisguiseConfig, withPins } from './services/disguise';
+import { CovertTrigger, CovertTriggerConfig, createKeywordSpotter, createShakeDetector, createTapPatternDetector, listenForShake, listenForTaps, loadCovertTriggers, matchSpokenTrigger, requestMotionPermission, saveCovertTriggers } from './services/covertTriggers';
+import { ARRIVAL_VIBRATION, CUE_VIBRATION, GuidanceSession, GuidanceState, createGuidanceSession, pickSafeHaven, speakCue } from './services/guidance';
+import { EscalationEffect, EscalationSnapshot, createEscalationController } from './services/escalation';
+import { contactsForTier, loadContacts, saveContacts } from './services/contacts';
+import { createDefaultTransports } from './services/alertTransports';
+import { createAlertDispatcher, loadReceiptLog } from './services/alertDispatcher';
+import { AUTO_CALL_COOLDOWN_MS, FakeCallConfig, loadFakeCallConfig, saveFakeCallConfig } from './services/fakeCall';
+import { appendEvidence, downloadBlob, exportEvidenceBundle } from './services/evidenceVault';
+import { blobToBase64 } from './services/audioRecorder';
+import { endSession, formatIncidentLines, getSessionIncidents, listSessions, recordIncident, setSessionRide, setSessionTrip, startSession } from './services/incidentStore';
+import { buildIncidentReport } from './services/incidentReport';
+import { reportToHtml, reportToJson, reportToText } from './services/reportExport';
+import { DeliveryReceipt, EmergencyContact, IncidentReport, LiveShareGrant, PrivacySettings, RideDetails, SensorConsent, TripSummary, LocalAudioAnalysis, LocationData, RiskAssessment, RiskLevel, SafePlace, SafeZones } from './types';
 
 const App: React.FC = () => {
   const [isMonitoring, setIsMonitoring] = useState(false);
@@ -16,21 +61,125 @@ const App: React.FC = () => {
     detectedThreats: []
   });
   const [safePlaces, setSafePlaces] = useState<SafePlace[]>([]);
+  const [safePlacesSource, setSafePlacesSource] = useState<'live' | 'cache' | 'fallback'>('live');
+  // "Go to safety": in-app guidance so the user never has to leave monitoring for a map app
+  const [guidance, setGuidance] = useState<GuidanceState | null>(null);
+  const [guidanceVoice, setGuidanceVoice] = useState(true);
+  const guidanceRef = useRef<GuidanceSession | null>(null);
+  const guidanceVoiceRef = useRef(guidanceVoice);
+  guidanceVoiceRef.current = guidanceVoice;
+  // "Walk me home" trip with timed check-ins
+  const [trip, setTrip] = useState<TripSnapshot | null>(null);
+  const [showTripSetup, setShowTripSetup] = useState(false);
+  // Ride mode: the vehicle goes into every alert, report and live share until the trip ends
+  const [ride, setRide] = useState<RideDetails | null>(null);
+  const rideRef = useRef<RideDetails | null>(null);
   const [location, setLocation] = useState<{lat: number, lng: number} | null>(null);
   const [showReport, setShowReport] = useState(false);
-  const [reportText, setReportText] = useState("");
-  const [logs, setLogs] = useState<string[]>([]);
+  const [report, setReport] = useState<IncidentReport | null>(null);
+  const [reportStatus, setReportStatus] = useState<string | null>(null);
+  const [reportFromReplay, setReportFromReplay] = useState(false); // replayed sessions have no stored evidence
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [safeZones, setSafeZones] = useState<SafeZones>(loadSafeZones);
+  const [showZones, setShowZones] = useState(false);
+  const [isRecordingRoute, setIsRecordingRoute] = useState(false);
   
   // SOS Alert State
   const [sosMessage, setSosMessage] = useState<string | null>(null);
+  const [sosReceipts, setSosReceipts] = useState<DeliveryReceipt[]>([]);
+
+  // Emergency Contacts & Delivery
+  const [contacts, setContacts] = useState<EmergencyContact[]>(loadContacts);
+  const [showContacts, setShowContacts] = useState(false);
+  const [receiptLog, setReceiptLog] = useState<DeliveryReceipt[]>(loadReceiptLog);
+  const contactsRef = useRef(contacts);
+  const notifiedIdsRef = useRef<Set<string>>(new Set());
+  const transportsRef = useRef(createDefaultTransports(() => contactsRef.current));
+  const dispatcherRef = useRef(createAlertDispatcher({
+    transports: transportsRef.current,
+    onReceipt: (receipt) => setSosReceipts(prev => [...prev.filter(r => r.contactId !== receipt.contactId || r.alertId !== receipt.alertId), receipt]),
+  }));
+
+  // Fake Call State
+  const [fakeCallConfig, setFakeCallConfig] = useState<FakeCallConfig>(loadFakeCallConfig);
+  const [showFakeCallSetup, setShowFakeCallSetup] = useState(false);
+  const [fakeCallRinging, setFakeCallRinging] = useState(false);
+  const [fakeCallScheduledAt, setFakeCallScheduledAt] = useState<number | null>(null);
+  const fakeCallTimerRef = useRef<number | null>(null);
+  const lastAutoCallRef = useRef(0);
+  const fakeCallConfigRef = useRef(fakeCallConfig);
+
+  // Discreet triggers: codeword, shake and tap pattern escalate without showing anything
+  const [covertConfig, setCovertConfig] = useState<CovertTriggerConfig>(loadCovertTriggers);
+  const [showCovertSetup, setShowCovertSetup] = useState(false);
+  const covertConfigRef = useRef(covertConfig);
+  const lastCovertAtRef = useRef<Record<string, number>>({});
+
+  // Privacy: what may leave the device, and how frames are filtered before upload
+  const [privacy, setPrivacy] = useState<PrivacySettings>(loadPrivacySettings);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [lastFilter, setLastFilter] = useState<FilteredFrame | null>(null);
+  const privacyRef = useRef(privacy);
+
+  // Profile: name and notes for alerts, language, sensitivity preset and feature switches
+  const [profile, setProfile] = useState<UserProfile>(loadProfile);
+  const [showProfile, setShowProfile] = useState(false);
+  const profileRef = useRef(profile);
+
+  // Disguise: a calculator drawn over the live UI; the duress PIN fakes a stop and escalates
+  const [disguiseConfig, setDisguiseConfig] = useState<DisguiseConfig>(loadDisguiseConfig);
+  const [disguised, setDisguised] = useState(() => disguiseConfig.startDisguised && isDisguiseReady(disguiseConfig));
+  const [duress, setDuress] = useState(false);
+  const [showDisguiseSetup, setShowDisguiseSetup] = useState(false);
+
+  // Escalation State
+  const [escalation, setEscalation] = useState<EscalationSnapshot | null>(null);
+  const [evidenceMode, setEvidenceMode] = useState({ audio: false, video: false });
+  const evidenceModeRef = useRef(evidenceMode);
+  const assessmentRef = useRef<RiskAssessment | null>(null);
+  const locationRef = useRef<{lat: number, lng: number} | null>(null);
   
-  // Simulated movement state for demo purposes
-  const lastLocRef = useRef<{lat: number, lng: number, time: number} | null>(null);
-  const safePlacesSearchedRef = useRef(false); // Prevents multiple API calls causing 429s
+  // Rolling GPS trace used to derive movement and route context
+  const trackerRef = useRef(createContextTracker());
+  const routeRecordingRef = useRef<LocationData[] | null>(null);
+  const safeZonesRef = useRef(safeZones);
+  // Re-ranks safe havens on every fix and searches again only after real movement (avoids 429s)
+  const safePlacesFinderRef = useRef(createSafePlacesFinder({
+    onUpdate: (places, source) => {
+      setSafePlaces(places);
+      setSafePlacesSource(source);
+    },
+  }));
+
+  // Live location for guardians: alerts link to the relay's viewer instead of a static map pin
+  const [liveShare, setLiveShare] = useState<LiveShareGrant | null>(null);
+  const liveShareRef = useRef(createLiveShareController({
+    baseUrl: process.env.LIVE_SHARE_URL || '',
+    onChange: setLiveShare,
+  }));
+
+  useEffect(() => {
+    setLiveShare(liveShareRef.current.getGrant());
+  }, []);
+
+  // Incident history: every assessment and action goes to IndexedDB
+  const sessionIdRef = useRef<Promise<string> | null>(null);
+  const tickActionsRef = useRef<string[] | null>(null);
 
   const cameraRef = useRef<CameraHandle>(null);
   const audioRef = useRef<AudioHandle>(null);
-  const intervalRef = useRef<number | null>(null);
+  const [localAudio, setLocalAudio] = useState<LocalAudioAnalysis | null>(null);
+  // Session recording for offline replay: inputs, model responses and escalation inputs
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [recordingCounts, setRecordingCounts] = useState<ReturnType<SessionRecorder['getCounts']> | null>(null);
+  // Cloud fusion first, on-device heuristics whenever Gemini is unreachable
+  const engineRef = useRef<RiskEngine>(createFailoverRiskEngine(
+    createGeminiRiskEngine(withModelRecording(assessRisk, () => recorderRef.current)),
+    createHeuristicRiskEngine()
+  ));
+  // Smooths per-tick results so one noisy frame cannot flip the UI or the escalation
+  const aggregatorRef = useRef(createRiskAggregator());
 
   // Initialize location and Safe Places
   useEffect(() => {
@@ -38,12 +187,25 @@ const App: React.FC = () => {
       (pos) => {
         const newLoc = { lat: pos.coords.latitude, lng: pos.coords.longitude };
         setLocation(newLoc);
-        lastLocRef.current = { ...newLoc, time: Date.now() };
-        
-        // Update Safe Places only ONCE per session to save API calls
-        if (!safePlacesSearchedRef.current) {
-            safePlacesSearchedRef.current = true;
-            findSafePlaces(newLoc.lat, newLoc.lng).then(setSafePlaces);
+        locationRef.current = newLoc;
+        const fix: LocationData = {
+          latitude: pos.coords.latitude,
+          longitude: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          timestamp: pos.timestamp,
+          speed: pos.coords.speed,
+          heading: pos.coords.heading,
+        };
+        trackerRef.current.addFix(fix);
+        routeRecordingRef.current?.push(fix);
+        recorderRef.current?.addFix(fix);
+        // The search sends the position to the cloud, so it needs context consent
+        if (profileRef.current.features.safePlaces && privacyRef.current.consent.context) safePlacesFinderRef.current.update(newLoc);
+        tripRef.current.updatePosition(newLoc);
+        liveShareRef.current.push({ point: { ...newLoc, accuracy: pos.coords.accuracy, timestamp: pos.timestamp } });
+        if (guidanceRef.current) {
+          const heading = Number.isFinite(pos.coords.heading) ? pos.coords.heading : trackerRef.current.getMovement().headingDeg;
+          setGuidance(guidanceRef.current.update(newLoc, heading));
         }
       },
       (err) => console.error(err),
@@ -52,57 +214,276 @@ const App: React.FC = () => {
     return () => navigator.geolocation.clearWatch(watchId);
   }, []);
 
-  const runAnalysisLoop = useCallback(async () => {
-    if (!cameraRef.current || !audioRef.current || !location) return;
-
-    // 1. Gather Sensor Data
-    const imageBase64 = cameraRef.current.capture();
-    const audioBase64 = await audioRef.current.getLatestAudio();
-    
-    // Simulate Context Data
-    // In a real app, this would be calculated from historical GPS points
-    const now = new Date();
-    const isNight = now.getHours() > 20 || now.getHours() < 6;
-    const movementType = "Walking"; // Placeholder for demo, would be calculated from speed
-    const deviation = "None (On known path)"; // Placeholder
-    
-    const context = `
-      Timestamp: ${now.toLocaleTimeString()}
-      Location: ${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}
-      Environment: ${isNight ? 'Night time' : 'Day time'}
-      Movement: ${movementType}
-      Route Deviation: ${deviation}
-      Safe Routes: [Home, Work, Gym] - User is currently near [Home]
-    `;
-
-    // 2. Log Locally
-    const timestamp = new Date().toISOString();
-    
-    // 3. Send to Gemini
-    const result = await assessRisk(imageBase64, audioBase64, context);
-    
-    setAssessment(result);
-    setLogs(prev => [...prev.slice(-19), `[${timestamp}] Risk: ${result.riskLevel} - ${result.reason}`]);
-
-    // 4. Auto-Response Logic (Demo)
-    if (result.riskLevel === RiskLevel.DANGEROUS || result.riskLevel === RiskLevel.CRITICAL) {
-      console.warn("HIGH RISK DETECTED - INITIATING PROTOCOLS");
+  // Persist safe zones and expose the latest copy to the analysis loop
+  useEffect(() => {
+    safeZonesRef.current = safeZones;
+    saveSafeZones(safeZones);
+  }, [safeZones]);
+
+  useEffect(() => {
+    evidenceModeRef.current = evidenceMode;
+  }, [evidenceMode]);
+
+  useEffect(() => {
+    fakeCallConfigRef.current = fakeCallConfig;
+    saveFakeCallConfig(fakeCallConfig);
+  }, [fakeCallConfig]);
+
+  useEffect(() => {
+    contactsRef.current = contacts;
+    saveContacts(contacts);
+  }, [contacts]);
+
+  useEffect(() => {
+    privacyRef.current = privacy;
+    savePrivacySettings(privacy);
+  }, [privacy]);
+
+  useEffect(() => {
+    saveDisguiseConfig(disguiseConfig);
+  }, [disguiseConfig]);
+
+  useEffect(() => {
+    profileRef.current = profile;
+    saveProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    if (!disguised) return;
+    const title = document.title;
+    document.title = 'Calculator';
+    return () => { document.title = title; };
+  }, [disguised]);
+
+  useEffect(() => {
+    covertConfigRef.current = covertConfig;
+    saveCovertTriggers(covertConfig);
+  }, [covertConfig]);
+
+  // Shake and tap listeners stay on while enabled, monitoring or not
+  useEffect(() => {
+    if (!covertConfig.shake) return;
+    return listenForShake(createShakeDetector({ onShake: () => covertHandlersRef.current.handleCovertTrigger('shake') }));
+  }, [covertConfig.shake]);
+
+  useEffect(() => {
+    if (!covertConfig.tapPattern) return;
+    return listenForTaps(createTapPatternDetector({ onPattern: () => covertHandlersRef.current.handleCovertTrigger('tap_pattern') }));
+  }, [covertConfig.tapPattern]);
+
+  // Spotting between analysis ticks; the cloud engine also reports the words.
+  // Browser speech recognition may send audio to a cloud service, so it needs audio consent
+  useEffect(() => {
+    if (!isMonitoring || !privacy.consent.audio || (!covertConfig.codeword && !covertConfig.safeWord)) return;
+    const spotter = createKeywordSpotter((text) => covertHandlersRef.current.handleSpoken(text));
+    spotter?.start();
+    return () => spotter?.stop();
+  }, [isMonitoring, privacy.consent.audio, covertConfig.codeword, covertConfig.safeWord]);
+
+  const zoneStatus = location ? evaluateZones(location, safeZones) : null;
+
+  const startRouteRecording = () => {
+    routeRecordingRef.current = [];
+    setIsRecordingRoute(true);
+  };
+
+  const stopRouteRecording = (name: string, corridorM: number) => {
+    const waypoints = waypointsFromTrace(routeRecordingRef.current || []);
+    routeRecordingRef.current = null;
+    setIsRecordingRoute(false);
+    if (waypoints.length < 2) {
+      alert("Not enough movement recorded to save a route.");
+      return;
+    }
+    setSafeZones(prev => ({
+      ...prev,
+      routes: [...prev.routes, { id: createId(), name, waypoints, corridorM, source: 'recorded' }]
+    }));
+  };
+
+  // One analysis tick; sensors and side effects are wired to the app here
+  const pipelineRef = useRef(createAnalysisPipeline({
+    sensors: {
+      getLocation: () => locationRef.current,
+      captureImage: async () => {
+        const frame = cameraRef.current?.captureFrame();
+        // The original stays on the device (evidence vault); only a filtered copy may go to the cloud
+        const privacy = privacyRef.current;
+        const cloudFrame = frame && privacy.consent.vision ? await filterFrame(frame, privacy) : null;
+        setLastFilter(cloudFrame);
+        return frame ? { original: frame.toDataURL('image/jpeg', 0.7).split(',')[1], cloud: cloudFrame?.base64 ?? null } : null;
+      },
+      getAudio: async () => (await audioRef.current?.getLatestAudio()) ?? null,
+      getAudioFeatures: () => audioRef.current?.getAudioFeatures() ?? null,
+      getConsent: () => privacyRef.current.consent,
+      getWatchPhrases: () => [covertConfigRef.current.codeword, covertConfigRef.current.safeWord].filter(Boolean),
+      getRiskProfile: () => riskProfileOf(profileRef.current),
+    },
+    engine: engineRef.current,
+    aggregator: aggregatorRef.current,
+    tracker: trackerRef.current,
+    getSafeZones: () => safeZonesRef.current,
+    getEvidenceMode: () => evidenceModeRef.current,
+    hooks: {
+      onInputs: (inputs) => {
+        const recorder = recorderRef.current;
+        if (!recorder) return;
+        recorder.addTick(inputs);
+        setRecordingCounts(recorder.getCounts());
+      },
+      onAssessed: (assessed) => {
+        if (assessed.audioAnalysis?.keywords_detected.length) {
+          covertHandlersRef.current.handleSpoken(assessed.audioAnalysis.keywords_detected);
+        }
+      },
+      onResult: (result) => {
+        setAssessment(result);
+        assessmentRef.current = result;
+        liveShareRef.current.push({ riskLevel: result.riskLevel, score: result.score, reason: result.reason });
+      },
+      saveEvidence: (evidence) => {
+        ensureSession()
+          .then(sessionId => appendEvidence({ ...evidence, sessionId }))
+          .catch(err => console.error("Evidence vault error:", err));
+      },
+      respond: (result) => {
+        tickActionsRef.current = [];
+        escalationRef.current.handleRecommendation(result.recommendedAction);
+        const actionsTaken = tickActionsRef.current;
+        tickActionsRef.current = null;
+
+        // A suspicious situation can ring a fake call to give the user a way out
+        if (result.riskLevel === RiskLevel.SUSPICIOUS && fakeCallConfigRef.current.autoOnSuspicious
+            && Date.now() - lastAutoCallRef.current > AUTO_CALL_COOLDOWN_MS) {
+          lastAutoCallRef.current = Date.now();
+          ringFakeCall('auto (risk suspicious)');
+          actionsTaken.push('fake_call');
+        }
+        return actionsTaken;
+      },
+      recordIncident: (incident) => {
+        ensureSession()
+          .then(sessionId => recordIncident({ ...incident, sessionId }))
+          .catch(err => console.error("Incident store error:", err));
+      },
+    },
+  }));
+
+  const runAnalysisLoop = async (): Promise<AnalysisOutcome | void> => {
+    if (!cameraRef.current || !audioRef.current) return;
+    return (await pipelineRef.current.tick())?.outcome;
+  };
+
+  // Lazily opens a session so events outside monitoring (e.g. manual SOS) are kept too
+  const ensureSession = () => {
+    if (!sessionIdRef.current) {
+      sessionIdRef.current = startSession().then(session => {
+        setActiveSessionId(session.id);
+        return session.id;
+      });
+    }
+    return sessionIdRef.current;
+  };
+
+  const closeSession = async () => {
+    const pending = sessionIdRef.current;
+    sessionIdRef.current = null;
+    setActiveSessionId(null);
+    if (pending) await endSession(await pending);
+  };
+
+  const logEvent = async (description: string, actionsTaken: string[] = []) => {
+    try {
+      const sessionId = await ensureSession();
+      await recordIncident({
+        sessionId,
+        kind: 'event',
+        riskLevel: assessmentRef.current?.riskLevel ?? RiskLevel.SAFE,
+        description,
+        location: locationRef.current ?? undefined,
+        actionsTaken,
+      });
+    } catch (err) {
+      console.error("Incident store error:", err);
+    }
+  };
+
+  const ringFakeCall = (source: string) => {
+    setFakeCallScheduledAt(null);
+    setFakeCallRinging(true);
+    logEvent(`Fake call from "${fakeCallConfigRef.current.callerName}" ringing (${source})`, ['fake_call']);
+  };
+
+  const scheduleFakeCall = (delaySec: number) => {
+    if (fakeCallTimerRef.current) clearTimeout(fakeCallTimerRef.current);
+    setShowFakeCallSetup(false);
+    if (delaySec === 0) {
+      ringFakeCall('manual');
+      return;
     }
+    setFakeCallScheduledAt(Date.now() + delaySec * 1000);
+    logEvent(`Fake call scheduled in ${delaySec}s`);
+    fakeCallTimerRef.current = window.setTimeout(() => {
+      fakeCallTimerRef.current = null;
+      ringFakeCall('scheduled');
+    }, delaySec * 1000);
+  };
+
+  const cancelScheduledFakeCall = () => {
+    if (fakeCallTimerRef.current) clearTimeout(fakeCallTimerRef.current);
+    fakeCallTimerRef.current = null;
+    setFakeCallScheduledAt(null);
+  };
+
+  // Never runs two analyses at once; cadence follows the current risk level
+  const runAnalysisRef = useRef(runAnalysisLoop);
+  runAnalysisRef.current = runAnalysisLoop;
+  const [schedulerState, setSchedulerState] = useState<SchedulerState | null>(null);
+  const schedulerRef = useRef(createAnalysisScheduler({
+    run: () => runAnalysisRef.current(),
+    getRiskLevel: () => assessmentRef.current?.riskLevel ?? RiskLevel.SAFE,
+    cadence: SENSITIVITY_PRESETS[profileRef.current.sensitivity].cadence,
+    onStateChange: setSchedulerState,
+  }));
+  useEffect(() => () => schedulerRef.current.stop(), []);
+
+  useEffect(() => {
+    schedulerRef.current.setCadence(SENSITIVITY_PRESETS[profile.sensitivity].cadence);
+  }, [profile.sensitivity]);
 
-  }, [location]);
+  // A scream or impact heard locally triggers an out-of-cycle assessment right away (unless switched off in Settings)
+  const handleAudioDistress = (analysis: LocalAudioAnalysis) => {
+    const what = [analysis.screamDetected && 'scream', analysis.impactDetected && 'impact'].filter(Boolean).join(' + ');
+    if (!profileRef.current.features.audioDistressTrigger) {
+      logEvent(`On-device audio detected ${what} (distress ${analysis.distressScore})`);
+      return;
+    }
+    logEvent(`On-device audio detected ${what} (distress ${analysis.distressScore})`, ['out_of_cycle_analysis']);
+    schedulerRef.current.trigger('audio_distress');
+  };
 
   const startMonitoring = () => {
+    // After a duress unlock protection never stopped; Start only shows it again
+    if (duress) {
+      setDuress(false);
+      return;
+    }
     if (isMonitoring) return;
     setIsMonitoring(true);
-    // Run immediately then interval
-    runAnalysisLoop();
-    intervalRef.current = window.setInterval(runAnalysisLoop, 6000); // Poll every 6 seconds
+    ensureSession();
+    // Runs immediately, then at the cadence for the current risk level
+    schedulerRef.current.start();
   };
 
   const stopMonitoring = () => {
     if (!isMonitoring) return;
-    if (intervalRef.current) clearInterval(intervalRef.current);
+    // A running trip is summarised into this session before it closes
+    tripRef.current.end();
+    schedulerRef.current.stop();
     setIsMonitoring(false);
+    setLocalAudio(null);
+    closeSession();
+    aggregatorRef.current.reset();
     setAssessment(prev => ({ 
       ...prev, 
       riskLevel: RiskLevel.SAFE, 
@@ -112,23 +493,459 @@ const App: React.FC = () => {
     }));
   };
 
-  const handleGenerateReport = async () => {
+  // Reports come from the durable store: the given session, else the live one, else the latest
+  const handleGenerateReport = async (sessionId?: string) => {
+    setShowHistory(false);
     setShowReport(true);
-    setReportText("Generating comprehensive analysis...");
-    const lastImage = cameraRef.current?.capture() || null;
-    const report = await generateIncidentReport(logs, lastImage);
-    setReportText(report);
+    setReport(null);
+    setReportFromReplay(false);
+    setReportStatus("Generating comprehensive analysis...");
+    try {
+      const targetId = sessionId ?? (sessionIdRef.current ? await sessionIdRef.current : (await listSessions())[0]?.id);
+      if (!targetId) {
+        setReportStatus("No recorded sessions yet. Start protection to collect data.");
+        return;
+      }
+      const frame = targetId === activeSessionId && privacyRef.current.consent.vision ? cameraRef.current?.captureFrame() : null;
+      const lastImage = frame ? (await filterFrame(frame, privacyRef.current)).base64 : null;
+      setReport(await buildIncidentReport(targetId, { lastImage, profile: profileRef.current }));
+      setReportStatus(null);
+    } catch (err) {
+      console.error("Report data error:", err);
+      setReportStatus("Could not load incident history.");
+    }
+  };
+
+  const handleExportEvidence = async (sessionId: string, report?: IncidentReport) => {
+    try {
+      const incidents = await getSessionIncidents(sessionId);
+      const attachments = [{ name: 'incident-log.txt', content: formatIncidentLines(incidents).join('\n') }];
+      if (report) {
+        attachments.push(
+          { name: 'incident-report.json', content: reportToJson(report) },
+          { name: 'incident-report.html', content: reportToHtml(report) },
+          { name: 'incident-report.txt', content: reportToText(report) },
+        );
+      }
+      const bundle = await exportEvidenceBundle(sessionId, attachments);
+      downloadBlob(bundle, `sheshield-evidence-${sessionId.slice(0, 8)}.zip`);
+      logEvent('Evidence bundle exported', ['evidence_exported']);
+    } catch (err) {
+      console.error("Evidence export error:", err);
+      alert("Could not export the evidence bundle.");
+    }
+  };
+
+  const startSessionRecording = () => {
+    recorderRef.current = createSessionRecorder(safeZonesRef.current);
+    setRecordingCounts(recorderRef.current.getCounts());
+    logEvent('Session recording started', ['recording_started']);
+  };
+
+  // The recording holds raw frames and audio, so it is only ever downloaded, never uploaded
+  const stopSessionRecording = () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setRecordingCounts(null);
+    if (!recorder) return;
+    const recording = recorder.finish();
+    const stamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-');
+    downloadBlob(new Blob([JSON.stringify(recording)], { type: 'application/json' }), `sheshield-recording-${stamp}.json`);
+    logEvent(`Session recording saved (${recording.ticks.length} ticks)`, ['recording_saved']);
+  };
+
+  const handleReplayFile = async (file: File): Promise<ReplayResult> =>
+    replaySession(parseRecording(await file.text()), { contacts: contactsRef.current });
+
+  const openReplayReport = (replayed: IncidentReport) => {
+    setReport(replayed);
+    setReportFromReplay(true);
+    setReportStatus(null);
+    setShowReport(true);
+  };
+
+  // Starts (or reuses) the live share; a static map link is the fallback when the relay is unset or down
+  const ensureLiveShare = async (): Promise<LiveShareGrant | null> => {
+    const share = liveShareRef.current;
+    if (!share.isConfigured() || !profileRef.current.features.liveShareInAlerts) return null;
+    const running = share.getGrant();
+    if (running) return running;
+    try {
+      const grant = await share.start();
+      const loc = locationRef.current;
+      const current = assessmentRef.current;
+      share.push({
+        point: loc ? { ...loc, timestamp: Date.now() } : undefined,
+        ride: rideRef.current,
+        riskLevel: current?.riskLevel,
+        score: current?.score,
+        reason: current?.reason,
+      });
+      logEvent(`Live location sharing started (until ${new Date(grant.expiresAt).toLocaleTimeString()})`, ['live_share_started']);
+      return grant;
+    } catch (err) {
+      console.error("Live share start error:", err);
+      return null;
+    }
+  };
+
+  const stopLiveShare = async () => {
+    await liveShareRef.current.stop();
+    logEvent('Live location sharing ended', ['live_share_ended']);
+  };
+
+  const buildAlertText = async () => {
+    const loc = locationRef.current;
+    const current = assessmentRef.current ?? assessment;
+    const grant = await ensureLiveShare();
+    const locString = grant
+      ? `${grant.viewerUrl} (live)`
+      : loc ? `https://www.google.com/maps?q=${loc.lat},${loc.lng}` : "Unknown Location";
+    const vehicle = rideRef.current;
+    const msg = await generateEmergencyAlert(current.score, locString, current.reason, formatVehicleInfo(vehicle), alertProfileOf(profileRef.current));
+    // The tracking link and the plate must survive the model's rewording and the offline fallback text
+    const lines = [msg];
+    if (grant && !msg.includes(grant.viewerUrl)) lines.push(`Live location: ${grant.viewerUrl}`);
+    if (vehicle?.plate && !msg.includes(vehicle.plate)) lines.push(`Vehicle: ${formatVehicleInfo(vehicle)}`);
+    return lines.join('\n');
+  };
+
+  const sendAlert = async (recipients: EmergencyContact[], subject: string, body: string) => {
+    if (recipients.length === 0) return [];
+    recipients.forEach(c => notifiedIdsRef.current.add(c.id));
+    const receipts = await dispatcherRef.current.dispatch(recipients, subject, body);
+    setReceiptLog(loadReceiptLog());
+    logEvent(`${subject}: ${receipts.map(r => `${r.contactName} (${r.channel}) ${r.status}`).join(', ')}`, ['alert_sent']);
+    return receipts;
+  };
+
+  // Automatic notification: only contacts up to maxTier that were not alerted yet
+  const autoNotify = async (maxTier: number) => {
+    const recipients = contactsForTier(contactsRef.current, maxTier).filter(c => !notifiedIdsRef.current.has(c.id));
+    if (recipients.length === 0) return;
+    const msg = await buildAlertText();
+    await sendAlert(recipients, "SheShield Emergency Alert", msg);
+  };
+
+  const startGuidance = (place = pickSafeHaven(safePlaces)) => {
+    if (!place) return;
+    // Monitoring keeps running for the whole walk
+    startMonitoring();
+    guidanceRef.current = createGuidanceSession(place, {
+      onCue: (cue) => {
+        navigator.vibrate?.(CUE_VIBRATION[cue.direction]);
+        if (guidanceVoiceRef.current) speakCue(cue.text);
+      },
+      onArrive: (state) => handleArrival(state),
+    });
+    logEvent(`Guided walk started to ${place.name}`, ['safe_walk_started']);
+    const loc = locationRef.current;
+    setGuidance(loc ? guidanceRef.current.update(loc, trackerRef.current.getMovement().headingDeg) : guidanceRef.current.getState());
+  };
+
+  const stopGuidance = () => {
+    const state = guidanceRef.current?.getState();
+    guidanceRef.current = null;
+    setGuidance(null);
+    if (state && !state.arrived) logEvent(`Guided walk to ${state.target.name} stopped`);
+  };
+
+  const handleArrival = (state: GuidanceState) => {
+    navigator.vibrate?.(ARRIVAL_VIBRATION);
+    if (guidanceVoiceRef.current) speakCue(`${state.instruction}.`);
+    logEvent(`Reached safe haven: ${state.target.name}`, ['safe_walk_arrived']);
+    // Everyone already alerted, plus the first tier, hears that the user is safe
+    const recipients = contactsRef.current.filter(c => notifiedIdsRef.current.has(c.id) || c.tier <= 1);
+    const loc = state.target.location;
+    sendAlert(recipients, "SheShield: Reached safety",
+      `✅ I have reached ${state.target.name}${state.target.address ? ` (${state.target.address})` : ''}.${loc ? ` https://maps.google.com/?q=${loc.lat},${loc.lng}` : ''}`);
+  };
+
+  const TRIP_ALARM_TEXT: Record<TripAlarmReason, string> = {
+    missed_check_in: 'missed a safety check-in',
+    stopped_too_long: 'has stopped moving on the way',
+    eta_passed: 'has not arrived by the expected time',
+  };
+
+  const startTrip = (values: TripSetupValues) => {
+    setShowTripSetup(false);
+    startMonitoring();
+    const now = Date.now();
+    tripRef.current.start({
+      destination: values.destination,
+      expectedArrivalAt: now + values.etaMinutes * 60000,
+      checkInIntervalMs: values.checkInMinutes * 60000,
+      checkInGraceMs: 60000,
+      maxStopMs: values.maxStopMinutes * 60000,
+    }, locationRef.current);
+    logEvent(`Trip started to ${values.destination.name}, ETA ${values.etaMinutes} min`, ['trip_started']);
+    if (values.ride) startRide({ ...values.ride, startedAt: new Date(now).toISOString() }, values.platePhoto);
+  };
+
+  const startRide = async (details: RideDetails, platePhoto?: string) => {
+    rideRef.current = details;
+    setRide(details);
+    liveShareRef.current.push({ ride: details });
+    logEvent(`Ride started: ${formatVehicleInfo(details)}`, ['ride_started']);
+    try {
+      const sessionId = await ensureSession();
+      await setSessionRide(sessionId, details);
+      if (platePhoto) {
+        const current = assessmentRef.current;
+        await appendEvidence({
+          sessionId,
+          type: 'image',
+          mimeType: 'image/jpeg',
+          base64: platePhoto,
+          capturedAt: details.startedAt,
+          location: locationRef.current ?? undefined,
+          riskLevel: current?.riskLevel ?? RiskLevel.SAFE,
+          riskScore: current?.score ?? 0,
+        });
+      }
+    } catch (err) {
+      console.error("Ride record error:", err);
+    }
+  };
+
+  const handleReadPlate = async (imageBase64: string) => {
+    const reading = await readNumberPlate(imageBase64);
+    logEvent(`Number plate read: ${reading.plate ?? 'unreadable'} (${Math.round(reading.confidence * 100)}%)`, ['plate_read']);
+    return reading;
+  };
+
+  const handleTripCheckInDue = () => {
+    navigator.vibrate?.([200, 100, 200]);
+    speakCue('Safety check-in. Tap I am OK.');
+  };
+
+  // Dead-man switch fired: a trip-specific alert, then the normal escalation (cancel, false alarm, ...)
+  const handleTripAlarm = async (reason: TripAlarmReason, snapshot: TripSnapshot) => {
+    logEvent(`Trip alarm: ${reason.replace(/_/g, ' ')}`, ['trip_alarm']);
+    const loc = locationRef.current;
+    const destination = snapshot.plan?.destination.name ?? 'their destination';
+    const recipients = contactsForTier(contactsRef.current, 1).filter(c => !notifiedIdsRef.current.has(c.id));
+    const grant = await ensureLiveShare();
+    const where = grant
+      ? ` Live location: ${grant.viewerUrl}`
+      : loc ? ` Last location: https://maps.google.com/?q=${loc.lat},${loc.lng}` : '';
+    const vehicle = rideRef.current;
+    const travel = vehicle ? `riding in ${formatVehicleInfo(vehicle)} to` : 'walking to';
+    await sendAlert(recipients, "SheShield: Trip alert",
+      `⚠️ ${profileRef.current.name.trim() || 'The user'} ${TRIP_ALARM_TEXT[reason]} while ${travel} ${destination}.${where}`);
+    escalationRef.current.trigger('notify_contacts', { reason: `Trip: ${reason}` });
+  };
+
+  const handleTripEnd = async (summary: TripSummary) => {
+    if (rideRef.current) {
+      rideRef.current = null;
+      setRide(null);
+      liveShareRef.current.push({ ride: null });
+    }
+    const minutes = Math.round(summary.durationMs / 60000);
+    const text = summary.outcome === 'arrived'
+      ? `Trip completed: arrived at ${summary.destinationName} after ${minutes} min`
+      : `Trip to ${summary.destinationName} ended after ${minutes} min`;
+    try {
+      const sessionId = await ensureSession();
+      await setSessionTrip(sessionId, summary);
+      await logEvent(`${text}, ${summary.distanceTravelledM} m, ${summary.checkIns} check-ins, ${summary.alarms.length} alarms`, ['trip_ended']);
+    } catch (err) {
+      console.error("Trip summary error:", err);
+    }
+    if (summary.outcome === 'arrived') {
+      speakCue(`You have arrived at ${summary.destinationName}.`);
+      // Contacts who were alerted on the way hear that the user made it
+      const notified = contactsRef.current.filter(c => notifiedIdsRef.current.has(c.id));
+      sendAlert(notified, "SheShield: Arrived safely", `✅ Arrived safely at ${summary.destinationName}.`);
+      stopMonitoring();
+    }
   };
 
+  const tripHandlersRef = useRef({ handleTripCheckInDue, handleTripAlarm, handleTripEnd });
+  tripHandlersRef.current = { handleTripCheckInDue, handleTripAlarm, handleTripEnd };
+  const tripRef = useRef(createTripMonitor({
+    onChange: setTrip,
+    onCheckInDue: () => tripHandlersRef.current.handleTripCheckInDue(),
+    onAlarm: (reason, snapshot) => tripHandlersRef.current.handleTripAlarm(reason, snapshot),
+    onEnd: (summary) => tripHandlersRef.current.handleTripEnd(summary),
+  }));
+
   const handleSOS = async () => {
+    setSosReceipts([]);
     setSosMessage("Generating Alert...");
-    const locString = location ? `https://www.google.com/maps?q=${location.lat},${location.lng}` : "Unknown Location";
-    const msg = await generateEmergencyAlert(assessment.score, locString, assessment.reason);
+    const msg = await buildAlertText();
     setSosMessage(msg);
   };
 
+  // Keeps the audio from before the trigger: the rolling pre-roll goes into the vault as one clip
+  const preservePreRoll = async () => {
+    try {
+      const clip = await audioRef.current?.freezePreRoll();
+      if (!clip) return;
+      const current = assessmentRef.current;
+      await appendEvidence({
+        sessionId: await ensureSession(),
+        type: 'audio',
+        mimeType: clip.mimeType,
+        base64: await blobToBase64(clip.blob),
+        capturedAt: new Date(clip.startedAt).toISOString(),
+        location: locationRef.current ?? undefined,
+        riskLevel: current?.riskLevel ?? RiskLevel.UNCERTAIN,
+        riskScore: current?.score ?? 0,
+      });
+      logEvent(`Pre-incident audio preserved (${Math.round((clip.endedAt - clip.startedAt) / 1000)}s)`, ['pre_roll_preserved']);
+    } catch (err) {
+      console.error("Pre-roll capture error:", err);
+    }
+  };
+
+  const handleEscalationEffect = (effect: EscalationEffect) => {
+    // Effects fired during an analysis tick are attached to that assessment; others are logged on their own
+    if (tickActionsRef.current) tickActionsRef.current.push(effect);
+    else logEvent(`Escalation: ${effect}`, [effect]);
+    switch (effect) {
+      case 'notify_contacts':
+        autoNotify(1);
+        break;
+      case 'full_emergency_mode':
+        autoNotify(3);
+        break;
+      case 'start_audio_recording':
+        setEvidenceMode(prev => ({ ...prev, audio: true }));
+        break;
+      case 'start_video_stream':
+        setEvidenceMode(prev => ({ ...prev, video: true }));
+        break;
+      case 'stand_down': {
+        setEvidenceMode({ audio: false, video: false });
+        setSosMessage(null);
+        const notified = contactsRef.current.filter(c => notifiedIdsRef.current.has(c.id));
+        notifiedIdsRef.current = new Set();
+        sendAlert(notified, "SheShield: False alarm", "✅ False alarm: the user has confirmed they are safe. No action needed.");
+        break;
+      }
+    }
+  };
+
+  // Interim speech results repeat the same words, so each trigger is debounced
+  const covertDebounced = (kind: string) => {
+    const now = Date.now();
+    if (now - (lastCovertAtRef.current[kind] ?? 0) < 5000) return true;
+    lastCovertAtRef.current[kind] = now;
+    return false;
+  };
+
+  const handleCovertTrigger = (kind: CovertTrigger) => {
+    if (covertDebounced(kind)) return;
+    logEvent(`Discreet trigger: ${kind.replace(/_/g, ' ')}`, ['covert_trigger']);
+    escalationRef.current.trigger('notify_contacts', { silent: true, reason: `Discreet trigger: ${kind}` });
+  };
+
+  const handleSpoken = (heard: string | string[]) => {
+    const match = matchSpokenTrigger(heard, covertConfigRef.current);
+    if (match === 'codeword') handleCovertTrigger('codeword');
+    if (match === 'safe_word' && escalationRef.current.getSnapshot().state !== 'idle' && !covertDebounced(match)) {
+      logEvent('Safe word heard: standing down', ['safe_word']);
+      escalationRef.current.standDown('Safe word heard');
+    }
+  };
+
+  const handleSaveCovert = async (next: CovertTriggerConfig) => {
+    // iOS grants motion access only from this click
+    if (next.shake && !covertConfig.shake && !(await requestMotionPermission())) {
+      alert("Motion sensors are unavailable, so the shake trigger cannot be used.");
+      next = { ...next, shake: false };
+    }
+    setCovertConfig(next);
+    setShowCovertSetup(false);
+  };
+
+  const handleProfileChange = (next: UserProfile) => {
+    setProfile(next);
+    if (next.sensitivity !== profile.sensitivity) {
+      logEvent(`Sensitivity set to ${SENSITIVITY_PRESETS[next.sensitivity].label}`, ['sensitivity_changed']);
+    }
+    if (next.language !== profile.language) logEvent(`Language set to ${languageName(next.language)}`);
+  };
+
+  const handlePrivacyChange = (next: PrivacySettings) => {
+    const changed = (Object.keys(next.consent) as (keyof SensorConsent)[]).some(k => next.consent[k] !== privacy.consent[k]);
+    setPrivacy(next);
+    if (changed) {
+      const shared = (Object.keys(next.consent) as (keyof SensorConsent)[]).filter(k => next.consent[k]);
+      logEvent(`Cloud sharing consent: ${shared.join(', ') || 'nothing'}`, ['consent_changed']);
+    }
+  };
+
+  const handleSavePins = async (pin: string, duressPin: string) => {
+    const next = await withPins(disguiseConfig, pin, duressPin);
+    setDisguiseConfig(next);
+    logEvent(`Disguise PINs ${isDisguiseReady(disguiseConfig) ? 'changed' : 'set'}${duressPin ? ' (with duress PIN)' : ''}`, ['pin_set']);
+  };
+
+  const enterDisguise = () => {
+    setShowDisguiseSetup(false);
+    setDisguised(true);
+    logEvent('Disguise mode on', ['disguise_on']);
+  };
+
+  const handlePinEntered = async (pin: string): Promise<boolean> => {
+    const result = await checkPin(pin, disguiseConfig);
+    if (result === 'wrong') {
+      logEvent('Wrong PIN entered in disguise mode', ['pin_failed']);
+      return false;
+    }
+    setDisguised(false);
+    if (result === 'unlock') {
+      setDuress(false);
+      logEvent('Disguise unlocked with PIN', ['pin_unlock']);
+      return true;
+    }
+    // Duress: show protection as stopped while it keeps running and contacts are alerted
+    setDuress(true);
+    logEvent('Duress PIN entered: silent escalation', ['duress_pin']);
+    if (!isMonitoring) {
+      setIsMonitoring(true);
+      ensureSession();
+      schedulerRef.current.start();
+    }
+    escalationRef.current.trigger('notify_contacts', { silent: true, reason: 'Duress PIN' });
+    return true;
+  };
+
+  const covertHandlersRef = useRef({ handleCovertTrigger, handleSpoken });
+  covertHandlersRef.current = { handleCovertTrigger, handleSpoken };
+
+  const preserveRef = useRef(preservePreRoll);
+  preserveRef.current = preservePreRoll;
+  // Effect handler is read through a ref so the controller never sees stale closures
+  const effectHandlerRef = useRef(handleEscalationEffect);
+  effectHandlerRef.current = handleEscalationEffect;
+  const escalationStateRef = useRef<EscalationSnapshot['state']>('idle');
+  // Direct calls (buttons, discreet triggers) are kept in a running session recording
+  const escalationRef = useRef(withInterventionRecording(createEscalationController({
+    onChange: (snapshot) => {
+      // Freeze the pre-roll the moment an escalation starts, prompt or silent
+      if (escalationStateRef.current === 'idle' && snapshot.state !== 'idle') preserveRef.current();
+      escalationStateRef.current = snapshot.state;
+      setEscalation(snapshot);
+    },
+    onEffect: (effect) => effectHandlerRef.current(effect),
+  }), () => recorderRef.current));
+
+  // Under duress the screen shows protection as stopped; everything keeps running underneath
+  const monitoringShown = isMonitoring && !duress;
+  // Silent escalations (discreet triggers, duress) must not show that location is being shared
+  const covert = duress || escalation?.silent === true;
+  const shownAssessment: RiskAssessment = duress
+    ? { ...assessment, riskLevel: RiskLevel.SAFE, score: 0, reason: "Monitoring Paused", trend: undefined, audioAnalysis: undefined, contextAnalysis: undefined }
+    : assessment;
+
   return (
     <div className="min-h-screen bg-slate-950 flex flex-col font-sans">
+      {disguised && <DisguiseShell onPinEntered={handlePinEntered} />}
+
       {/* Header */}
       <header className="p-4 flex justify-between items-center border-b border-slate-800 bg-slate-900/50 backdrop-blur-md sticky top-0 z-50">
         <div className="flex items-center gap-2">
@@ -137,13 +954,68 @@ const App: React.FC = () => {
           </div>
           <h1 className="text-xl font-bold bg-gradient-to-r from-indigo-400 to-cyan-400 bg-clip-text text-transparent">SheShield AI</h1>
         </div>
+        {/* Under duress nothing on screen may show that contacts were alerted */}
         <div className="flex gap-2">
+            {!duress && (
+              <button 
+                  onClick={() => setShowContacts(true)}
+                  className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
+              >
+                  Contacts
+              </button>
+            )}
+            <button 
+                onClick={() => setShowProfile(true)}
+                className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
+            >
+                Settings
+            </button>
+            <button 
+                onClick={() => setShowPrivacy(true)}
+                className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
+            >
+                Privacy
+            </button>
+            <button 
+                onClick={() => setShowDisguiseSetup(true)}
+                className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
+            >
+                Disguise
+            </button>
             <button 
-                onClick={handleGenerateReport}
+                onClick={() => setShowCovertSetup(true)}
                 className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
             >
-                Create Report
+                Triggers
             </button>
+            <button 
+                onClick={() => setShowTripSetup(true)}
+                className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
+            >
+                Trip
+            </button>
+            <button 
+                onClick={() => setShowZones(true)}
+                className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
+            >
+                Places
+            </button>
+            {!duress && (
+              <button 
+                  onClick={() => setShowHistory(true)}
+                  className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
+              >
+                  History
+              </button>
+            )}
+            {!duress && (
+              <button 
+                  onClick={() => handleGenerateReport()}
+                  className="text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 transition-colors"
+              >
+                  Create Report
+              </button>
+            )}
         </div>
       </header>
 
@@ -152,21 +1024,83 @@ const App: React.FC = () => {
         
         {/* Risk Visualizer */}
         <RiskIndicator 
-          level={assessment.riskLevel} 
-          score={assessment.score} 
-          reason={assessment.reason}
-          audioAnalysis={assessment.audioAnalysis}
-          contextAnalysis={assessment.contextAnalysis}
+          level={shownAssessment.riskLevel} 
+          score={shownAssessment.score} 
+          trend={shownAssessment.trend}
+          reason={shownAssessment.reason}
+          audioAnalysis={shownAssessment.audioAnalysis}
+          contextAnalysis={shownAssessment.contextAnalysis}
         />
 
+        {/* Walk me home */}
+        {trip && trip.plan && !duress && trip.state !== 'idle' && trip.state !== 'ended' && (
+          trip.state === 'arrived' ? (
+            <div className="rounded-xl border border-emerald-600 bg-emerald-950/60 p-4 flex justify-between items-center">
+              <span className="text-emerald-300 font-semibold">Arrived at {trip.plan.destination.name}</span>
+              <button onClick={() => setTrip(null)} className="text-xs px-3 py-1 bg-slate-800 rounded-full">Done</button>
+            </div>
+          ) : (
+            <TripStatus
+              snapshot={trip}
+              ride={ride}
+              onCheckIn={() => { tripRef.current.checkIn(); logEvent('Trip check-in', ['trip_check_in']); }}
+              onExtend={(minutes) => { tripRef.current.extendEta(minutes * 60000); logEvent(`Trip ETA extended by ${minutes} min`); }}
+              onEnd={() => tripRef.current.end()}
+            />
+          )
+        )}
+
+        {/* Live location sharing */}
+        {liveShare && !covert && (
+          <div className="rounded-xl border border-sky-700 bg-sky-950/60 p-3 flex justify-between items-center gap-3 text-sm">
+            <div className="min-w-0">
+              <div className="text-sky-300 font-semibold">Live location shared</div>
+              <div className="text-xs text-slate-400 truncate">
+                Until {new Date(liveShare.expiresAt).toLocaleTimeString()} · {liveShare.viewerUrl}
+              </div>
+            </div>
+            <button onClick={stopLiveShare} className="shrink-0 text-xs px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full">
+              Stop sharing
+            </button>
+          </div>
+        )}
+
+        {/* Guided walk to a safe haven */}
+        {guidance && !duress && (
+          <SafeWalk
+            state={guidance}
+            voice={guidanceVoice}
+            onToggleVoice={() => setGuidanceVoice(v => !v)}
+            onStop={stopGuidance}
+          />
+        )}
+
+        {/* Live on-device audio pre-screen */}
+        {monitoringShown && localAudio && (
+          <div className="px-4 py-2 bg-slate-900/50 rounded-xl border border-slate-800 text-xs">
+            <div className="flex justify-between text-slate-400 mb-1">
+              <span>Mic (on-device)</span>
+              <span className={localAudio.screamDetected || localAudio.impactDetected ? 'text-red-400 font-bold' : ''}>
+                {localAudio.screamDetected ? 'SCREAM' : localAudio.impactDetected ? 'IMPACT' : localAudio.silent ? 'quiet' : `distress ${localAudio.distressScore}`}
+              </span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all duration-300 ${localAudio.distressScore > 50 ? 'bg-red-500' : 'bg-indigo-500'}`}
+                style={{ width: `${Math.max(2, localAudio.distressScore)}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Action Center */}
         <div className="space-y-4">
           <div className="flex gap-3">
             <button 
                 onClick={startMonitoring}
-                disabled={isMonitoring}
+                disabled={monitoringShown}
                 className={`flex-1 py-4 rounded-2xl font-bold text-lg shadow-lg transition-all transform active:scale-95 ${
-                  isMonitoring 
+                  monitoringShown 
                   ? 'bg-slate-800 text-slate-600 cursor-not-allowed opacity-50' 
                   : 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-indigo-500/30'
                 }`}
@@ -175,9 +1109,9 @@ const App: React.FC = () => {
             </button>
             <button 
                 onClick={stopMonitoring}
-                disabled={!isMonitoring}
+                disabled={!monitoringShown}
                 className={`flex-1 py-4 rounded-2xl font-bold text-lg shadow-lg transition-all transform active:scale-95 ${
-                  !isMonitoring 
+                  !monitoringShown 
                   ? 'bg-slate-800 text-slate-600 cursor-not-allowed opacity-50' 
                   : 'bg-rose-600 hover:bg-rose-500 text-white shadow-rose-500/30'
                 }`}
@@ -186,7 +1120,7 @@ const App: React.FC = () => {
             </button>
           </div>
 
-          {assessment.riskLevel !== RiskLevel.SAFE && (
+          {shownAssessment.riskLevel !== RiskLevel.SAFE && (
              <div className="grid grid-cols-2 gap-3 animate-in fade-in slide-in-from-bottom-4 duration-500">
                 <button 
                   onClick={handleSOS}
@@ -194,7 +1128,10 @@ const App: React.FC = () => {
                 >
                     SOS ALERT
                 </button>
-                <button className="p-4 bg-slate-800 border border-slate-700 rounded-xl font-medium text-slate-200 hover:bg-slate-700 active:scale-95">
+                <button 
+                  onClick={() => setShowFakeCallSetup(true)}
+                  className="p-4 bg-slate-800 border border-slate-700 rounded-xl font-medium text-slate-200 hover:bg-slate-700 active:scale-95"
+                >
                     Fake Call
                 </button>
              </div>
@@ -202,58 +1139,226 @@ const App: React.FC = () => {
         </div>
 
         {/* Dynamic Advice */}
-        {assessment.recommendedAction && (
+        {shownAssessment.recommendedAction && !duress && (
           <div className="bg-slate-900/80 p-4 rounded-xl border border-indigo-500/30">
             <h3 className="text-indigo-400 text-xs font-bold uppercase tracking-wider mb-1">AI Recommendation</h3>
-            <p className="text-lg font-medium">{assessment.recommendedAction}</p>
+            <p className="text-lg font-medium">{shownAssessment.recommendedAction}</p>
+            {shownAssessment.engine === 'heuristic' && (
+              <p className="text-xs text-amber-400 mt-1">Offline: scored on-device until the cloud engine is reachable</p>
+            )}
           </div>
         )}
 
         {/* Safe Places (Maps Grounding) */}
         <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-4">
-          <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-3">Nearby Safe Havens (Maps Grounding)</h3>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Nearby Safe Havens (Maps Grounding)</h3>
+            {safePlacesSource === 'cache' && <span className="text-[10px] text-amber-400">cached</span>}
+          </div>
+          {!guidance && !duress && pickSafeHaven(safePlaces) && (
+            <button
+              onClick={() => startGuidance()}
+              className="w-full mb-3 py-2 bg-emerald-700 hover:bg-emerald-600 rounded-lg text-sm font-semibold text-white"
+            >
+              Go to safety · {pickSafeHaven(safePlaces)!.name}
+            </button>
+          )}
           {safePlaces.length === 0 ? (
-            <div className="text-slate-500 text-sm">Locating safe zones...</div>
+            <div className="text-slate-500 text-sm">
+              {privacy.consent.context ? 'Locating safe zones...' : 'Context sharing is off in privacy settings, so safe havens are not searched.'}
+            </div>
           ) : (
             <ul className="space-y-3">
               {safePlaces.slice(0, 3).map((place, i) => (
                 <li key={i} className="flex justify-between items-start">
                   <div>
                     <div className="font-medium text-slate-200">{place.name}</div>
-                    <div className="text-xs text-slate-500">{place.type}</div>
+                    <div className="text-xs text-slate-500">
+                      {CATEGORY_LABEL[place.category]}
+                      {place.openNow === true && <span className="text-emerald-400"> · open</span>}
+                      {place.openNow === false && <span className="text-red-400"> · closed</span>}
+                      {place.address && place.address !== 'View on Map' && ` · ${place.address}`}
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0 ml-3">
+                    {place.distanceM !== undefined && <div className="text-xs text-slate-300">{place.distance}</div>}
+                    {place.location && !guidance && !duress && (
+                      <button onClick={() => startGuidance(place)} className="block ml-auto text-emerald-400 text-xs underline">
+                        Go
+                      </button>
+                    )}
+                    {place.uri || place.location ? (
+                      <a
+                        href={place.uri ?? `https://www.google.com/maps/search/?api=1&query=${place.location!.lat},${place.location!.lng}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-indigo-400 text-xs underline"
+                      >
+                        View Map
+                      </a>
+                    ) : (
+                      <span className="text-xs text-slate-600">{place.address}</span>
+                    )}
                   </div>
-                  {place.uri ? (
-                    <a href={place.uri} target="_blank" rel="noreferrer" className="text-indigo-400 text-xs underline">
-                      View Map
-                    </a>
-                  ) : (
-                    <span className="text-xs text-slate-600">{place.distance}</span>
-                  )}
                 </li>
               ))}
             </ul>
           )}
         </div>
+
+        {/* Analysis scheduler diagnostics */}
+        {monitoringShown && schedulerState && <SchedulerDebug state={schedulerState} />}
+
+        {/* Session recording and offline replay */}
+        {!duress && (
+          <SessionReplayPanel
+            recording={recordingCounts}
+            onStartRecording={startSessionRecording}
+            onStopRecording={stopSessionRecording}
+            onReplay={handleReplayFile}
+            onOpenReport={openReplayReport}
+          />
+        )}
       </main>
 
       {/* Hidden Sensors */}
       <CameraFeed isActive={isMonitoring} ref={cameraRef} />
-      <AudioMonitor isActive={isMonitoring} ref={audioRef} />
+      <AudioMonitor
+        isActive={isMonitoring}
+        ref={audioRef}
+        onDistress={handleAudioDistress}
+        onAnalysis={setLocalAudio}
+        preRollMs={SENSITIVITY_PRESETS[profile.sensitivity].preRollMs}
+      />
+
+      {/* Escalation prompts and status */}
+      {escalation && (
+        <EscalationPrompt
+          snapshot={escalation}
+          onConfirmSafe={() => escalationRef.current.confirmSafe()}
+          onRequestCancel={() => escalationRef.current.requestCancel()}
+          onConfirmCancel={() => escalationRef.current.confirmCancel()}
+          onAbortCancel={() => escalationRef.current.abortCancel()}
+        />
+      )}
+
+      {showProfile && (
+        <ProfileSettingsPanel
+          profile={profile}
+          onChange={handleProfileChange}
+          onClose={() => setShowProfile(false)}
+        />
+      )}
+
+      {showPrivacy && (
+        <PrivacySettingsPanel
+          settings={privacy}
+          lastFilter={lastFilter}
+          onChange={handlePrivacyChange}
+          onClose={() => setShowPrivacy(false)}
+        />
+      )}
+
+      {showDisguiseSetup && (
+        <DisguiseSetup
+          config={disguiseConfig}
+          onSavePins={handleSavePins}
+          onToggleStartDisguised={(startDisguised) => setDisguiseConfig(prev => ({ ...prev, startDisguised }))}
+          onHide={enterDisguise}
+          onClose={() => setShowDisguiseSetup(false)}
+        />
+      )}
+
+      {showCovertSetup && (
+        <CovertTriggersSetup
+          config={covertConfig}
+          speechSupported={'SpeechRecognition' in window || 'webkitSpeechRecognition' in window}
+          onSave={handleSaveCovert}
+          onClose={() => setShowCovertSetup(false)}
+        />
+      )}
+
+      {/* Fake Call */}
+      {showFakeCallSetup && (
+        <FakeCallSetup
+          config={fakeCallConfig}
+          scheduledAt={fakeCallScheduledAt}
+          onSave={setFakeCallConfig}
+          onSchedule={scheduleFakeCall}
+          onCancelScheduled={cancelScheduledFakeCall}
+          onClose={() => setShowFakeCallSetup(false)}
+        />
+      )}
+      {fakeCallRinging && (
+        <FakeCall
+          config={fakeCallConfig}
+          onAnswer={() => logEvent('Fake call answered', ['fake_call_answered'])}
+          onDecline={() => { setFakeCallRinging(false); logEvent('Fake call declined'); }}
+          onEnd={(durationSec) => { setFakeCallRinging(false); logEvent(`Fake call ended after ${durationSec}s`); }}
+        />
+      )}
+
+      {/* Walk me home setup */}
+      {showTripSetup && (
+        <TripSetup
+          geofences={safeZones.geofences}
+          safePlaces={safePlaces}
+          canReadPlate={privacy.consent.vision}
+          onReadPlate={handleReadPlate}
+          onStart={startTrip}
+          onClose={() => setShowTripSetup(false)}
+        />
+      )}
+
+      {/* Incident History */}
+      {showHistory && !duress && (
+        <IncidentHistory
+          activeSessionId={activeSessionId}
+          onGenerateReport={handleGenerateReport}
+          onExportEvidence={(sessionId) => handleExportEvidence(sessionId)}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Emergency Contacts */}
+      {showContacts && !duress && (
+        <ContactsPanel
+          contacts={contacts}
+          receipts={receiptLog}
+          unavailableChannels={(['sms', 'email'] as const).filter(c => !transportsRef.current[c]?.isAvailable())}
+          onChange={setContacts}
+          onSendTest={() => sendAlert(contacts, "SheShield test alert", "This is a test alert from SheShield AI. No action needed.")}
+          onClose={() => setShowContacts(false)}
+        />
+      )}
+
+      {/* Safe Places & Routes */}
+      {showZones && (
+        <SafeZonesPanel
+          zones={safeZones}
+          status={zoneStatus}
+          location={location}
+          isRecording={isRecordingRoute}
+          onChange={setSafeZones}
+          onStartRecording={startRouteRecording}
+          onStopRecording={stopRouteRecording}
+          onClose={() => setShowZones(false)}
+        />
+      )}
 
       {/* Report Modal */}
-      {showReport && (
+      {showReport && !duress && (
         <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg max-h-[80vh] flex flex-col shadow-2xl">
             <div className="p-4 border-b border-slate-800 flex justify-between items-center">
               <h2 className="text-lg font-bold">Incident Report</h2>
               <button onClick={() => setShowReport(false)} className="text-slate-400 hover:text-white">✕</button>
             </div>
-            <div className="p-6 overflow-y-auto whitespace-pre-wrap font-mono text-sm text-slate-300">
-                {reportText}
-            </div>
-            <div className="p-4 border-t border-slate-800 bg-slate-900/50 rounded-b-2xl">
-                <p className="text-xs text-slate-500 text-center">Generated by Gemini 3 Pro (Thinking Mode)</p>
-            </div>
+            {report ? (
+              <IncidentReportView report={report} onExportEvidence={reportFromReplay ? undefined : () => handleExportEvidence(report.sessionId, report)} />
+            ) : (
+              <div className="p-6 text-sm text-slate-400">{reportStatus}</div>
+            )}
           </div>
         </div>
       )}
@@ -271,23 +1376,41 @@ const App: React.FC = () => {
                     className="w-full h-40 bg-slate-100 p-3 rounded-lg border border-slate-300 resize-none text-sm"
                     value={sosMessage}
                 />
+                {sosReceipts.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-xs">
+                    {sosReceipts.map(r => (
+                      <li key={r.id} className="bg-slate-900 px-3 py-2 rounded-lg text-slate-200">
+                        <div className="flex justify-between">
+                          <span>{r.contactName} · {r.channel}</span>
+                          <span className={statusClass(r.status)}>{r.status}{r.attempts > 1 ? ` (${r.attempts} tries)` : ''}</span>
+                        </div>
+                        {r.status === 'failed' && r.error && <div className="text-red-400">{r.error}</div>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {sosReceipts.some(r => r.status === 'failed' || r.status === 'simulated') && (
+                  <p className="mt-3 text-xs font-bold text-red-600">
+                    Some contacts were NOT reached. Call them or use the share sheet yourself.
+                  </p>
+                )}
+                {contacts.length === 0 && (
+                  <p className="mt-3 text-xs text-red-600">No emergency contacts configured. Add them under Contacts.</p>
+                )}
              </div>
              <div className="p-4 bg-slate-100 flex gap-3">
                 <button 
-                    onClick={() => setSosMessage(null)}
+                    onClick={() => { setSosMessage(null); setSosReceipts([]); }}
                     className="flex-1 py-3 bg-slate-300 text-slate-700 font-bold rounded-xl"
                 >
-                    Cancel
+                    {sosReceipts.length > 0 ? 'Close' : 'Cancel'}
                 </button>
                 <button 
-                    onClick={() => {
-                        navigator.clipboard.writeText(sosMessage);
-                        alert("Copied to clipboard! (Simulating SMS send)");
-                        setSosMessage(null);
-                    }}
-                    className="flex-1 py-3 bg-red-600 text-white font-bold rounded-xl shadow-lg shadow-red-500/30"
+                    onClick={() => sendAlert(contactsForTier(contacts, 3), "SheShield Emergency Alert", sosMessage)}
+                    disabled={contacts.length === 0 || sosReceipts.some(r => r.status === 'sending' || r.status === 'pending')}
+                    className="flex-1 py-3 bg-red-600 text-white font-bold rounded-xl shadow-lg shadow-red-500/30 disabled:opacity-50"
                 >
-                    SEND NOW
+                    {sosReceipts.length > 0 ? 'RESEND' : 'SEND NOW'}
                 </button>
              </div>
           </div>
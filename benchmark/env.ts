@@ -0,0 +1,2 @@
+// The Gemini client reads API_KEY when its module loads (Vite injects it in the app), so set it before anything imports it
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
@@ -0,0 +1,63 @@
+/**
+ * Risk fusion benchmark.
+ *
+ *   npm run benchmark -- [--engine stub|heuristic|gemini] [--label text]
+ *                        [--scenario id]... [--out results.json] [--baseline results.json]
+ *                        [--delay-ms 1500]
+ *
+ * The stub and heuristic engines run offline. The gemini engine reads
+ * GEMINI_API_KEY from the environment and makes one call per scenario step.
+ * Save a run with --out and pass it as --baseline after changing the prompt
+ * or thresholds to see what improved and what regressed.
+ */
+import "./env";
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { ENGINE_NAMES, EngineName, createBenchmarkEngine } from "./engines";
+import { BenchmarkReport, compareReports, formatReport, runBenchmark } from "./runner";
+import { SCENARIOS } from "./scenarios";
+
+const { values } = parseArgs({
+  options: {
+    engine: { type: "string", default: "stub" },
+    label: { type: "string" },
+    scenario: { type: "string", multiple: true },
+    out: { type: "string" },
+    baseline: { type: "string" },
+    "delay-ms": { type: "string" },
+  },
+});
+
+const engineName = values.engine as EngineName;
+if (!ENGINE_NAMES.includes(engineName)) {
+  console.error(`Unknown engine "${values.engine}". Choose one of: ${ENGINE_NAMES.join(", ")}`);
+  process.exit(2);
+}
+if (engineName === "gemini" && !process.env.API_KEY) {
+  console.error("The gemini engine needs GEMINI_API_KEY in the environment.");
+  process.exit(2);
+}
+
+const scenarios = values.scenario ? SCENARIOS.filter((s) => values.scenario!.includes(s.id)) : SCENARIOS;
+if (scenarios.length === 0) {
+  console.error(`No scenario matches ${values.scenario!.join(", ")}`);
+  process.exit(2);
+}
+
+const report = await runBenchmark(createBenchmarkEngine(engineName), scenarios, {
+  label: values.label,
+  delayMs: values["delay-ms"] ? Number(values["delay-ms"]) : engineName === "gemini" ? 1500 : 0,
+  onStep: (scenario, step) => {
+    if (step.error) console.error(`  ${scenario.id} @${step.atMs}ms: ${step.error}`);
+  },
+});
+
+console.log(formatReport(report));
+if (values.baseline) {
+  const baseline = JSON.parse(await readFile(values.baseline, "utf8")) as BenchmarkReport;
+  console.log(`\n${compareReports(report, baseline)}`);
+}
+if (values.out) {
+  await writeFile(values.out, JSON.stringify(report, null, 2));
+  console.log(`\nSaved to ${values.out}`);
+}
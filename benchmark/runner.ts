@@ -0,0 +1,382 @@
+import { ContextFactors, LocalAudioAnalysis, RiskLevel, SensorSnapshot } from "../types";
+import { EscalationEffect, EscalationOptions, actionRung, createEscalationController, normalizeAction } from "../services/escalation";
+import { sha256Hex } from "../services/evidenceVault";
+import { AggregatorOptions, createRiskAggregator } from "../services/riskAggregator";
+import { RiskEngine, riskRank } from "../services/riskEngine";
+import { createManualClock } from "../services/sessionReplay";
+import { QUIET_AUDIO, SCENARIOS, SUITE_VERSION, Scenario, ScenarioStep } from "./scenarios";
+
+/**
+ * Scores a RiskEngine against the labelled scenario suite.
+ *
+ * Each step is assessed on its own for the per-level and action metrics.
+ * The same results are also fed through the app's aggregator and escalation
+ * controller on a manual clock, which gives the time until contacts would be
+ * alerted and whether a benign scenario would have alerted anyone. The
+ * simulated user answers "I'm OK" to safety checks before a threat begins
+ * and never afterwards.
+ */
+
+const RISK_LEVELS: RiskLevel[] = [RiskLevel.SAFE, RiskLevel.UNCERTAIN, RiskLevel.SUSPICIOUS, RiskLevel.DANGEROUS, RiskLevel.CRITICAL];
+const ALERT_RUNG = actionRung("notify_contacts"); // first rung that reaches contacts
+const ALERT_EFFECTS: EscalationEffect[] = ["notify_contacts", "full_emergency_mode"];
+const BASE_TIME = Date.UTC(2026, 0, 1, 22, 0, 0); // scenario clocks start here; day or night comes from the labels
+
+export interface BenchmarkOptions {
+  label?: string; // free text to tell runs apart, e.g. a prompt revision
+  escalation?: Pick<EscalationOptions, "confirmTimeoutMs" | "cancelWindowMs" | "snoozeMs">;
+  aggregator?: AggregatorOptions;
+  settleMs?: number; // time allowed after the last step for countdowns to run out
+  delayMs?: number; // pause between engine calls, for rate-limited cloud engines
+  onStep?: (scenario: Scenario, step: StepResult) => void;
+}
+
+export interface StepResult {
+  atMs: number;
+  expected: ScenarioStep["expected"];
+  level: RiskLevel | null; // null when the engine failed
+  score: number | null;
+  action: string | null;
+  engine: string | null; // engine that answered (failover engines report the fallback)
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ScenarioResult {
+  id: string;
+  title: string;
+  tags: string[];
+  steps: StepResult[];
+  expectsAlert: boolean;
+  alertedAtMs: number | null; // scenario time contacts would first be alerted
+  timeToEscalationMs: number | null; // from threat onset; null when missed or not expected
+  falseAlarm: boolean; // contacts alerted although no step warranted it
+}
+
+export interface LevelMetrics {
+  level: RiskLevel;
+  support: number; // steps labelled with this level
+  predicted: number; // steps the engine put at this level
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface BenchmarkMetrics {
+  steps: number;
+  errors: number;
+  levelAccuracy: number;
+  withinOneLevel: number;
+  actionAccuracy: number;
+  underReactionRate: number; // recommended a weaker action than labelled
+  falseAlarmRate: number | null; // steps not warranting an alert where the engine recommended one
+  perLevel: LevelMetrics[];
+  scenarioFalseAlarms: number;
+  benignScenarios: number;
+  timeToEscalation: {
+    expected: number;
+    detected: number;
+    missed: number;
+    meanMs: number | null;
+    medianMs: number | null;
+    maxMs: number | null;
+  };
+  meanLatencyMs: number;
+}
+
+export interface BenchmarkReport {
+  suiteVersion: number;
+  suiteFingerprint: string; // hash of the scenarios, so edited suites are not compared by mistake
+  engine: { id: string; label: string };
+  label: string | null;
+  ranAt: string;
+  metrics: BenchmarkMetrics;
+  scenarios: ScenarioResult[];
+}
+
+/**
+ * 1. SCENARIO → SNAPSHOT
+ * Descriptors travel in the context text, so cloud engines receive the same
+ * information as text; no image or audio clip is attached.
+ */
+const toAudioFeatures = (step: ScenarioStep, at: number): LocalAudioAnalysis | null => {
+  if (!step.audio) return null;
+  const audio = { ...QUIET_AUDIO, ...step.audio };
+  return {
+    rms: audio.rms ?? 0,
+    peak: audio.peak ?? 0,
+    pitchHz: audio.pitchHz ?? null,
+    spectralCentroidHz: audio.spectralCentroidHz,
+    timestamp: at,
+    silent: (audio.rms ?? 0) < 0.01,
+    screamDetected: audio.screamDetected ?? false,
+    impactDetected: audio.impactDetected ?? false,
+    distressScore: audio.distressScore ?? 0,
+  };
+};
+
+const describeStep = (step: ScenarioStep, at: number): string => {
+  const c = step.context;
+  const audio = toAudioFeatures(step, at);
+  const speed = c.speedMps !== undefined ? `${c.speedMps.toFixed(1)} m/s` : "unknown speed";
+  return `
+      Environment: ${c.night ? "Night time" : "Day time"} (time risk: ${c.night ? "high" : "low"})
+      Movement: ${c.movement} (${speed}${c.suddenAcceleration ? ", sudden acceleration" : ""})
+      Route Deviation: ${c.routeDeviation ?? "unknown"}
+      Location Risk: ${c.locationRisk ?? "unknown"}
+      On-device Audio Pre-screen: ${audio
+        ? `distress ${audio.distressScore}/100, scream ${audio.screamDetected ? "DETECTED" : "no"}, impact ${audio.impactDetected ? "DETECTED" : "no"}, level ${Math.round(audio.rms * 100)}%`
+        : "unavailable"}
+      Camera (described, no frame attached): ${step.imageDescriptors?.join("; ") || "nothing notable"}
+      Speech heard: ${step.speech?.map((s) => `"${s}"`).join(", ") || "none"}
+    `;
+};
+
+export const toSnapshot = (step: ScenarioStep, at: number): SensorSnapshot => {
+  const c = step.context;
+  const factors: ContextFactors = {
+    time_risk: c.night ? "high" : "low",
+    location_risk: c.locationRisk ?? "unknown",
+    route_deviation: c.routeDeviation ?? "unknown",
+    movement_pattern: c.movement,
+  };
+  return {
+    imageBase64: null,
+    audioBase64: null,
+    audioFeatures: toAudioFeatures(step, at),
+    locationContext: describeStep(step, at),
+    isNight: c.night,
+    speedMps: c.speedMps ?? null,
+    contextFactors: factors,
+    movement: {
+      pattern: c.movement,
+      speedMps: c.speedMps ?? null,
+      headingDeg: null,
+      stoppedForMs: c.movement === "stationary" ? 60000 : 0,
+      suddenAcceleration: c.suddenAcceleration ?? false,
+      headingChangeDeg: null,
+      fixCount: 20,
+    },
+    consent: { vision: false, audio: false, context: true },
+    timestamp: at,
+  };
+};
+
+/**
+ * 2. RUN
+ */
+const runScenario = async (
+  engine: RiskEngine,
+  scenario: Scenario,
+  baseTime: number,
+  options: BenchmarkOptions
+): Promise<ScenarioResult> => {
+  const clock = createManualClock(baseTime);
+  const aggregator = createRiskAggregator(options.aggregator);
+  const onsetAt = scenario.threatOnsetMs === null ? null : baseTime + scenario.threatOnsetMs;
+  let alertedAt: number | null = null;
+
+  const escalation = createEscalationController({
+    ...options.escalation,
+    timers: clock,
+    onEffect: (effect) => {
+      if (ALERT_EFFECTS.includes(effect) && alertedAt === null) alertedAt = clock.now();
+      // Before the threat the user is fine and says so; afterwards they cannot answer.
+      // Deferred because the controller arms its countdown after emitting the prompt.
+      if (effect === "prompt_user" && (onsetAt === null || clock.now() < onsetAt)) {
+        queueMicrotask(() => escalation.confirmSafe());
+      }
+    },
+  });
+
+  const steps: StepResult[] = [];
+  for (const step of scenario.steps) {
+    const at = baseTime + step.atMs;
+    clock.advanceTo(at);
+    const startedAt = Date.now();
+    try {
+      const raw = await engine.assess(toSnapshot(step, at));
+      steps.push({
+        atMs: step.atMs,
+        expected: step.expected,
+        level: raw.riskLevel,
+        score: raw.score,
+        action: normalizeAction(raw.recommendedAction),
+        engine: raw.engine ?? engine.id,
+        latencyMs: Date.now() - startedAt,
+      });
+      const aggregate = aggregator.push(raw, at);
+      escalation.handleRecommendation(aggregate.recommendedAction);
+      await Promise.resolve(); // let the simulated "I'm OK" land before the next step
+    } catch (error) {
+      steps.push({
+        atMs: step.atMs,
+        expected: step.expected,
+        level: null,
+        score: null,
+        action: null,
+        engine: null,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    options.onStep?.(scenario, steps[steps.length - 1]);
+    if (options.delayMs) await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+  }
+  const lastAt = baseTime + (scenario.steps[scenario.steps.length - 1]?.atMs ?? 0);
+  clock.advanceTo(lastAt + (options.settleMs ?? 30000));
+
+  const expectsAlert = scenario.steps.some((s) => actionRung(s.expected.action) >= ALERT_RUNG);
+  return {
+    id: scenario.id,
+    title: scenario.title,
+    tags: scenario.tags,
+    steps,
+    expectsAlert,
+    alertedAtMs: alertedAt === null ? null : alertedAt - baseTime,
+    timeToEscalationMs: expectsAlert && alertedAt !== null && onsetAt !== null ? Math.max(0, alertedAt - onsetAt) : null,
+    falseAlarm: !expectsAlert && alertedAt !== null,
+  };
+};
+
+/**
+ * 3. METRICS
+ */
+const ratio = (num: number, den: number) => (den === 0 ? null : num / den);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const computeMetrics = (scenarios: ScenarioResult[]): BenchmarkMetrics => {
+  const steps = scenarios.flatMap((s) => s.steps);
+  const answered = steps.filter((s) => s.level !== null);
+  const levelHits = answered.filter((s) => s.level === s.expected.level).length;
+  const nearHits = answered.filter((s) => Math.abs(riskRank(s.level!) - riskRank(s.expected.level)) <= 1).length;
+  const actionHits = answered.filter((s) => s.action === s.expected.action).length;
+  const under = answered.filter((s) => actionRung(s.action!) < actionRung(s.expected.action)).length;
+  const calm = answered.filter((s) => actionRung(s.expected.action) < ALERT_RUNG);
+  const alarms = calm.filter((s) => actionRung(s.action!) >= ALERT_RUNG).length;
+
+  const perLevel = RISK_LEVELS.map((level): LevelMetrics => {
+    const support = steps.filter((s) => s.expected.level === level).length;
+    const predicted = answered.filter((s) => s.level === level).length;
+    const hits = answered.filter((s) => s.level === level && s.expected.level === level).length;
+    return { level, support, predicted, precision: ratio(hits, predicted), recall: ratio(hits, support) };
+  });
+
+  const expecting = scenarios.filter((s) => s.expectsAlert);
+  const times = expecting.flatMap((s) => (s.timeToEscalationMs === null ? [] : [s.timeToEscalationMs]));
+  const benign = scenarios.filter((s) => !s.expectsAlert);
+
+  return {
+    steps: steps.length,
+    errors: steps.length - answered.length,
+    levelAccuracy: ratio(levelHits, steps.length) ?? 0,
+    withinOneLevel: ratio(nearHits, steps.length) ?? 0,
+    actionAccuracy: ratio(actionHits, steps.length) ?? 0,
+    underReactionRate: ratio(under, steps.length) ?? 0,
+    falseAlarmRate: ratio(alarms, calm.length),
+    perLevel,
+    scenarioFalseAlarms: benign.filter((s) => s.falseAlarm).length,
+    benignScenarios: benign.length,
+    timeToEscalation: {
+      expected: expecting.length,
+      detected: times.length,
+      missed: expecting.length - times.length,
+      meanMs: times.length ? times.reduce((a, b) => a + b, 0) / times.length : null,
+      medianMs: median(times),
+      maxMs: times.length ? Math.max(...times) : null,
+    },
+    meanLatencyMs: steps.length ? steps.reduce((a, s) => a + s.latencyMs, 0) / steps.length : 0,
+  };
+};
+
+export const suiteFingerprint = async (scenarios: Scenario[] = SCENARIOS): Promise<string> =>
+  (await sha256Hex(new TextEncoder().encode(JSON.stringify([SUITE_VERSION, scenarios])))).slice(0, 16);
+
+export const runBenchmark = async (
+  engine: RiskEngine,
+  scenarios: Scenario[] = SCENARIOS,
+  options: BenchmarkOptions = {}
+): Promise<BenchmarkReport> => {
+  const results: ScenarioResult[] = [];
+  // Sequential on purpose: cloud engines are rate limited and step latency is part of the report
+  for (const scenario of scenarios) {
+    results.push(await runScenario(engine, scenario, BASE_TIME, options));
+  }
+  return {
+    suiteVersion: SUITE_VERSION,
+    suiteFingerprint: await suiteFingerprint(scenarios),
+    engine: { id: engine.id, label: engine.label },
+    label: options.label ?? null,
+    ranAt: new Date().toISOString(),
+    metrics: computeMetrics(results),
+    scenarios: results,
+  };
+};
+
+/**
+ * 4. OUTPUT
+ */
+const pct = (value: number | null) => (value === null ? "  n/a" : `${(value * 100).toFixed(1).padStart(5)}%`);
+const secs = (ms: number | null) => (ms === null ? "n/a" : `${(ms / 1000).toFixed(1)}s`);
+
+export const formatReport = (report: BenchmarkReport): string => {
+  const m = report.metrics;
+  const tte = m.timeToEscalation;
+  return [
+    `Engine: ${report.engine.label} (${report.engine.id})${report.label ? ` · ${report.label}` : ""}`,
+    `Suite v${report.suiteVersion} (${report.suiteFingerprint}) · ${report.scenarios.length} scenarios · ${m.steps} steps · ${m.errors} errors`,
+    "",
+    "Level       support  predicted  precision  recall",
+    ...m.perLevel.map((l) =>
+      `${l.level.padEnd(11)} ${String(l.support).padStart(7)}  ${String(l.predicted).padStart(9)}  ${pct(l.precision).padStart(9)}  ${pct(l.recall).padStart(6)}`),
+    "",
+    `Level accuracy     ${pct(m.levelAccuracy)}   (within one level ${pct(m.withinOneLevel)})`,
+    `Action accuracy    ${pct(m.actionAccuracy)}   (under-reaction ${pct(m.underReactionRate)})`,
+    `False-alarm rate   ${pct(m.falseAlarmRate)}   (benign scenarios alerting contacts: ${m.scenarioFalseAlarms}/${m.benignScenarios})`,
+    `Time to escalation median ${secs(tte.medianMs)}, mean ${secs(tte.meanMs)}, max ${secs(tte.maxMs)} · missed ${tte.missed}/${tte.expected}`,
+    `Mean engine latency ${Math.round(m.meanLatencyMs)}ms`,
+    "",
+    ...report.scenarios.map((s) => {
+      const outcome = s.expectsAlert
+        ? s.timeToEscalationMs === null ? "MISSED" : `alerted after ${secs(s.timeToEscalationMs)}`
+        : s.falseAlarm ? "FALSE ALARM" : "no alert";
+      const levels = s.steps.map((st) => `${st.level ?? "error"}${st.level === st.expected.level ? "" : `≠${st.expected.level}`}`).join(" ");
+      return `  ${s.id.padEnd(22)} ${outcome.padEnd(20)} ${levels}`;
+    }),
+  ].join("\n");
+};
+
+/**
+ * Metric deltas against an earlier run. Returns a warning instead when the
+ * two runs used different scenario suites.
+ */
+export const compareReports = (current: BenchmarkReport, baseline: BenchmarkReport): string => {
+  if (current.suiteFingerprint !== baseline.suiteFingerprint) {
+    return `Baseline used a different scenario suite (${baseline.suiteFingerprint} vs ${current.suiteFingerprint}); not comparable.`;
+  }
+  const delta = (name: string, now: number | null, before: number | null, unit: "%" | "s", lowerIsBetter = false) => {
+    if (now === null || before === null) return `${name.padEnd(22)} ${before ?? "n/a"} → ${now ?? "n/a"}`;
+    const scale = unit === "%" ? 100 : 1 / 1000;
+    const diff = (now - before) * scale;
+    const better = lowerIsBetter ? diff < 0 : diff > 0;
+    const mark = Math.abs(diff) < 0.05 ? "=" : better ? "better" : "WORSE";
+    return `${name.padEnd(22)} ${(before * scale).toFixed(1)}${unit} → ${(now * scale).toFixed(1)}${unit}  (${diff >= 0 ? "+" : ""}${diff.toFixed(1)}${unit}, ${mark})`;
+  };
+  const c = current.metrics;
+  const b = baseline.metrics;
+  return [
+    `Compared with ${baseline.engine.id}${baseline.label ? ` · ${baseline.label}` : ""} (${baseline.ranAt})`,
+    delta("Level accuracy", c.levelAccuracy, b.levelAccuracy, "%"),
+    delta("Action accuracy", c.actionAccuracy, b.actionAccuracy, "%"),
+    delta("Under-reaction", c.underReactionRate, b.underReactionRate, "%", true),
+    delta("False-alarm rate", c.falseAlarmRate, b.falseAlarmRate, "%", true),
+    ...c.perLevel.map((l, i) => delta(`Recall ${l.level}`, l.recall, b.perLevel[i]?.recall ?? null, "%")),
+    delta("Median escalation", c.timeToEscalation.medianMs, b.timeToEscalation.medianMs, "s", true),
+    `Missed escalations     ${b.timeToEscalation.missed} → ${c.timeToEscalation.missed}`,
+  ].join("\n");
+};
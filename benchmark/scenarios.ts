@@ -0,0 +1,376 @@
+import { LocalAudioAnalysis, MovementPattern, RiskLevel } from "../types";
+import { EscalationAction } from "../services/escalation";
+
+/**
+ * Labelled scenario suite for the risk fusion benchmark.
+ *
+ * Each scenario is a short sequence of analysis ticks. Every tick carries the
+ * inputs an engine would see (context, on-device audio features, what the
+ * camera shows as text descriptors, speech heard) and the label a careful
+ * human reviewer gave it: the risk level and the action the engine should
+ * recommend. `threatOnsetMs` marks when a real threat begins, so the runner can
+ * measure how long the full app takes to alert contacts.
+ *
+ * Bump SUITE_VERSION whenever a label or input changes; results from
+ * different suite versions are not comparable.
+ */
+export const SUITE_VERSION = 1;
+
+export interface StepContext {
+  night: boolean;
+  movement: MovementPattern;
+  speedMps?: number;
+  suddenAcceleration?: boolean;
+  routeDeviation?: "none" | "minor" | "major";
+  locationRisk?: "low" | "medium" | "high";
+}
+
+export interface ScenarioStep {
+  atMs: number; // offset from the scenario start
+  context: StepContext;
+  audio?: Partial<LocalAudioAnalysis>; // merged over a quiet baseline; omitted = no microphone
+  imageDescriptors?: string[]; // what the camera frame shows
+  speech?: string[]; // words or phrases audible in the clip
+  expected: { level: RiskLevel; action: EscalationAction };
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  tags: string[]; // "benign", "false_alarm_trap", "threat", ...
+  threatOnsetMs: number | null; // null when nothing dangerous happens
+  steps: ScenarioStep[];
+}
+
+// Labels used throughout the suite
+const SAFE = { level: RiskLevel.SAFE, action: "none" } as const;
+const UNCERTAIN = { level: RiskLevel.UNCERTAIN, action: "none" } as const;
+const SUSPICIOUS = { level: RiskLevel.SUSPICIOUS, action: "ask_user_confirmation" } as const;
+const DANGEROUS = { level: RiskLevel.DANGEROUS, action: "notify_contacts" } as const;
+const CRITICAL = { level: RiskLevel.CRITICAL, action: "full_emergency_mode" } as const;
+
+// Baseline every step's audio is merged over
+export const QUIET_AUDIO: Partial<LocalAudioAnalysis> = { rms: 0.03, peak: 0.1, pitchHz: null, distressScore: 0 };
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: "day-commute",
+    title: "Daytime walk along a busy high street",
+    tags: ["benign"],
+    threatOnsetMs: null,
+    steps: [0, 8000, 16000].map((atMs) => ({
+      atMs,
+      context: { night: false, movement: "walking", speedMps: 1.4, routeDeviation: "none", locationRisk: "low" },
+      audio: { rms: 0.08, peak: 0.3, pitchHz: 180, distressScore: 5 },
+      imageDescriptors: ["busy pavement with many pedestrians", "shop fronts", "daylight"],
+      expected: SAFE,
+    })),
+  },
+  {
+    id: "night-lit-street",
+    title: "Walking home at night on a well-lit residential street",
+    tags: ["benign", "night"],
+    threatOnsetMs: null,
+    steps: [0, 8000, 16000].map((atMs) => ({
+      atMs,
+      context: { night: true, movement: "walking", speedMps: 1.3, routeDeviation: "none", locationRisk: "low" },
+      audio: QUIET_AUDIO,
+      imageDescriptors: ["street lights", "parked cars", "houses with lit windows"],
+      expected: SAFE,
+    })),
+  },
+  {
+    id: "night-isolated-path",
+    title: "Alone on an unlit park path late at night",
+    tags: ["night", "elevated_baseline"],
+    threatOnsetMs: null,
+    steps: [0, 8000, 16000].map((atMs) => ({
+      atMs,
+      context: { night: true, movement: "walking", speedMps: 1.2, routeDeviation: "minor", locationRisk: "high" },
+      audio: QUIET_AUDIO,
+      imageDescriptors: ["dark footpath", "trees", "no other people visible"],
+      expected: UNCERTAIN,
+    })),
+  },
+  {
+    id: "concert-crowd",
+    title: "Loud concert with cheering crowd",
+    tags: ["benign", "false_alarm_trap", "loud_audio"],
+    threatOnsetMs: null,
+    steps: [0, 4000, 8000, 12000].map((atMs) => ({
+      atMs,
+      context: { night: true, movement: "stationary", speedMps: 0, routeDeviation: "none", locationRisk: "low" },
+      audio: { rms: 0.45, peak: 0.97, pitchHz: 320, spectralCentroidHz: 2600, distressScore: 20 },
+      imageDescriptors: ["stage lights", "large crowd dancing", "people smiling"],
+      speech: ["one more song", "woo"],
+      expected: SAFE,
+    })),
+  },
+  {
+    id: "evening-jog",
+    title: "Evening jog with heavy breathing",
+    tags: ["benign", "false_alarm_trap", "running"],
+    threatOnsetMs: null,
+    steps: [0, 8000, 16000].map((atMs) => ({
+      atMs,
+      context: { night: false, movement: "running", speedMps: 3.1, routeDeviation: "none", locationRisk: "low" },
+      audio: { rms: 0.18, peak: 0.5, pitchHz: 210, distressScore: 15 },
+      imageDescriptors: ["running track", "other joggers", "sunset"],
+      expected: SAFE,
+    })),
+  },
+  {
+    id: "crying-on-call",
+    title: "Upset phone call at home",
+    tags: ["false_alarm_trap", "indoors"],
+    threatOnsetMs: null,
+    steps: [0, 8000, 16000].map((atMs) => ({
+      atMs,
+      context: { night: false, movement: "stationary", speedMps: 0, routeDeviation: "none", locationRisk: "low" },
+      audio: { rms: 0.2, peak: 0.55, pitchHz: 430, distressScore: 40 },
+      imageDescriptors: ["bedroom ceiling", "indoors", "no other people"],
+      speech: ["I just can't believe she said that"],
+      expected: UNCERTAIN,
+    })),
+  },
+  {
+    id: "dropped-phone",
+    title: "Phone dropped on the pavement",
+    tags: ["false_alarm_trap", "impact"],
+    threatOnsetMs: null,
+    steps: [
+      {
+        atMs: 0,
+        context: { night: false, movement: "walking", speedMps: 1.4, routeDeviation: "none", locationRisk: "low" },
+        audio: { rms: 0.35, peak: 0.99, pitchHz: null, impactDetected: true, distressScore: 35 },
+        imageDescriptors: ["close-up of pavement", "blurred motion"],
+        speech: ["oh no"],
+        expected: UNCERTAIN,
+      },
+      {
+        atMs: 4000,
+        context: { night: false, movement: "stationary", speedMps: 0, routeDeviation: "none", locationRisk: "low" },
+        audio: QUIET_AUDIO,
+        imageDescriptors: ["user's hand picking up the phone", "pavement"],
+        expected: SAFE,
+      },
+    ],
+  },
+  {
+    id: "taxi-normal",
+    title: "Ride-hailing trip on the expected route",
+    tags: ["benign", "vehicle"],
+    threatOnsetMs: null,
+    steps: [0, 8000, 16000, 24000].map((atMs) => ({
+      atMs,
+      context: { night: true, movement: "vehicle", speedMps: 12, routeDeviation: "none", locationRisk: "low" },
+      audio: { rms: 0.06, peak: 0.2, pitchHz: 150, distressScore: 0 },
+      imageDescriptors: ["car interior", "driver facing the road", "city lights outside"],
+      expected: SAFE,
+    })),
+  },
+  {
+    id: "taxi-deviation",
+    title: "Driver leaves the route and ignores the passenger",
+    tags: ["threat", "vehicle", "route_deviation"],
+    threatOnsetMs: 16000,
+    steps: [
+      {
+        atMs: 0,
+        context: { night: true, movement: "vehicle", speedMps: 13, routeDeviation: "none", locationRisk: "low" },
+        audio: QUIET_AUDIO,
+        imageDescriptors: ["car interior", "driver facing the road"],
+        expected: SAFE,
+      },
+      {
+        atMs: 8000,
+        context: { night: true, movement: "vehicle", speedMps: 14, routeDeviation: "minor", locationRisk: "medium" },
+        audio: QUIET_AUDIO,
+        imageDescriptors: ["car interior", "fewer street lights outside"],
+        expected: UNCERTAIN,
+      },
+      {
+        atMs: 16000,
+        context: { night: true, movement: "vehicle", speedMps: 17, routeDeviation: "major", locationRisk: "high" },
+        audio: { rms: 0.16, peak: 0.4, pitchHz: 260, distressScore: 30 },
+        imageDescriptors: ["dark industrial road outside", "driver not responding"],
+        speech: ["this isn't the way"],
+        expected: SUSPICIOUS,
+      },
+      {
+        atMs: 20000,
+        context: { night: true, movement: "vehicle", speedMps: 18, routeDeviation: "major", locationRisk: "high" },
+        audio: { rms: 0.32, peak: 0.8, pitchHz: 450, distressScore: 60 },
+        imageDescriptors: ["dark industrial road outside", "driver gesturing angrily"],
+        speech: ["stop the car", "let me out"],
+        expected: DANGEROUS,
+      },
+      {
+        atMs: 24000,
+        context: { night: true, movement: "vehicle", speedMps: 19, routeDeviation: "major", locationRisk: "high" },
+        audio: { rms: 0.4, peak: 0.9, pitchHz: 520, screamDetected: true, distressScore: 80 },
+        imageDescriptors: ["driver reaching back towards the passenger"],
+        speech: ["help", "let me out"],
+        expected: CRITICAL,
+      },
+    ],
+  },
+  {
+    id: "followed-at-night",
+    title: "Followed closely on an empty street, then grabbed",
+    tags: ["threat", "night", "vision"],
+    threatOnsetMs: 8000,
+    steps: [
+      {
+        atMs: 0,
+        context: { night: true, movement: "walking", speedMps: 1.3, routeDeviation: "none", locationRisk: "medium" },
+        audio: QUIET_AUDIO,
+        imageDescriptors: ["empty street", "one person far behind"],
+        expected: UNCERTAIN,
+      },
+      {
+        atMs: 8000,
+        context: { night: true, movement: "walking", speedMps: 1.8, routeDeviation: "none", locationRisk: "medium" },
+        audio: QUIET_AUDIO,
+        imageDescriptors: ["a man walking close behind the user", "empty street"],
+        expected: SUSPICIOUS,
+      },
+      {
+        atMs: 12000,
+        context: { night: true, movement: "running", speedMps: 3.4, routeDeviation: "minor", locationRisk: "medium" },
+        audio: { rms: 0.2, peak: 0.5, pitchHz: 300, distressScore: 35 },
+        imageDescriptors: ["a man following at close distance", "user looking back"],
+        expected: SUSPICIOUS,
+      },
+      {
+        atMs: 15000,
+        context: { night: true, movement: "stationary", speedMps: 0, suddenAcceleration: false, routeDeviation: "minor", locationRisk: "high" },
+        audio: { rms: 0.55, peak: 1, pitchHz: 620, screamDetected: true, distressScore: 90 },
+        imageDescriptors: ["a man grabbing the user's arm", "struggle"],
+        speech: ["get off me", "help"],
+        expected: CRITICAL,
+      },
+    ],
+  },
+  {
+    id: "street-harassment",
+    title: "Aggressive stranger shouting at the user in daylight",
+    tags: ["threat", "vision", "audio"],
+    threatOnsetMs: 0,
+    steps: [
+      {
+        atMs: 0,
+        context: { night: false, movement: "stationary", speedMps: 0, routeDeviation: "none", locationRisk: "low" },
+        audio: { rms: 0.25, peak: 0.6, pitchHz: 190, distressScore: 30 },
+        imageDescriptors: ["a man standing very close and shouting", "bus stop"],
+        speech: ["give me your number"],
+        expected: SUSPICIOUS,
+      },
+      {
+        atMs: 4000,
+        context: { night: false, movement: "stationary", speedMps: 0, routeDeviation: "none", locationRisk: "low" },
+        audio: { rms: 0.34, peak: 0.85, pitchHz: 240, distressScore: 55 },
+        imageDescriptors: ["the man shoving the user", "aggressive posture"],
+        speech: ["leave me alone"],
+        expected: DANGEROUS,
+      },
+      {
+        atMs: 8000,
+        context: { night: false, movement: "walking", speedMps: 1.9, routeDeviation: "none", locationRisk: "low" },
+        audio: { rms: 0.22, peak: 0.5, pitchHz: 260, distressScore: 45 },
+        imageDescriptors: ["the man following the user", "aggressive posture"],
+        expected: DANGEROUS,
+      },
+    ],
+  },
+  {
+    id: "scream-impact",
+    title: "Scream and impact, user on the ground",
+    tags: ["threat", "audio"],
+    threatOnsetMs: 0,
+    steps: [
+      {
+        atMs: 0,
+        context: { night: true, movement: "stationary", speedMps: 0, routeDeviation: "none", locationRisk: "medium" },
+        audio: { rms: 0.6, peak: 1, pitchHz: 700, screamDetected: true, impactDetected: true, distressScore: 92 },
+        imageDescriptors: ["camera facing the sky", "a person standing over the user"],
+        speech: ["no", "stop"],
+        expected: CRITICAL,
+      },
+      {
+        atMs: 3000,
+        context: { night: true, movement: "stationary", speedMps: 0, routeDeviation: "none", locationRisk: "medium" },
+        audio: { rms: 0.4, peak: 0.9, pitchHz: 560, screamDetected: true, distressScore: 85 },
+        imageDescriptors: ["a person standing over the user"],
+        speech: ["help"],
+        expected: CRITICAL,
+      },
+    ],
+  },
+  {
+    id: "weapon-sighted",
+    title: "Person with a knife approaches",
+    tags: ["threat", "vision"],
+    threatOnsetMs: 0,
+    steps: [
+      {
+        atMs: 0,
+        context: { night: true, movement: "walking", speedMps: 1.2, routeDeviation: "none", locationRisk: "medium" },
+        audio: QUIET_AUDIO,
+        imageDescriptors: ["a person holding a knife", "approaching the user"],
+        expected: DANGEROUS,
+      },
+      {
+        atMs: 3000,
+        context: { night: true, movement: "stationary", speedMps: 0, routeDeviation: "none", locationRisk: "medium" },
+        audio: { rms: 0.3, peak: 0.8, pitchHz: 400, distressScore: 70 },
+        imageDescriptors: ["a person pointing a knife at the user"],
+        speech: ["give me your bag"],
+        expected: CRITICAL,
+      },
+    ],
+  },
+  {
+    id: "loitering-car-park",
+    title: "Waiting in a dim car park while a car idles nearby",
+    tags: ["night", "loitering"],
+    threatOnsetMs: null,
+    steps: [0, 8000, 16000].map((atMs) => ({
+      atMs,
+      context: { night: true, movement: "loitering", speedMps: 0.2, routeDeviation: "none", locationRisk: "high" },
+      audio: { rms: 0.05, peak: 0.2, pitchHz: null, distressScore: 5 },
+      imageDescriptors: ["dim multi-storey car park", "a car idling nearby with its lights off"],
+      expected: SUSPICIOUS,
+    })),
+  },
+  {
+    id: "forced-into-vehicle",
+    title: "Pulled into a vehicle that drives off",
+    tags: ["threat", "vehicle", "movement"],
+    threatOnsetMs: 4000,
+    steps: [
+      {
+        atMs: 0,
+        context: { night: true, movement: "walking", speedMps: 1.4, routeDeviation: "none", locationRisk: "medium" },
+        audio: QUIET_AUDIO,
+        imageDescriptors: ["a van stopping next to the user"],
+        expected: UNCERTAIN,
+      },
+      {
+        atMs: 4000,
+        context: { night: true, movement: "vehicle", speedMps: 9, suddenAcceleration: true, routeDeviation: "major", locationRisk: "high" },
+        audio: { rms: 0.5, peak: 1, pitchHz: 640, screamDetected: true, impactDetected: true, distressScore: 95 },
+        imageDescriptors: ["van interior", "hands restraining the user"],
+        speech: ["let go", "help me"],
+        expected: CRITICAL,
+      },
+      {
+        atMs: 7000,
+        context: { night: true, movement: "vehicle", speedMps: 15, routeDeviation: "major", locationRisk: "high" },
+        audio: { rms: 0.3, peak: 0.8, pitchHz: 500, distressScore: 80 },
+        imageDescriptors: ["dark van interior"],
+        expected: CRITICAL,
+      },
+    ],
+  },
+];
@@ -1,61 +1,101 @@
 import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import { LocalAudioAnalysis } from '../types';
+import { createAudioDistressDetector } from '../services/audioAnalysis';
+import { AudioClip, RollingRecorder, blobToBase64, createRollingRecorder } from '../services/audioRecorder';
 
 interface AudioMonitorProps {
   isActive: boolean;
+  onDistress?: (analysis: LocalAudioAnalysis) => void; // scream/impact heard, fired immediately
+  onAnalysis?: (analysis: LocalAudioAnalysis) => void; // throttled live readings for the UI
+  preRollMs?: number; // audio history kept for freezePreRoll
+  segmentMs?: number; // length of each self-contained recording
 }
 
 export interface AudioHandle {
   getLatestAudio: () => Promise<string | null>;
+  getAudioFeatures: () => LocalAudioAnalysis | null;
+  freezePreRoll: () => Promise<AudioClip | null>;
 }
 
-const AudioMonitor = forwardRef<AudioHandle, AudioMonitorProps>(({ isActive }, ref) => {
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+const ANALYSIS_INTERVAL_MS = 100;
+const UI_UPDATE_INTERVAL_MS = 500;
+
+const AudioMonitor = forwardRef<AudioHandle, AudioMonitorProps>(({ isActive, onDistress, onAnalysis, preRollMs = 30000, segmentMs = 5000 }, ref) => {
+  const recorderRef = useRef<RollingRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const analysisTimerRef = useRef<number | null>(null);
+  // Callbacks via refs so the analysis loop never holds stale props
+  const callbacksRef = useRef({ onDistress, onAnalysis });
+  callbacksRef.current = { onDistress, onAnalysis };
+  const preRollRef = useRef(preRollMs);
+  preRollRef.current = preRollMs;
+  const detectorRef = useRef(createAudioDistressDetector({
+    onDistress: (analysis) => callbacksRef.current.onDistress?.(analysis),
+  }));
 
   useImperativeHandle(ref, () => ({
     getLatestAudio: async () => {
-      // Returns the last chunk as base64
-      if (chunksRef.current.length === 0) return null;
-      
-      const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-      chunksRef.current = []; // Clear buffer after reading
-      
-      return new Promise((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64 = (reader.result as string).split(',')[1];
-          resolve(base64);
-        };
-        reader.readAsDataURL(blob);
-      });
-    }
+      // Returns the most recent complete segment (a standalone webm file) as base64
+      const segment = recorderRef.current?.getLatestSegment();
+      return segment ? blobToBase64(segment.blob) : null;
+    },
+    // Latest on-device analysis, used by pre-screening and the offline heuristic engine
+    getAudioFeatures: () => detectorRef.current.getLatest(),
+    // The last preRollMs of audio as one WAV clip, up to this moment
+    freezePreRoll: async () => recorderRef.current ? recorderRef.current.freezePreRoll() : null
   }));
 
   useEffect(() => {
     if (isActive) {
       navigator.mediaDevices.getUserMedia({ audio: true })
         .then(stream => {
-          const recorder = new MediaRecorder(stream, { mimeType: 'audio/webm' });
-          
-          recorder.ondataavailable = (e) => {
-            if (e.data.size > 0) {
-              chunksRef.current.push(e.data);
-              // Keep buffer small (approx last 5 seconds)
-              if (chunksRef.current.length > 5) chunksRef.current.shift();
-            }
-          };
+          streamRef.current = stream;
+          recorderRef.current = createRollingRecorder(stream, { preRollMs: preRollRef.current, segmentMs });
 
-          recorder.start(1000); // Collect 1-second chunks
-          mediaRecorderRef.current = recorder;
+          const audioContext = new AudioContext();
+          const analyser = audioContext.createAnalyser();
+          analyser.fftSize = 2048;
+          audioContext.createMediaStreamSource(stream).connect(analyser);
+          audioContextRef.current = audioContext;
+          analyserRef.current = analyser;
+
+          // Real-time Web Audio pipeline: ~10 frames/s through the distress detector
+          const timeDomain = new Float32Array(analyser.fftSize);
+          const spectrum = new Float32Array(analyser.frequencyBinCount);
+          let lastUiUpdate = 0;
+          analysisTimerRef.current = window.setInterval(() => {
+            analyser.getFloatTimeDomainData(timeDomain);
+            analyser.getFloatFrequencyData(spectrum);
+            const analysis = detectorRef.current.process(timeDomain, spectrum, audioContext.sampleRate);
+            if (analysis.timestamp - lastUiUpdate >= UI_UPDATE_INTERVAL_MS) {
+              lastUiUpdate = analysis.timestamp;
+              callbacksRef.current.onAnalysis?.(analysis);
+            }
+          }, ANALYSIS_INTERVAL_MS);
         })
         .catch(err => console.error("Microphone access denied:", err));
     } else {
-      mediaRecorderRef.current?.stop();
-      mediaRecorderRef.current?.stream.getTracks().forEach(t => t.stop());
+      const stream = streamRef.current;
+      recorderRef.current?.stop().finally(() => stream?.getTracks().forEach(t => t.stop()));
+      recorderRef.current = null;
+      streamRef.current = null;
+      if (analysisTimerRef.current) clearInterval(analysisTimerRef.current);
+      analysisTimerRef.current = null;
+      detectorRef.current.reset();
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+      analyserRef.current = null;
     }
   }, [isActive]);
 
+  // A new sensitivity preset changes the evidence window without restarting the microphone
+  useEffect(() => {
+    recorderRef.current?.setPreRollMs(preRollMs);
+  }, [preRollMs]);
+
   return null; // Invisible component
 });
 
-export default AudioMonitor;
\ No newline at end of file
+export default AudioMonitor;
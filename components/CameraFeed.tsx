@@ -7,22 +7,29 @@ interface CameraFeedProps {
 
 export interface CameraHandle {
   capture: () => string | null;
+  captureFrame: () => HTMLCanvasElement | null; // full-resolution original, for on-device filtering
 }
 
 const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ isActive }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
 
+  const captureFrame = () => {
+    if (!videoRef.current || !videoRef.current.videoWidth) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = videoRef.current.videoWidth;
+    canvas.height = videoRef.current.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(videoRef.current, 0, 0);
+    return canvas;
+  };
+
   useImperativeHandle(ref, () => ({
+    captureFrame,
     capture: () => {
-      if (!videoRef.current) return null;
-      const canvas = document.createElement('canvas');
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return null;
-      ctx.drawImage(videoRef.current, 0, 0);
+      const canvas = captureFrame();
       // Remove data:image/jpeg;base64, prefix for API
-      return canvas.toDataURL('image/jpeg', 0.7).split(',')[1];
+      return canvas ? canvas.toDataURL('image/jpeg', 0.7).split(',')[1] : null;
     }
   }));
 
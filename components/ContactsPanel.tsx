@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { AlertChannel, DeliveryReceipt, EmergencyContact } from '../types';
+import { validateContact } from '../services/contacts';
+import { createId } from '../services/storage';
+
+interface ContactsPanelProps {
+  contacts: EmergencyContact[];
+  receipts: DeliveryReceipt[];
+  unavailableChannels: AlertChannel[]; // no gateway configured, alerts on these fail
+  onChange: (contacts: EmergencyContact[]) => void;
+  onSendTest: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500";
+
+const CHANNELS: { value: AlertChannel, label: string }[] = [
+  { value: 'sms', label: 'SMS' },
+  { value: 'email', label: 'Email' },
+  { value: 'webhook', label: 'Webhook' },
+  { value: 'share', label: 'Share sheet' },
+];
+
+export const statusClass = (status: DeliveryReceipt['status']) => {
+  switch (status) {
+    case 'delivered': return 'text-emerald-400';
+    case 'failed': return 'text-red-400';
+    case 'simulated': return 'text-amber-400';
+    case 'sending': return 'text-amber-400 animate-pulse';
+    default: return 'text-slate-400';
+  }
+};
+
+const emptyForm = { name: '', phone: '', email: '', webhookUrl: '', preferredChannel: 'sms' as AlertChannel, tier: 1 };
+
+const ContactsPanel: React.FC<ContactsPanelProps> = ({ contacts, receipts, unavailableChannels, onChange, onSendTest, onClose }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  const addContact = () => {
+    const candidate = {
+      name: form.name.trim(),
+      phone: form.phone.trim() || undefined,
+      email: form.email.trim() || undefined,
+      webhookUrl: form.webhookUrl.trim() || undefined,
+      preferredChannel: form.preferredChannel,
+      tier: form.tier,
+    };
+    const problem = validateContact(candidate);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange([...contacts, { id: createId(), ...candidate }]);
+    setForm(emptyForm);
+    setError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">Emergency Contacts</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-5 text-sm">
+          <section className="space-y-2">
+            {contacts.length === 0 && <p className="text-slate-500">No contacts yet. Alerts cannot be delivered until you add one.</p>}
+            {unavailableChannels.length > 0 && (
+              <p className="text-amber-400 text-xs">
+                {unavailableChannels.map(c => CHANNELS.find(ch => ch.value === c)?.label ?? c).join(' and ')} not set up (no relay configured):
+                alerts on {unavailableChannels.length > 1 ? 'these channels' : 'this channel'} fail and are not sent.
+              </p>
+            )}
+            {contacts.map(contact => (
+              <div key={contact.id} className="flex justify-between items-center">
+                <div>
+                  <div className="text-slate-200">{contact.name}</div>
+                  <div className="text-xs text-slate-500">
+                    Tier {contact.tier} · {contact.preferredChannel} · {contact.phone || contact.email || contact.webhookUrl}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onChange(contacts.filter(c => c.id !== contact.id))}
+                  className="text-xs text-rose-400 hover:text-rose-300"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Add contact</h3>
+            <input className={inputClass} placeholder="Name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+            <input className={inputClass} placeholder="Phone (+44...)" value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })} />
+            <input className={inputClass} placeholder="Email" value={form.email} onChange={e => setForm({ ...form, email: e.target.value })} />
+            <input className={inputClass} placeholder="Webhook URL (optional)" value={form.webhookUrl} onChange={e => setForm({ ...form, webhookUrl: e.target.value })} />
+            <div className="flex gap-2">
+              <select
+                className={inputClass}
+                value={form.preferredChannel}
+                onChange={e => setForm({ ...form, preferredChannel: e.target.value as AlertChannel })}
+              >
+                {CHANNELS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+              </select>
+              <select className={inputClass} value={form.tier} onChange={e => setForm({ ...form, tier: Number(e.target.value) })}>
+                <option value={1}>Tier 1 (first)</option>
+                <option value={2}>Tier 2</option>
+                <option value={3}>Tier 3 (emergency only)</option>
+              </select>
+            </div>
+            {error && <p className="text-rose-400 text-xs">{error}</p>}
+            <button onClick={addContact} className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg font-medium">
+              Add contact
+            </button>
+            <button
+              onClick={onSendTest}
+              disabled={contacts.length === 0}
+              className="w-full py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg font-medium disabled:opacity-50"
+            >
+              Send test alert
+            </button>
+          </section>
+
+          <section className="space-y-1">
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Delivery log</h3>
+            {receipts.length === 0 && <p className="text-slate-500">No alerts sent yet.</p>}
+            {receipts.slice(-20).reverse().map(r => (
+              <div key={r.id} className="text-xs">
+                <div className="flex justify-between">
+                  <span className="text-slate-300">{new Date(r.timestamp).toLocaleString()} · {r.contactName} · {r.channel}</span>
+                  <span className={statusClass(r.status)}>{r.status}{r.attempts > 1 ? ` (${r.attempts} tries)` : ''}</span>
+                </div>
+                {r.status === 'failed' && r.error && <div className="text-red-400/80">{r.error}</div>}
+              </div>
+            ))}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactsPanel;
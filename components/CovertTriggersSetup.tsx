@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { CovertTriggerConfig } from '../services/covertTriggers';
+
+interface CovertTriggersSetupProps {
+  config: CovertTriggerConfig;
+  speechSupported: boolean;
+  onSave: (config: CovertTriggerConfig) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500";
+
+const CovertTriggersSetup: React.FC<CovertTriggersSetupProps> = ({ config, speechSupported, onSave, onClose }) => {
+  const [draft, setDraft] = useState(config);
+  const sameWords = draft.codeword.trim() !== '' && draft.codeword.trim().toLowerCase() === draft.safeWord.trim().toLowerCase();
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">Discreet Triggers</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4 text-sm">
+          <p className="text-xs text-slate-400">
+            These start the alert silently: contacts are notified and evidence is recorded without anything appearing on screen.
+          </p>
+
+          <div className="space-y-1">
+            <label className="text-slate-400 text-xs font-bold uppercase tracking-wider">Codeword</label>
+            <input className={inputClass} placeholder="e.g. pineapple pizza" value={draft.codeword} onChange={e => setDraft({ ...draft, codeword: e.target.value })} />
+            <p className="text-xs text-slate-500">Pick a phrase you would never say by accident. Heard while protection is on.</p>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-slate-400 text-xs font-bold uppercase tracking-wider">Safe word</label>
+            <input className={inputClass} placeholder="e.g. blue umbrella" value={draft.safeWord} onChange={e => setDraft({ ...draft, safeWord: e.target.value })} />
+            <p className="text-xs text-slate-500">Cancels a false alarm and tells contacts you are safe.</p>
+            {sameWords && <p className="text-xs text-red-400">The safe word must differ from the codeword.</p>}
+          </div>
+
+          {!speechSupported && (draft.codeword || draft.safeWord) && (
+            <p className="text-xs text-amber-400">This browser has no on-device speech recognition; words are only caught in the cloud analysis.</p>
+          )}
+
+          <label className="flex items-center gap-2 text-slate-300">
+            <input type="checkbox" checked={draft.shake} onChange={e => setDraft({ ...draft, shake: e.target.checked })} />
+            Shake the phone hard (4 jolts)
+          </label>
+          <label className="flex items-center gap-2 text-slate-300">
+            <input type="checkbox" checked={draft.tapPattern} onChange={e => setDraft({ ...draft, tapPattern: e.target.checked })} />
+            Tap an empty part of the screen 5 times quickly (not while the calculator is shown)
+          </label>
+
+          <button
+            disabled={sameWords}
+            onClick={() => onSave({ ...draft, codeword: draft.codeword.trim(), safeWord: draft.safeWord.trim() })}
+            className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 rounded-xl font-bold"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CovertTriggersSetup;
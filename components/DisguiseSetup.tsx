@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { DisguiseConfig, isDisguiseReady } from '../services/disguise';
+
+interface DisguiseSetupProps {
+  config: DisguiseConfig;
+  onSavePins: (pin: string, duressPin: string) => Promise<void>;
+  onToggleStartDisguised: (value: boolean) => void;
+  onHide: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 tracking-widest";
+
+const DisguiseSetup: React.FC<DisguiseSetupProps> = ({ config, onSavePins, onToggleStartDisguised, onHide, onClose }) => {
+  const [pin, setPin] = useState('');
+  const [duressPin, setDuressPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const ready = isDisguiseReady(config);
+
+  const save = async () => {
+    setError(null);
+    try {
+      await onSavePins(pin, duressPin);
+      setPin('');
+      setDuressPin('');
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">Disguise</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4 text-sm">
+          <p className="text-xs text-slate-400">
+            Hides SheShield behind a working calculator while protection keeps running. Type your PIN and press "=" to come back.
+          </p>
+
+          <div className="space-y-2">
+            <input className={inputClass} type="password" inputMode="numeric" placeholder={ready ? 'New PIN (4-8 digits)' : 'PIN (4-8 digits)'} value={pin} onChange={e => setPin(e.target.value.replace(/\D/g, ''))} />
+            <input className={inputClass} type="password" inputMode="numeric" placeholder="Duress PIN (optional)" value={duressPin} onChange={e => setDuressPin(e.target.value.replace(/\D/g, ''))} />
+            <p className="text-xs text-slate-500">
+              The duress PIN looks like it unlocks and stops protection, but silently alerts your contacts and keeps recording.
+            </p>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {saved && !error && <p className="text-xs text-emerald-400">PINs saved</p>}
+            <button onClick={save} disabled={!pin} className="w-full py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-lg">
+              {ready ? 'Change PINs' : 'Set PINs'}
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 text-slate-300">
+            <input type="checkbox" disabled={!ready} checked={config.startDisguised} onChange={e => onToggleStartDisguised(e.target.checked)} />
+            Always open as the calculator
+          </label>
+
+          <button onClick={onHide} disabled={!ready} className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 rounded-xl font-bold">
+            Hide now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DisguiseSetup;
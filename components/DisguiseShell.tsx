@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { PIN_PATTERN, evaluateExpression } from '../services/disguise';
+
+interface DisguiseShellProps {
+  // Resolves true when the entry was a PIN the app acted on
+  onPinEntered: (pin: string) => Promise<boolean>;
+}
+
+const KEYS = ['C', '⌫', '÷', '×', '7', '8', '9', '-', '4', '5', '6', '+', '1', '2', '3', '=', '0', '.'];
+const OPERATORS = ['÷', '×', '-', '+'];
+
+const formatResult = (value: number) => Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(10)));
+
+/**
+ * A working calculator drawn over the real UI, which stays mounted so
+ * monitoring keeps running underneath. Typing a PIN and "=" unlocks.
+ */
+const DisguiseShell: React.FC<DisguiseShellProps> = ({ onPinEntered }) => {
+  const [expression, setExpression] = useState('');
+  const [previous, setPrevious] = useState<string | null>(null);
+
+  const press = async (key: string) => {
+    if (key === 'C') {
+      setExpression('');
+      setPrevious(null);
+      return;
+    }
+    if (key === '⌫') {
+      setExpression(e => e.slice(0, -1));
+      return;
+    }
+    if (key === '=') {
+      if (!expression) return;
+      if (PIN_PATTERN.test(expression) && await onPinEntered(expression)) {
+        setExpression('');
+        setPrevious(null);
+        return;
+      }
+      const value = evaluateExpression(expression);
+      setPrevious(expression);
+      setExpression(value === null ? 'Error' : formatResult(value));
+      return;
+    }
+    setExpression(e => {
+      const current = e === 'Error' ? '' : e;
+      // Two operators in a row: the newer one replaces the older
+      if (OPERATORS.includes(key) && OPERATORS.includes(current.slice(-1))) return current.slice(0, -1) + key;
+      return current + key;
+    });
+  };
+
+  return (
+    <div data-covert-taps-ignored className="fixed inset-0 z-[100] bg-black flex flex-col justify-end p-4 select-none">
+      <div className="text-right px-2 mb-4 min-h-[7rem] flex flex-col justify-end">
+        <div className="text-slate-500 text-xl h-7 truncate">{previous ?? ''}</div>
+        <div className="text-white text-6xl font-light tabular-nums truncate">{expression || '0'}</div>
+      </div>
+      <div className="grid grid-cols-4 gap-3 max-w-md w-full mx-auto">
+        {KEYS.map(key => (
+          <button
+            key={key}
+            onClick={() => press(key)}
+            className={`h-16 rounded-full text-2xl active:opacity-70 ${
+              key === '0' ? 'col-span-2' : ''
+            } ${
+              key === '=' ? 'row-span-2 h-auto bg-orange-500 text-white'
+              : OPERATORS.includes(key) ? 'bg-orange-500 text-white'
+              : key === 'C' || key === '⌫' ? 'bg-neutral-400 text-black'
+              : 'bg-neutral-800 text-white'
+            }`}
+          >
+            {key}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DisguiseShell;
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { EscalationSnapshot } from '../services/escalation';
+
+interface EscalationPromptProps {
+  snapshot: EscalationSnapshot;
+  onConfirmSafe: () => void;
+  onRequestCancel: () => void;
+  onConfirmCancel: () => void;
+  onAbortCancel: () => void;
+}
+
+const STATE_LABELS: Record<string, string> = {
+  notifying: 'Notifying emergency contacts',
+  recording: 'Contacts notified · Recording audio evidence',
+  streaming: 'Recording audio & video evidence',
+  emergency: 'FULL EMERGENCY MODE',
+};
+
+const useCountdown = (deadline: number | null) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (deadline === null) return;
+    const id = window.setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [deadline]);
+  return deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+};
+
+const EscalationPrompt: React.FC<EscalationPromptProps> = ({
+  snapshot, onConfirmSafe, onRequestCancel, onConfirmCancel, onAbortCancel
+}) => {
+  const secondsLeft = useCountdown(snapshot.deadline);
+
+  // Covert escalations never show anything on screen
+  if (snapshot.state === 'idle' || snapshot.silent) return null;
+
+  if (snapshot.state === 'confirming') {
+    return (
+      <div className="fixed inset-0 bg-amber-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+        <div className="bg-slate-900 border-2 border-amber-500 rounded-2xl w-full max-w-sm p-6 text-center shadow-2xl">
+          <h2 className="text-2xl font-bold text-amber-400">Are you OK?</h2>
+          <p className="text-slate-300 mt-2 text-sm">Your contacts will be alerted automatically if you don't respond.</p>
+          <div className="text-6xl font-bold my-6 tabular-nums">{secondsLeft}</div>
+          <button
+            onClick={onConfirmSafe}
+            className="w-full py-4 bg-emerald-600 hover:bg-emerald-500 rounded-xl font-bold text-lg active:scale-95"
+          >
+            I'm OK
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (snapshot.state === 'cancel_pending') {
+    return (
+      <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+        <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-sm p-6 text-center shadow-2xl">
+          <h2 className="text-xl font-bold">Cancel the emergency?</h2>
+          <p className="text-slate-400 mt-2 text-sm">
+            Contacts will be told this was a false alarm. The alert stays active in {secondsLeft}s unless you confirm.
+          </p>
+          <div className="flex gap-3 mt-6">
+            <button onClick={onAbortCancel} className="flex-1 py-3 bg-red-600 hover:bg-red-500 rounded-xl font-bold">
+              Keep Alert
+            </button>
+            <button onClick={onConfirmCancel} className="flex-1 py-3 bg-slate-700 hover:bg-slate-600 rounded-xl font-bold">
+              Yes, I'm Safe
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 p-4">
+      <div className="max-w-md mx-auto bg-red-600 rounded-2xl p-4 shadow-2xl shadow-red-900/50 flex items-center justify-between gap-3">
+        <div>
+          <div className="text-xs uppercase tracking-widest text-red-200 font-bold">Escalation active</div>
+          <div className="font-bold text-white">{STATE_LABELS[snapshot.state]}</div>
+        </div>
+        <button onClick={onRequestCancel} className="px-4 py-2 bg-white/20 hover:bg-white/30 rounded-xl text-sm font-bold">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EscalationPrompt;
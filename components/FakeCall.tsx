@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FakeCallConfig, speakCallerLines, startRingtone } from '../services/fakeCall';
+
+interface FakeCallProps {
+  config: FakeCallConfig;
+  onAnswer: () => void;
+  onDecline: () => void;
+  onEnd: (durationSec: number) => void;
+}
+
+const formatDuration = (sec: number) => `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, '0')}`;
+
+/**
+ * Full-screen incoming call. Rendered as an overlay so the sensors and the
+ * analysis loop keep running underneath while the call is "active".
+ */
+const FakeCall: React.FC<FakeCallProps> = ({ config, onAnswer, onDecline, onEnd }) => {
+  const [answeredAt, setAnsweredAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const stopVoiceRef = useRef<(() => void) | null>(null);
+  const recordedRef = useRef<HTMLAudioElement | null>(null);
+
+  // Ring until answered or declined
+  useEffect(() => {
+    if (answeredAt !== null) return;
+    return startRingtone();
+  }, [answeredAt]);
+
+  useEffect(() => {
+    if (answeredAt === null) return;
+    const id = window.setInterval(() => setElapsed(Math.floor((Date.now() - answeredAt) / 1000)), 500);
+    return () => clearInterval(id);
+  }, [answeredAt]);
+
+  useEffect(() => () => {
+    stopVoiceRef.current?.();
+    recordedRef.current?.pause();
+  }, []);
+
+  const answer = () => {
+    setAnsweredAt(Date.now());
+    if (config.voice === 'synth') {
+      stopVoiceRef.current = speakCallerLines(config.lines);
+    } else if (config.voice === 'recorded' && config.recordedClip) {
+      recordedRef.current = new Audio(config.recordedClip);
+      recordedRef.current.play().catch(err => console.error("Fake call playback error:", err));
+    }
+    onAnswer();
+  };
+
+  const hangUp = () => {
+    stopVoiceRef.current?.();
+    recordedRef.current?.pause();
+    onEnd(elapsed);
+  };
+
+  const initials = config.callerName.split(/\s+/).map(p => p[0]).join('').slice(0, 2).toUpperCase();
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-gradient-to-b from-slate-800 to-black flex flex-col items-center justify-between py-16 text-white">
+      <div className="flex flex-col items-center gap-3 mt-8">
+        <div className="w-24 h-24 rounded-full bg-slate-600 flex items-center justify-center text-3xl font-semibold">
+          {initials || '?'}
+        </div>
+        <div className="text-3xl font-light">{config.callerName}</div>
+        <div className="text-slate-400">
+          {answeredAt === null ? `incoming call · ${config.callerLabel}` : formatDuration(elapsed)}
+        </div>
+      </div>
+
+      {answeredAt === null ? (
+        <div className="flex w-full justify-around px-12">
+          <button onClick={onDecline} className="flex flex-col items-center gap-2">
+            <span className="w-16 h-16 rounded-full bg-red-600 flex items-center justify-center text-2xl rotate-[135deg]">✆</span>
+            <span className="text-sm text-slate-300">Decline</span>
+          </button>
+          <button onClick={answer} className="flex flex-col items-center gap-2">
+            <span className="w-16 h-16 rounded-full bg-emerald-500 flex items-center justify-center text-2xl animate-bounce">✆</span>
+            <span className="text-sm text-slate-300">Accept</span>
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-10">
+          <div className="grid grid-cols-3 gap-6 text-slate-300 text-xs">
+            {['mute', 'keypad', 'speaker', 'add call', 'FaceTime', 'contacts'].map(label => (
+              <div key={label} className="flex flex-col items-center gap-1">
+                <span className="w-14 h-14 rounded-full bg-slate-700/70" />
+                {label}
+              </div>
+            ))}
+          </div>
+          <button onClick={hangUp} className="w-16 h-16 rounded-full bg-red-600 flex items-center justify-center text-2xl rotate-[135deg]">
+            ✆
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FakeCall;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { FakeCallConfig } from '../services/fakeCall';
+
+interface FakeCallSetupProps {
+  config: FakeCallConfig;
+  scheduledAt: number | null;
+  onSave: (config: FakeCallConfig) => void;
+  onSchedule: (delaySec: number) => void;
+  onCancelScheduled: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500";
+const DELAYS = [0, 10, 30, 60, 120];
+
+const FakeCallSetup: React.FC<FakeCallSetupProps> = ({ config, scheduledAt, onSave, onSchedule, onCancelScheduled, onClose }) => {
+  const [draft, setDraft] = useState(config);
+  const [linesText, setLinesText] = useState(config.lines.join('\n'));
+
+  const commit = () => {
+    const next = { ...draft, lines: linesText.split('\n').map(l => l.trim()).filter(Boolean) };
+    onSave(next);
+    return next;
+  };
+
+  const handleClip = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => setDraft(prev => ({ ...prev, recordedClip: reader.result as string, voice: 'recorded' }));
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">Fake Call</h2>
+          <button onClick={() => { commit(); onClose(); }} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4 text-sm">
+          <div className="flex gap-2">
+            <input className={inputClass} placeholder="Caller name" value={draft.callerName} onChange={e => setDraft({ ...draft, callerName: e.target.value })} />
+            <input className={`${inputClass} w-28`} placeholder="mobile" value={draft.callerLabel} onChange={e => setDraft({ ...draft, callerLabel: e.target.value })} />
+          </div>
+
+          <div className="flex gap-2">
+            {(['synth', 'recorded', 'none'] as const).map(voice => (
+              <button
+                key={voice}
+                onClick={() => setDraft({ ...draft, voice })}
+                className={`flex-1 py-2 rounded-lg border text-xs ${draft.voice === voice ? 'bg-indigo-600 border-indigo-500' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+              >
+                {voice === 'synth' ? 'Synthesized voice' : voice === 'recorded' ? 'Recording' : 'Silent'}
+              </button>
+            ))}
+          </div>
+
+          {draft.voice === 'synth' && (
+            <textarea
+              className={`${inputClass} h-28 resize-none`}
+              placeholder="One line per sentence the caller says"
+              value={linesText}
+              onChange={e => setLinesText(e.target.value)}
+            />
+          )}
+          {draft.voice === 'recorded' && (
+            <div className="space-y-1">
+              <input type="file" accept="audio/*" onChange={e => handleClip(e.target.files?.[0])} className="text-xs text-slate-400" />
+              {draft.recordedClip && <p className="text-xs text-emerald-400">Recording loaded</p>}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-slate-300">
+            <input type="checkbox" checked={draft.autoOnSuspicious} onChange={e => setDraft({ ...draft, autoOnSuspicious: e.target.checked })} />
+            Ring automatically when risk becomes Suspicious
+          </label>
+
+          <div>
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-2">Call me in</h3>
+            <div className="grid grid-cols-5 gap-2">
+              {DELAYS.map(delay => (
+                <button
+                  key={delay}
+                  onClick={() => { commit(); onSchedule(delay); }}
+                  className="py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs"
+                >
+                  {delay === 0 ? 'Now' : delay < 60 ? `${delay}s` : `${delay / 60}m`}
+                </button>
+              ))}
+            </div>
+            {scheduledAt && (
+              <div className="flex justify-between items-center mt-3 text-xs text-amber-400">
+                <span>Call scheduled for {new Date(scheduledAt).toLocaleTimeString()}</span>
+                <button onClick={onCancelScheduled} className="underline">Cancel</button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FakeCallSetup;
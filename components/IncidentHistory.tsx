@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { ChainVerification, IncidentLog, MonitoringSession, RiskLevel } from '../types';
+import { deleteSession, getSessionIncidents, listSessions } from '../services/incidentStore';
+import { listEvidence, redactSessionEvidence, verifyEvidenceChain } from '../services/evidenceVault';
+
+interface IncidentHistoryProps {
+  activeSessionId: string | null;
+  onGenerateReport: (sessionId: string) => void;
+  onExportEvidence: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const LEVELS = [RiskLevel.SAFE, RiskLevel.UNCERTAIN, RiskLevel.SUSPICIOUS, RiskLevel.DANGEROUS, RiskLevel.CRITICAL];
+
+export const levelTextClass = (level: RiskLevel) => {
+  switch (level) {
+    case RiskLevel.SAFE: return 'text-emerald-400';
+    case RiskLevel.UNCERTAIN: return 'text-slate-400';
+    case RiskLevel.SUSPICIOUS: return 'text-amber-400';
+    case RiskLevel.DANGEROUS: return 'text-orange-500';
+    case RiskLevel.CRITICAL: return 'text-red-500';
+    default: return 'text-slate-400';
+  }
+};
+
+const IncidentHistory: React.FC<IncidentHistoryProps> = ({ activeSessionId, onGenerateReport, onExportEvidence, onClose }) => {
+  const [sessions, setSessions] = useState<MonitoringSession[]>([]);
+  const [levelFilter, setLevelFilter] = useState<RiskLevel[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [incidents, setIncidents] = useState<IncidentLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [evidenceCount, setEvidenceCount] = useState(0);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+
+  const refresh = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.error("History load error:", err))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(refresh, []);
+
+  useEffect(() => {
+    if (!expanded) return;
+    getSessionIncidents(expanded, levelFilter).then(setIncidents);
+    listEvidence(expanded).then(records => setEvidenceCount(records.filter(r => !r.redacted).length));
+  }, [expanded, levelFilter]);
+
+  const handleVerify = async () => {
+    setVerification(null);
+    setVerification(await verifyEvidenceChain());
+  };
+
+  const toggleLevel = (level: RiskLevel) => {
+    setLevelFilter(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+  };
+
+  const handleDelete = async (sessionId: string) => {
+    if (!confirm("Delete this session and all of its records?")) return;
+    await deleteSession(sessionId);
+    await redactSessionEvidence(sessionId);
+    if (expanded === sessionId) setExpanded(null);
+    refresh();
+  };
+
+  // Sessions that reached at least one of the selected levels (all when no filter is set)
+  const visible = sessions.filter(s => levelFilter.length === 0 || levelFilter.some(l => LEVELS.indexOf(l) <= LEVELS.indexOf(s.peakRiskLevel)));
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">Incident History</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="px-4 pt-3 flex items-center justify-between text-xs">
+          <button onClick={handleVerify} className="text-indigo-400 underline">Verify evidence vault</button>
+          {verification && (
+            <span className={verification.ok ? 'text-emerald-400' : 'text-red-400'}>
+              {verification.ok
+                ? `Chain intact (${verification.checked} records)`
+                : `Tampering detected at #${verification.brokenAt}: ${verification.problem}`}
+            </span>
+          )}
+        </div>
+
+        <div className="px-4 pt-3 flex flex-wrap gap-2">
+          {LEVELS.map(level => (
+            <button
+              key={level}
+              onClick={() => toggleLevel(level)}
+              className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+                levelFilter.includes(level) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-3 text-sm">
+          {loading && <p className="text-slate-500">Loading history...</p>}
+          {!loading && visible.length === 0 && <p className="text-slate-500">No recorded sessions.</p>}
+          {visible.map(session => (
+            <div key={session.id} className="bg-slate-800/50 rounded-xl border border-slate-800">
+              <button
+                onClick={() => setExpanded(expanded === session.id ? null : session.id)}
+                className="w-full p-3 flex justify-between items-center text-left"
+              >
+                <div>
+                  <div className="text-slate-200">
+                    {new Date(session.startedAt).toLocaleString()}
+                    {session.id === activeSessionId && <span className="ml-2 text-xs text-emerald-400">LIVE</span>}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {session.incidentCount} records · {session.endedAt ? `ended ${new Date(session.endedAt).toLocaleTimeString()}` : 'open'}
+                  </div>
+                  {session.trip && (
+                    <div className={`text-xs ${session.trip.alarms.length > 0 ? 'text-amber-400' : 'text-indigo-300'}`}>
+                      Trip to {session.trip.destinationName}: {session.trip.outcome === 'arrived' ? 'arrived' : 'ended early'} after {Math.round(session.trip.durationMs / 60000)} min
+                      {session.trip.alarms.length > 0 && ` · ${session.trip.alarms.length} alarm${session.trip.alarms.length > 1 ? 's' : ''}`}
+                    </div>
+                  )}
+                  {session.ride && (
+                    <div className="text-xs text-slate-400">
+                      Ride: <span className="font-mono">{session.ride.plate || 'plate unknown'}</span>{session.ride.vehicle && ` · ${session.ride.vehicle}`}
+                    </div>
+                  )}
+                </div>
+                <span className={`text-xs font-bold ${levelTextClass(session.peakRiskLevel)}`}>
+                  {session.peakRiskLevel} · {session.peakScore}%
+                </span>
+              </button>
+
+              {expanded === session.id && (
+                <div className="px-3 pb-3 space-y-2">
+                  <ul className="space-y-1 max-h-64 overflow-y-auto font-mono text-xs">
+                    {incidents.length === 0 && <li className="text-slate-500">No records match the filter.</li>}
+                    {incidents.map(incident => (
+                      <li key={incident.id} className="text-slate-300">
+                        <span className="text-slate-500">{new Date(incident.timestamp).toLocaleTimeString()} </span>
+                        <span className={levelTextClass(incident.riskLevel)}>{incident.kind === 'assessment' ? incident.riskLevel : 'EVENT'} </span>
+                        {incident.description}
+                        {incident.actionsTaken.length > 0 && <span className="text-indigo-400"> → {incident.actionsTaken.join(', ')}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => onExportEvidence(session.id)}
+                      disabled={evidenceCount === 0}
+                      className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs font-medium disabled:opacity-40"
+                    >
+                      Evidence ({evidenceCount})
+                    </button>
+                    <button
+                      onClick={() => onGenerateReport(session.id)}
+                      className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-xs font-medium"
+                    >
+                      Create Report
+                    </button>
+                    <button
+                      onClick={() => handleDelete(session.id)}
+                      disabled={session.id === activeSessionId}
+                      className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs font-medium text-rose-400 disabled:opacity-40"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentHistory;
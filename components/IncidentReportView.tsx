@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { IncidentReport } from '../types';
+import { levelTextClass } from './IncidentHistory';
+import { downloadBlob } from '../services/evidenceVault';
+import { printReport, reportToHtml, reportToJson, reportToText } from '../services/reportExport';
+import { formatVehicleInfo } from '../services/ride';
+
+interface IncidentReportViewProps {
+  report: IncidentReport;
+  onExportEvidence?: () => void; // omitted for reports without stored evidence, e.g. replays
+}
+
+const time = (iso: string) => new Date(iso).toLocaleTimeString();
+
+const IncidentReportView: React.FC<IncidentReportViewProps> = ({ report, onExportEvidence }) => {
+  const [copied, setCopied] = useState(false);
+  const baseName = `sheshield-report-${report.sessionId.slice(0, 8)}`;
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(reportToText(report));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Clipboard error:", err);
+    }
+  };
+
+  const { narrative, evidence } = report;
+
+  return (
+    <>
+      <div className="p-6 overflow-y-auto text-sm text-slate-300 space-y-5">
+        <div>
+          <div className="text-xs text-slate-500">{new Date(report.session.startedAt).toLocaleString()}</div>
+          <div className="mt-1">
+            Peak risk <span className={`font-bold ${levelTextClass(report.peakRiskLevel)}`}>{report.peakRiskLevel}</span> (score {report.peakScore})
+            {report.incidentAt && <span className="text-slate-500"> · first at {time(report.incidentAt)}</span>}
+          </div>
+        </div>
+
+        {report.ride && (
+          <section>
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Vehicle</h3>
+            <p className="font-mono text-slate-100">
+              {report.ride.plate || 'Plate unknown'}
+              {!report.ride.plateConfirmed && <span className="font-sans text-xs text-amber-400"> (not confirmed)</span>}
+            </p>
+            <p className="text-slate-400">{formatVehicleInfo(report.ride)} · from {time(report.ride.startedAt)}</p>
+          </section>
+        )}
+
+        <section>
+          <h3 className="text-indigo-400 text-xs font-bold uppercase tracking-wider mb-1">AI Analysis Summary</h3>
+          {narrative ? (
+            <>
+              <p>{narrative.summary}</p>
+              {narrative.locationSummary && <p className="mt-1 text-slate-400">{narrative.locationSummary}</p>}
+              {narrative.nextSteps.length > 0 && (
+                <ul className="mt-2 list-disc list-inside text-slate-400">
+                  {narrative.nextSteps.map((s, i) => <li key={i}>{s}</li>)}
+                </ul>
+              )}
+            </>
+          ) : (
+            <p className="text-amber-400 text-xs">Narrative unavailable: the AI service could not be reached. All recorded facts are below.</p>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Detected Threats</h3>
+          {report.threats.length === 0 ? <p className="text-slate-500">None</p> : (
+            <ul className="space-y-0.5">
+              {report.threats.map(t => (
+                <li key={t.name} className="flex justify-between">
+                  <span>{t.name.replace(/_/g, ' ')}</span>
+                  <span className="text-slate-500">×{t.count} · {time(t.firstSeen)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Evidence</h3>
+          <p>{evidence.audioCount} audio clips · {evidence.imageCount} images{evidence.redactedCount > 0 && ` · ${evidence.redactedCount} redacted`}</p>
+          <p className={`text-xs mt-1 ${evidence.chain.ok ? 'text-emerald-400' : 'text-red-400'}`}>
+            {evidence.chain.ok ? `Hash chain verified (${evidence.chain.checked} records)` : `Hash chain broken at #${evidence.chain.brokenAt}: ${evidence.chain.problem}`}
+          </p>
+        </section>
+
+        <section>
+          <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Actions Taken</h3>
+          {report.actionsTaken.length === 0 ? <p className="text-slate-500">None</p> : (
+            <p>{report.actionsTaken.map(a => `${a.action.replace(/_/g, ' ')} ×${a.count}`).join(' · ')}</p>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Timeline ({report.timeline.length})</h3>
+          <ul className="space-y-1 font-mono text-xs">
+            {report.timeline.map((t, i) => (
+              <li key={i}>
+                <span className="text-slate-500">{time(t.timestamp)}</span>{' '}
+                {t.kind === 'assessment'
+                  ? <span className={levelTextClass(t.riskLevel)}>{t.riskLevel}{t.score !== undefined && `/${t.score}`}</span>
+                  : <span className="text-indigo-400">EVENT</span>}{' '}
+                {t.description}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-slate-500 mt-2">{report.gpsTrace.length} GPS fixes in trace</p>
+        </section>
+      </div>
+      <div className="p-4 border-t border-slate-800 bg-slate-900/50 rounded-b-2xl space-y-3">
+        <div className="grid grid-cols-4 gap-2">
+          <button onClick={copy} className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-medium">
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([reportToJson(report)], { type: 'application/json' }), `${baseName}.json`)}
+            className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-medium"
+          >
+            JSON
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([reportToHtml(report)], { type: 'text/html' }), `${baseName}.html`)}
+            className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-medium"
+          >
+            HTML
+          </button>
+          <button onClick={() => printReport(report)} className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-medium">
+            Print
+          </button>
+        </div>
+        {onExportEvidence && (
+          <button
+            onClick={onExportEvidence}
+            className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-sm font-medium"
+          >
+            Export Evidence Bundle (.zip)
+          </button>
+        )}
+        <p className="text-xs text-slate-500 text-center">Facts recorded on-device · narrative by Gemini 3 Pro (Thinking Mode)</p>
+      </div>
+    </>
+  );
+};
+
+export default IncidentReportView;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { CONSENT_PRESETS, FilteredFrame, detectionSupport } from '../services/privacyFilter';
+import { PrivacySettings, SensorConsent } from '../types';
+
+interface PrivacySettingsPanelProps {
+  settings: PrivacySettings;
+  lastFilter: FilteredFrame | null;
+  onChange: (settings: PrivacySettings) => void;
+  onClose: () => void;
+}
+
+const SENSORS: { key: keyof SensorConsent; label: string; detail: string }[] = [
+  { key: 'vision', label: 'Camera', detail: 'Filtered frames for scene analysis' },
+  { key: 'audio', label: 'Microphone', detail: 'Short audio clips for distress detection, and listening for your codewords' },
+  { key: 'context', label: 'Context', detail: 'Location, movement and route status, and the nearby safe haven search' },
+];
+
+const WIDTHS = [320, 480, 640, 960];
+const CROPS = [1, 0.8, 0.6];
+
+const sameConsent = (a: SensorConsent, b: SensorConsent) => a.vision === b.vision && a.audio === b.audio && a.context === b.context;
+
+const PrivacySettingsPanel: React.FC<PrivacySettingsPanelProps> = ({ settings, lastFilter, onChange, onClose }) => {
+  const support = detectionSupport();
+  const set = (patch: Partial<PrivacySettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">Privacy</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-5 text-sm">
+          <div>
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-2">Sent for cloud analysis</h3>
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              {CONSENT_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => set({ consent: preset.consent })}
+                  className={`py-2 rounded-lg border text-xs ${sameConsent(preset.consent, settings.consent) ? 'bg-indigo-600 border-indigo-500' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            {SENSORS.map(sensor => (
+              <label key={sensor.key} className="flex items-start gap-2 py-1 text-slate-300">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={settings.consent[sensor.key]}
+                  onChange={e => set({ consent: { ...settings.consent, [sensor.key]: e.target.checked } })}
+                />
+                <span>
+                  {sensor.label}
+                  <span className="block text-xs text-slate-500">{sensor.detail}</span>
+                </span>
+              </label>
+            ))}
+            <p className="text-xs text-slate-500 mt-2">
+              Unshared sensors are still analysed on this device, and evidence is still kept locally.
+            </p>
+          </div>
+
+          <div className={settings.consent.vision ? '' : 'opacity-50 pointer-events-none'}>
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-2">Before a frame leaves the device</h3>
+            <label className="flex items-center gap-2 py-1 text-slate-300">
+              <input type="checkbox" checked={settings.blurFaces} onChange={e => set({ blurFaces: e.target.checked })} />
+              Blur faces {!support.faces && <span className="text-xs text-amber-400">(not supported here: frames are shrunk instead)</span>}
+            </label>
+            <label className="flex items-center gap-2 py-1 text-slate-300">
+              <input type="checkbox" checked={settings.blurPlates} onChange={e => set({ blurPlates: e.target.checked })} />
+              Blur licence plates and text {!support.plates && <span className="text-xs text-amber-400">(not supported here: frames are shrunk instead)</span>}
+            </label>
+
+            <div className="flex items-center justify-between mt-3">
+              <span className="text-slate-400 text-xs">Max width</span>
+              <div className="flex gap-1">
+                {WIDTHS.map(width => (
+                  <button
+                    key={width}
+                    onClick={() => set({ maxWidth: width })}
+                    className={`px-2 py-1 rounded text-xs ${settings.maxWidth === width ? 'bg-indigo-600' : 'bg-slate-800 text-slate-400'}`}
+                  >
+                    {width}px
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-slate-400 text-xs">Crop to centre</span>
+              <div className="flex gap-1">
+                {CROPS.map(crop => (
+                  <button
+                    key={crop}
+                    onClick={() => set({ cropFraction: crop })}
+                    className={`px-2 py-1 rounded text-xs ${settings.cropFraction === crop ? 'bg-indigo-600' : 'bg-slate-800 text-slate-400'}`}
+                  >
+                    {crop === 1 ? 'Off' : `${Math.round(crop * 100)}%`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {lastFilter && (
+              <p className="text-xs text-slate-500 mt-3">
+                Last frame sent: {lastFilter.width}×{lastFilter.height}, {lastFilter.regionsObscured} region(s) blurred
+                {lastFilter.fallback ? ', shrunk because detection was unavailable' : ''}.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrivacySettingsPanel;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { FeatureToggles, LANGUAGES, SENSITIVITY_PRESETS, SensitivityPreset, UserProfile } from '../services/profile';
+import { RiskLevel } from '../types';
+
+interface ProfileSettingsPanelProps {
+  profile: UserProfile;
+  onChange: (profile: UserProfile) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500";
+
+const FEATURES: { key: keyof FeatureToggles; label: string; detail: string }[] = [
+  { key: 'audioDistressTrigger', label: 'Instant check on screams', detail: 'A scream or impact heard on this device runs an assessment right away' },
+  { key: 'safePlaces', label: 'Nearby safe places', detail: 'Searches for police, hospitals and open stores as you move' },
+  { key: 'liveShareInAlerts', label: 'Live location in alerts', detail: 'Alerts link to a live map instead of a single pin' },
+  { key: 'medicalNotesInAlerts', label: 'Medical notes in alerts', detail: 'Contacts see your notes; reports always include them' },
+];
+
+const seconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+
+const ProfileSettingsPanel: React.FC<ProfileSettingsPanelProps> = ({ profile, onChange, onClose }) => {
+  const set = (patch: Partial<UserProfile>) => onChange({ ...profile, ...patch });
+  const preset = SENSITIVITY_PRESETS[profile.sensitivity];
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">Settings</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-5 text-sm">
+          <div className="space-y-2">
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Profile</h3>
+            <input className={inputClass} placeholder="Your name, as contacts know you" value={profile.name} onChange={e => set({ name: e.target.value })} />
+            <textarea
+              className={`${inputClass} h-20 resize-none`}
+              placeholder="Medical notes for responders (allergies, conditions, medication)"
+              value={profile.medicalNotes}
+              onChange={e => set({ medicalNotes: e.target.value })}
+            />
+            <select className={inputClass} value={profile.language} onChange={e => set({ language: e.target.value })}>
+              {LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500">Alerts, reports and risk explanations are written in this language.</p>
+          </div>
+
+          <div>
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-2">Sensitivity</h3>
+            <div className="grid grid-cols-3 gap-2 mb-2">
+              {(Object.keys(SENSITIVITY_PRESETS) as SensitivityPreset[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => set({ sensitivity: id })}
+                  className={`py-2 rounded-lg border text-xs ${profile.sensitivity === id ? 'bg-indigo-600 border-indigo-500' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                >
+                  {SENSITIVITY_PRESETS[id].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400">{preset.description}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              Asks from score {preset.thresholds.askScore}, alerts contacts above {preset.thresholds.notifyScore},
+              emergency mode above {preset.thresholds.emergencyScore}. Checks every {seconds(preset.cadence[RiskLevel.SAFE])} when safe,
+              {' '}{seconds(preset.cadence[RiskLevel.SUSPICIOUS])} when suspicious. Keeps the last {seconds(preset.preRollMs)} of audio for evidence;
+              a longer history fills up as protection keeps running.
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-2">Features</h3>
+            {FEATURES.map(feature => (
+              <label key={feature.key} className="flex items-start gap-2 py-1 text-slate-300">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={profile.features[feature.key]}
+                  onChange={e => set({ features: { ...profile.features, [feature.key]: e.target.checked } })}
+                />
+                <span>
+                  {feature.label}
+                  <span className="block text-xs text-slate-500">{feature.detail}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSettingsPanel;
@@ -1,15 +1,16 @@
 import React from 'react';
-import { RiskLevel, AudioAnalysisDetails, ContextAnalysis } from '../types';
+import { RiskLevel, AudioAnalysisDetails, ContextAnalysis, RiskTrend } from '../types';
 
 interface RiskIndicatorProps {
   level: RiskLevel;
   score: number;
+  trend?: RiskTrend;
   reason: string;
   audioAnalysis?: AudioAnalysisDetails;
   contextAnalysis?: ContextAnalysis;
 }
 
-const RiskIndicator: React.FC<RiskIndicatorProps> = ({ level, score, reason, audioAnalysis, contextAnalysis }) => {
+const RiskIndicator: React.FC<RiskIndicatorProps> = ({ level, score, trend, reason, audioAnalysis, contextAnalysis }) => {
   const getColor = () => {
     switch (level) {
       case RiskLevel.SAFE: return 'bg-emerald-500 shadow-emerald-500/50';
@@ -32,6 +33,15 @@ const RiskIndicator: React.FC<RiskIndicatorProps> = ({ level, score, reason, aud
     }
   };
 
+  const getTrendLabel = () => {
+    switch (trend) {
+      case 'rising': return '▲ rising';
+      case 'falling': return '▼ falling';
+      case 'stable': return '● stable';
+      default: return null;
+    }
+  };
+
   const getRiskColor = (risk: string) => {
       switch(risk?.toLowerCase()) {
           case 'high': return 'text-red-400';
@@ -49,6 +59,9 @@ const RiskIndicator: React.FC<RiskIndicatorProps> = ({ level, score, reason, aud
       <div className={`relative z-10 w-48 h-48 rounded-full flex flex-col items-center justify-center text-center p-4 transition-all duration-500 ${getColor()} shadow-2xl border-4 border-slate-900/20`}>
         <span className="text-3xl font-bold tracking-wider">{score}%</span>
         <span className="text-sm font-semibold uppercase mt-1">{getLabel()}</span>
+        {getTrendLabel() && (
+          <span className="text-xs font-medium mt-1 opacity-80">{getTrendLabel()}</span>
+        )}
       </div>
 
       <div className="mt-6 w-full space-y-3">
@@ -0,0 +1,69 @@
+import React from 'react';
+import { GuidanceState } from '../services/guidance';
+import { CATEGORY_LABEL, compassPoint, formatDistance } from '../services/safePlaces';
+
+interface SafeWalkProps {
+  state: GuidanceState;
+  voice: boolean;
+  onToggleVoice: () => void;
+  onStop: () => void;
+}
+
+/**
+ * In-app "Go to safety" card. Rendered inside the main view so the risk
+ * indicator and the sensors stay live while the user walks.
+ */
+const SafeWalk: React.FC<SafeWalkProps> = ({ state, voice, onToggleVoice, onStop }) => {
+  const { target } = state;
+  // Relative to the walking direction when known, else north-up
+  const arrowDeg = state.relativeDeg ?? state.bearingDeg ?? 0;
+
+  return (
+    <div className={`rounded-xl border p-4 ${state.arrived ? 'bg-emerald-950/60 border-emerald-600' : 'bg-indigo-950/60 border-indigo-500'}`}>
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-indigo-300 text-xs font-bold uppercase tracking-wider">Going to safety</h3>
+          <div className="font-semibold text-slate-100 mt-1">{target.name}</div>
+          <div className="text-xs text-slate-400">{CATEGORY_LABEL[target.category]}{target.address && ` · ${target.address}`}</div>
+        </div>
+        <button onClick={onToggleVoice} className="text-xs px-2 py-1 bg-slate-800 rounded-full border border-slate-700">
+          Voice {voice ? 'on' : 'off'}
+        </button>
+      </div>
+
+      {state.arrived ? (
+        <p className="mt-4 text-emerald-300 font-semibold text-center">{state.instruction}. Your contacts have been told.</p>
+      ) : (
+        <div className="mt-4 flex items-center gap-4">
+          <div className="w-20 h-20 rounded-full bg-slate-900 border border-slate-700 flex items-center justify-center shrink-0">
+            {state.bearingDeg !== null ? (
+              <svg
+                className="w-12 h-12 text-indigo-400 transition-transform duration-500"
+                style={{ transform: `rotate(${arrowDeg}deg)` }}
+                viewBox="0 0 24 24"
+                fill="currentColor"
+              >
+                <path d="M12 2l7 18-7-4-7 4 7-18z" />
+              </svg>
+            ) : (
+              <span className="text-xs text-slate-500">GPS…</span>
+            )}
+          </div>
+          <div>
+            <div className="text-3xl font-bold text-white">{state.distanceM !== null ? formatDistance(state.distanceM) : '—'}</div>
+            <div className="text-sm text-slate-300">{state.instruction}</div>
+            {state.relativeDeg === null && state.bearingDeg !== null && (
+              <div className="text-xs text-slate-500">Heading {compassPoint(state.bearingDeg)} (arrow points north-up until you start walking)</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <button onClick={onStop} className="mt-4 w-full py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm">
+        {state.arrived ? 'Done' : 'Stop guidance'}
+      </button>
+    </div>
+  );
+};
+
+export default SafeWalk;
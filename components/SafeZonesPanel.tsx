@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { SafeZones, ZoneStatus } from '../types';
+import { parseWaypoints } from '../services/safeZones';
+import { createId } from '../services/storage';
+
+interface SafeZonesPanelProps {
+  zones: SafeZones;
+  status: ZoneStatus | null;
+  location: { lat: number, lng: number } | null;
+  isRecording: boolean;
+  onChange: (zones: SafeZones) => void;
+  onStartRecording: () => void;
+  onStopRecording: (name: string, corridorM: number) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500";
+
+const SafeZonesPanel: React.FC<SafeZonesPanelProps> = ({
+  zones, status, location, isRecording, onChange, onStartRecording, onStopRecording, onClose
+}) => {
+  const [placeName, setPlaceName] = useState("");
+  const [placeRadius, setPlaceRadius] = useState(150);
+  const [routeName, setRouteName] = useState("");
+  const [corridor, setCorridor] = useState(75);
+  const [waypointText, setWaypointText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const addGeofenceHere = () => {
+    if (!location || !placeName.trim()) {
+      setError(location ? "Give the place a name" : "Waiting for GPS fix");
+      return;
+    }
+    onChange({
+      ...zones,
+      geofences: [...zones.geofences, { id: createId(), name: placeName.trim(), lat: location.lat, lng: location.lng, radiusM: placeRadius }]
+    });
+    setPlaceName("");
+    setError(null);
+  };
+
+  const addDrawnRoute = () => {
+    const waypoints = parseWaypoints(waypointText);
+    if (!waypoints || !routeName.trim()) {
+      setError("Enter a route name and at least two 'lat,lng' waypoints");
+      return;
+    }
+    onChange({
+      ...zones,
+      routes: [...zones.routes, { id: createId(), name: routeName.trim(), waypoints, corridorM: corridor, source: 'drawn' }]
+    });
+    setRouteName("");
+    setWaypointText("");
+    setError(null);
+  };
+
+  const toggleRecording = () => {
+    if (!isRecording) {
+      onStartRecording();
+      return;
+    }
+    if (!routeName.trim()) {
+      setError("Name the route before you stop recording");
+      return;
+    }
+    onStopRecording(routeName.trim(), corridor);
+    setRouteName("");
+    setError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">Safe Places & Routes</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-5 text-sm">
+          <div className="px-3 py-2 rounded-lg bg-slate-800/60 text-slate-300">
+            {status ? status.summary : "No safe places or routes defined yet"}
+          </div>
+
+          {/* Geofences */}
+          <section className="space-y-2">
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Places</h3>
+            {zones.geofences.map(fence => (
+              <div key={fence.id} className="flex justify-between items-center">
+                <span className="text-slate-200">{fence.name} <span className="text-slate-500 text-xs">({fence.radiusM}m)</span></span>
+                <button
+                  onClick={() => onChange({ ...zones, geofences: zones.geofences.filter(f => f.id !== fence.id) })}
+                  className="text-xs text-rose-400 hover:text-rose-300"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input className={inputClass} placeholder="Name (e.g. Home)" value={placeName} onChange={e => setPlaceName(e.target.value)} />
+              <input className={`${inputClass} w-24`} type="number" min={25} value={placeRadius} onChange={e => setPlaceRadius(Number(e.target.value))} />
+            </div>
+            <button onClick={addGeofenceHere} className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg font-medium">
+              Add current location
+            </button>
+          </section>
+
+          {/* Routes */}
+          <section className="space-y-2">
+            <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Routes</h3>
+            {zones.routes.map(route => (
+              <div key={route.id} className="flex justify-between items-center">
+                <span className="text-slate-200">
+                  {route.name} <span className="text-slate-500 text-xs">({route.waypoints.length} pts, ±{route.corridorM}m, {route.source})</span>
+                </span>
+                <button
+                  onClick={() => onChange({ ...zones, routes: zones.routes.filter(r => r.id !== route.id) })}
+                  className="text-xs text-rose-400 hover:text-rose-300"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input className={inputClass} placeholder="Route name (e.g. Work commute)" value={routeName} onChange={e => setRouteName(e.target.value)} />
+              <input className={`${inputClass} w-24`} type="number" min={20} value={corridor} onChange={e => setCorridor(Number(e.target.value))} />
+            </div>
+            <button
+              onClick={toggleRecording}
+              className={`w-full py-2 rounded-lg font-medium ${isRecording ? 'bg-rose-600 hover:bg-rose-500 animate-pulse' : 'bg-slate-800 hover:bg-slate-700 border border-slate-700'}`}
+            >
+              {isRecording ? "Stop & save recorded walk" : "Record route while walking"}
+            </button>
+            <textarea
+              className={`${inputClass} h-20 resize-none font-mono`}
+              placeholder={"Or draw waypoints, one 'lat,lng' per line"}
+              value={waypointText}
+              onChange={e => setWaypointText(e.target.value)}
+            />
+            <button onClick={addDrawnRoute} className="w-full py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg font-medium">
+              Save drawn route
+            </button>
+          </section>
+
+          {error && <p className="text-rose-400 text-xs">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SafeZonesPanel;
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { SchedulerState } from '../services/analysisScheduler';
+
+interface SchedulerDebugProps {
+  state: SchedulerState;
+}
+
+const formatMs = (ms: number | null) => (ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`);
+
+const SchedulerDebug: React.FC<SchedulerDebugProps> = ({ state }) => {
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks the "next run" countdown only while the panel is open
+  useEffect(() => {
+    if (!open) return;
+    const id = window.setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(id);
+  }, [open]);
+
+  const nextRun = state.inFlight
+    ? `running (${state.currentReason})`
+    : state.nextRunAt !== null ? `in ${formatMs(Math.max(0, state.nextRunAt - now))}` : '—';
+
+  const rows: [string, string][] = [
+    ['Next run', nextRun],
+    ['Cadence', formatMs(state.intervalMs)],
+    ['Last latency', formatMs(state.lastLatencyMs)],
+    ['Last status', state.lastStatus === null ? 'ok' : String(state.lastStatus)],
+    ['Backoff', state.backoffMs > 0 ? `${formatMs(state.backoffMs)} (${state.consecutiveFailures} failures)` : 'none'],
+    ['Queued', state.queuedTriggers.length > 0 ? state.queuedTriggers.join(', ') : 'none'],
+    ['Runs', String(state.runCount)],
+  ];
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-4">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex justify-between items-center text-slate-400 text-xs font-bold uppercase tracking-wider"
+      >
+        <span>Diagnostics</span>
+        <span>{open ? 'Hide' : 'Show'}</span>
+      </button>
+      {open && (
+        <dl className="mt-3 grid grid-cols-2 gap-y-1 text-xs font-mono">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-slate-500">{label}</dt>
+              <dd className={`text-right ${label === 'Backoff' && state.backoffMs > 0 ? 'text-amber-400' : 'text-slate-300'}`}>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default SchedulerDebug;
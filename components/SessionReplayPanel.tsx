@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { IncidentReport } from '../types';
+import { ReplayResult } from '../services/sessionReplay';
+
+interface SessionReplayPanelProps {
+  recording: { ticks: number; fixes: number; interventions: number } | null; // null when not recording
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onReplay: (file: File) => Promise<ReplayResult>;
+  onOpenReport: (report: IncidentReport) => void;
+}
+
+const time = (ms: number) => new Date(ms).toLocaleTimeString();
+
+const SessionReplayPanel: React.FC<SessionReplayPanelProps> = ({ recording, onStartRecording, onStopRecording, onReplay, onOpenReport }) => {
+  const [open, setOpen] = useState(false);
+  const [result, setResult] = useState<ReplayResult | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const replay = async (file: File | undefined) => {
+    if (!file) return;
+    setResult(null);
+    setStatus(`Replaying ${file.name}...`);
+    try {
+      setResult(await onReplay(file));
+      setStatus(null);
+    } catch (err) {
+      console.error("Replay error:", err);
+      setStatus(err instanceof Error ? err.message : 'Replay failed.');
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-4">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex justify-between items-center text-slate-400 text-xs font-bold uppercase tracking-wider"
+      >
+        <span>Record &amp; Replay {recording && <span className="text-red-400 normal-case">· recording</span>}</span>
+        <span>{open ? 'Hide' : 'Show'}</span>
+      </button>
+      {open && (
+        <div className="mt-3 space-y-3 text-xs">
+          <p className="text-slate-500">
+            A recording keeps raw camera frames, audio and location. It is only downloaded to this device; treat it like evidence.
+          </p>
+          <div className="flex gap-2">
+            {recording ? (
+              <button onClick={onStopRecording} className="flex-1 py-2 bg-red-600 hover:bg-red-500 rounded-lg font-medium">
+                Stop &amp; Download ({recording.ticks} ticks, {recording.fixes} fixes)
+              </button>
+            ) : (
+              <button onClick={onStartRecording} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg font-medium">
+                Start Recording
+              </button>
+            )}
+            <button onClick={() => fileRef.current?.click()} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg font-medium">
+              Replay File…
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => replay(e.target.files?.[0])}
+            />
+          </div>
+
+          {status && <p className="text-slate-400">{status}</p>}
+
+          {result && (
+            <div className="space-y-2 font-mono">
+              {result.warnings.map(w => <p key={w} className="text-amber-400">{w}</p>)}
+              <p className="text-slate-300">
+                {result.ticks.length} ticks · peak {result.peakRiskLevel} · {result.alerts.length} alerts
+              </p>
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {result.transitions.map((t, i) => (
+                  <li key={i} className="text-slate-400">
+                    {time(t.at)} {t.from} → <span className="text-slate-200">{t.to}</span> <span className="text-slate-500">({t.reason})</span>
+                  </li>
+                ))}
+                {result.transitions.length === 0 && <li className="text-slate-500">No escalation</li>}
+              </ul>
+              <ul className="space-y-1">
+                {result.alerts.map((a, i) => (
+                  <li key={i} className={a.kind === 'emergency' ? 'text-red-400' : 'text-green-400'}>
+                    {time(a.at)} {a.kind === 'emergency' ? `alert tier ${a.tier}` : 'false alarm'}: {a.recipients.join(', ') || 'no contacts'}
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => onOpenReport(result.report)}
+                className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg font-sans font-medium"
+              >
+                Open Replayed Report
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionReplayPanel;
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { Geofence, PlateReading, RideDetails, SafePlace } from '../types';
+import { TripDestination } from '../services/tripMonitor';
+import { isPlausiblePlate, normalizePlate, photoToJpegBase64 } from '../services/ride';
+
+export interface TripSetupValues {
+  destination: TripDestination;
+  etaMinutes: number;
+  checkInMinutes: number;
+  maxStopMinutes: number;
+  ride?: Omit<RideDetails, 'startedAt'>; // set in ride mode
+  platePhoto?: string; // JPEG base64, kept in the evidence vault
+}
+
+interface TripSetupProps {
+  geofences: Geofence[];
+  safePlaces: SafePlace[];
+  canReadPlate: boolean; // false when camera frames may not be sent to the cloud
+  onReadPlate: (imageBase64: string) => Promise<PlateReading>;
+  onStart: (values: TripSetupValues) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500";
+const CHECK_IN_OPTIONS = [3, 5, 10, 15];
+
+const TripSetup: React.FC<TripSetupProps> = ({ geofences, safePlaces, canReadPlate, onReadPlate, onStart, onClose }) => {
+  // Destinations: saved places first (home, work…), then located safe havens
+  const destinations: TripDestination[] = [
+    ...geofences.map(g => ({ name: g.name, lat: g.lat, lng: g.lng, radiusM: g.radiusM })),
+    ...safePlaces.filter(p => p.location).map(p => ({ name: p.name, lat: p.location!.lat, lng: p.location!.lng, radiusM: 40 })),
+  ];
+  const [selected, setSelected] = useState(0);
+  const [etaMinutes, setEtaMinutes] = useState(20);
+  const [checkInMinutes, setCheckInMinutes] = useState(5);
+  const [maxStopMinutes, setMaxStopMinutes] = useState(5);
+  const [mode, setMode] = useState<'walk' | 'ride'>('walk');
+  const [ride, setRide] = useState({ plate: '', vehicle: '', driverName: '', service: '' });
+  const [plateConfirmed, setPlateConfirmed] = useState(false);
+  const [platePhoto, setPlatePhoto] = useState<string | null>(null);
+  const [plateStatus, setPlateStatus] = useState<string | null>(null);
+
+  const destination = destinations[selected];
+  const plateOk = mode === 'walk' || (isPlausiblePlate(ride.plate) && plateConfirmed);
+
+  const switchMode = (next: 'walk' | 'ride') => {
+    setMode(next);
+    // Traffic lights and pick-up stops are normal in a car
+    setMaxStopMinutes(next === 'ride' ? 10 : 5);
+  };
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    setPlateConfirmed(false);
+    try {
+      const photo = await photoToJpegBase64(file);
+      setPlatePhoto(photo);
+      if (!canReadPlate) {
+        setPlateStatus('Photo saved. Type the plate: camera sharing is off in Privacy.');
+        return;
+      }
+      setPlateStatus('Reading plate…');
+      const reading = await onReadPlate(photo);
+      setRide(prev => ({
+        ...prev,
+        plate: reading.plate ? normalizePlate(reading.plate) : prev.plate,
+        vehicle: reading.vehicle || prev.vehicle,
+      }));
+      setPlateStatus(reading.plate
+        ? `Read with ${Math.round(reading.confidence * 100)}% confidence. Check it against the car.`
+        : 'Could not read the plate. Type it in.');
+    } catch (err) {
+      console.error("Plate reading error:", err);
+      setPlateStatus('Could not read the plate. Type it in.');
+    }
+  };
+
+  const start = () => {
+    if (!destination || !plateOk) return;
+    onStart({
+      destination,
+      etaMinutes,
+      checkInMinutes,
+      maxStopMinutes,
+      ...(mode === 'ride' && {
+        ride: { ...ride, plate: normalizePlate(ride.plate), plateConfirmed },
+        platePhoto: platePhoto ?? undefined,
+      }),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold">{mode === 'ride' ? 'Ride' : 'Walk Me Home'}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4 text-sm">
+          <div className="flex gap-2">
+            {(['walk', 'ride'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => switchMode(m)}
+                className={`flex-1 py-2 rounded-lg border text-xs ${mode === m ? 'bg-indigo-600 border-indigo-500' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+              >
+                {m === 'walk' ? 'Walking' : 'Taking a cab'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'ride' && (
+            <div className="space-y-2 rounded-lg border border-slate-700 p-3">
+              <label className="text-xs text-slate-400 uppercase tracking-wider">Vehicle</label>
+              <label className="block w-full py-2 text-center bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg cursor-pointer">
+                📷 Photograph the number plate
+                <input type="file" accept="image/*" capture="environment" className="hidden" onChange={e => handlePhoto(e.target.files?.[0])} />
+              </label>
+              {plateStatus && <p className="text-xs text-slate-400">{plateStatus}</p>}
+              <input
+                className={`${inputClass} font-mono uppercase tracking-widest`}
+                placeholder="Number plate"
+                value={ride.plate}
+                onChange={e => { setRide({ ...ride, plate: e.target.value }); setPlateConfirmed(false); }}
+              />
+              <input className={inputClass} placeholder="Colour, make and model" value={ride.vehicle} onChange={e => setRide({ ...ride, vehicle: e.target.value })} />
+              <div className="flex gap-2">
+                <input className={inputClass} placeholder="Driver name" value={ride.driverName} onChange={e => setRide({ ...ride, driverName: e.target.value })} />
+                <input className={inputClass} placeholder="App / taxi firm" value={ride.service} onChange={e => setRide({ ...ride, service: e.target.value })} />
+              </div>
+              <label className="flex items-center gap-2 text-slate-300">
+                <input type="checkbox" disabled={!isPlausiblePlate(ride.plate)} checked={plateConfirmed} onChange={e => setPlateConfirmed(e.target.checked)} />
+                The plate matches the car I am getting into
+              </label>
+            </div>
+          )}
+
+          {destinations.length === 0 ? (
+            <p className="text-slate-400">Add a place (e.g. Home) under Places first, or wait for nearby safe havens to load.</p>
+          ) : (
+            <div>
+              <label className="text-xs text-slate-400 uppercase tracking-wider">Destination</label>
+              <select className={`${inputClass} mt-1`} value={selected} onChange={e => setSelected(Number(e.target.value))}>
+                {destinations.map((d, i) => <option key={i} value={i}>{d.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="text-xs text-slate-400 uppercase tracking-wider">Expected arrival in (minutes)</label>
+            <input
+              type="number"
+              min={1}
+              className={`${inputClass} mt-1`}
+              value={etaMinutes}
+              onChange={e => setEtaMinutes(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-400 uppercase tracking-wider">Check in every</label>
+            <div className="flex gap-2 mt-1">
+              {CHECK_IN_OPTIONS.map(m => (
+                <button
+                  key={m}
+                  onClick={() => setCheckInMinutes(m)}
+                  className={`flex-1 py-2 rounded-lg border text-xs ${checkInMinutes === m ? 'bg-indigo-600 border-indigo-500' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                >
+                  {m} min
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-400 uppercase tracking-wider">Alert if stopped for (minutes)</label>
+            <input
+              type="number"
+              min={1}
+              className={`${inputClass} mt-1`}
+              value={maxStopMinutes}
+              onChange={e => setMaxStopMinutes(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+
+          <p className="text-xs text-slate-500">
+            If you miss a check-in, stop for too long, or have not arrived by the expected time, your emergency contacts are alerted.
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-slate-800">
+          <button
+            disabled={!destination || !plateOk}
+            onClick={start}
+            className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 rounded-lg font-semibold"
+          >
+            {mode === 'ride' ? 'Start Ride' : 'Start Trip'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TripSetup;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { TripSnapshot } from '../services/tripMonitor';
+import { formatDistance } from '../services/safePlaces';
+import { RideDetails } from '../types';
+
+interface TripStatusProps {
+  snapshot: TripSnapshot;
+  ride?: RideDetails | null;
+  onCheckIn: () => void;
+  onExtend: (minutes: number) => void;
+  onEnd: () => void;
+}
+
+const countdown = (ms: number) => {
+  const total = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const TripStatus: React.FC<TripStatusProps> = ({ snapshot, ride, onCheckIn, onExtend, onEnd }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+
+  const { plan } = snapshot;
+  if (!plan) return null;
+
+  const progress = snapshot.initialDistanceM && snapshot.remainingDistanceM !== null
+    ? Math.min(100, Math.max(0, 100 * (1 - snapshot.remainingDistanceM / snapshot.initialDistanceM)))
+    : 0;
+  const due = snapshot.state === 'check_in_due';
+  const alarm = snapshot.state === 'alarm';
+
+  return (
+    <div className={`rounded-xl border p-4 ${alarm ? 'bg-red-950/60 border-red-600' : due ? 'bg-amber-950/60 border-amber-500' : 'bg-indigo-950/60 border-indigo-500'}`}>
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-indigo-300 text-xs font-bold uppercase tracking-wider">{ride ? 'Ride' : 'Walk me home'}</h3>
+          <div className="font-semibold text-slate-100 mt-1">{plan.destination.name}</div>
+          {ride && (
+            <div className="text-xs text-slate-400 mt-1">
+              <span className="font-mono text-slate-200">{ride.plate || 'plate unknown'}</span>
+              {ride.vehicle && ` · ${ride.vehicle}`}
+            </div>
+          )}
+        </div>
+        <div className="text-right text-xs text-slate-400">
+          <div>ETA {new Date(plan.expectedArrivalAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+          <div>{snapshot.remainingDistanceM !== null ? `${formatDistance(snapshot.remainingDistanceM)} to go` : 'waiting for GPS'}</div>
+        </div>
+      </div>
+
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mt-3">
+        <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${progress}%` }} />
+      </div>
+
+      <p className={`mt-3 text-sm ${alarm ? 'text-red-300 font-semibold' : due ? 'text-amber-300 font-semibold' : 'text-slate-300'}`}>
+        {alarm
+          ? 'Your contacts have been alerted. Check in if you are safe.'
+          : due && snapshot.checkInDeadline !== null
+            ? `Check in now: contacts are alerted in ${countdown(snapshot.checkInDeadline - now)}`
+            : snapshot.nextCheckInAt !== null ? `Next check-in in ${countdown(snapshot.nextCheckInAt - now)}` : ''}
+      </p>
+
+      <div className="grid grid-cols-3 gap-2 mt-3">
+        <button onClick={onCheckIn} className={`col-span-1 py-2 rounded-lg text-sm font-semibold ${due || alarm ? 'bg-emerald-600 hover:bg-emerald-500 animate-pulse' : 'bg-slate-800 hover:bg-slate-700'}`}>
+          I'm OK
+        </button>
+        <button onClick={() => onExtend(10)} className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm">
+          +10 min
+        </button>
+        <button onClick={onEnd} className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm">
+          End trip
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TripStatus;
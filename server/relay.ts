@@ -0,0 +1,429 @@
+/**
+ * Live location relay for guardians.
+ *
+ * The app creates a share, then pushes its position and risk state; guardians
+ * open the viewer link and receive updates over Server-Sent Events. Shares
+ * expire on their own and can be ended by the owner at any time. State is kept
+ * in memory only: a restart ends every share.
+ *
+ *   POST   /api/shares                 create, returns { token, ownerKey, viewerUrl, expiresAt }
+ *   POST   /api/shares/:token/updates  owner pushes a LiveShareUpdate (Bearer ownerKey)
+ *   DELETE /api/shares/:token          owner ends sharing (Bearer ownerKey)
+ *   GET    /api/shares/:token          current LiveShareSnapshot
+ *   GET    /api/shares/:token/events   SSE stream of snapshots
+ *   GET    /s/:token                   viewer page
+ *   POST   /api/alerts/senders          registers { recipients }, returns { senderId, senderKey, expiresAt }
+ *   POST   /api/alerts/:senderId/sms    forwards { to, body } to the SMS gateway (Bearer senderKey)
+ *   POST   /api/alerts/:senderId/email  forwards { to, subject, text } to the email relay (Bearer senderKey)
+ *
+ * The alert endpoints exist so gateway credentials never ship in the app
+ * bundle: the key is added here. An alert is only forwarded with a sender key
+ * the relay issued, and only to a recipient registered with that key, so the
+ * relay cannot be used to message arbitrary numbers. Registrations and alerts
+ * are rate-limited per client address and per sender.
+ *
+ * Browsers may only call the relay from ALLOWED_ORIGIN, which defaults to the
+ * relay's own origin; set it to the app's origin (e.g. http://localhost:3000).
+ *
+ * Run locally with `npm run relay` (PORT, PUBLIC_URL, ALLOWED_ORIGIN, SMS_GATEWAY_URL,
+ * EMAIL_RELAY_URL and ALERT_GATEWAY_KEY are read from the environment).
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { pathToFileURL } from "node:url";
+import { LiveShareGrant, LiveSharePoint, LiveShareSnapshot, LiveShareUpdate, RideDetails, RiskLevel } from "../types";
+import { VIEWER_HTML } from "./viewer";
+
+export interface RelayOptions {
+  publicUrl?: string; // base used for viewer links; defaults to the request's host
+  allowedOrigin?: string; // CORS origin of the app; defaults to the relay's own origin
+  defaultTtlMs?: number;
+  maxTtlMs?: number;
+  maxTrailPoints?: number;
+  maxShares?: number;
+  sweepIntervalMs?: number;
+  alertGateway?: AlertGatewayOptions;
+  now?: () => number;
+}
+
+export interface AlertGatewayOptions {
+  smsUrl?: string;
+  emailUrl?: string;
+  apiKey?: string; // sent upstream as a bearer token, never to the app
+  maxPerWindow?: number; // alerts per client address and per sender per window
+  windowMs?: number;
+  maxRecipients?: number; // addresses one sender may register
+  maxRegistrationsPerWindow?: number; // sender registrations per client address per window
+  senderTtlMs?: number;
+}
+
+interface Share {
+  snapshot: LiveShareSnapshot;
+  ownerKey: string;
+  viewers: Set<ServerResponse>;
+}
+
+interface AlertSender {
+  key: string;
+  recipients: Set<string>;
+  expiresAt: number;
+  sent: number[];
+}
+
+const MAX_BODY_BYTES = 16 * 1024;
+const RISK_LEVELS = Object.values(RiskLevel) as string[];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(text ? JSON.parse(text) : {});
+      } catch (error) {
+        reject(new HttpError(400, `Invalid JSON: ${error instanceof Error ? error.message : error}`));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const bearer = (req: IncomingMessage) => {
+  const auth = req.headers.authorization ?? "";
+  return auth.startsWith("Bearer ") ? auth.slice(7) : "";
+};
+
+const sameSecret = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const parsePoint = (value: unknown): LiveSharePoint | undefined => {
+  if (!value || typeof value !== "object") return undefined;
+  const { lat, lng, accuracy, timestamp } = value as Record<string, unknown>;
+  if (typeof lat !== "number" || typeof lng !== "number" || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new HttpError(400, "Invalid point");
+  }
+  return {
+    lat,
+    lng,
+    accuracy: typeof accuracy === "number" ? accuracy : undefined,
+    timestamp: typeof timestamp === "number" ? timestamp : Date.now(),
+  };
+};
+
+const text = (value: unknown, max: number) => (typeof value === "string" ? value.slice(0, max) : "");
+
+const parseRide = (value: unknown): RideDetails | null | undefined => {
+  if (value === null) return null;
+  if (!value || typeof value !== "object") return undefined;
+  const ride = value as Record<string, unknown>;
+  return {
+    plate: text(ride.plate, 20),
+    vehicle: text(ride.vehicle, 100),
+    driverName: text(ride.driverName, 100),
+    service: text(ride.service, 100),
+    plateConfirmed: ride.plateConfirmed === true,
+    startedAt: text(ride.startedAt, 40),
+  };
+};
+
+// Phone numbers and email addresses compare without formatting or case
+const recipientKey = (address: string): string =>
+  address.includes("@") ? address.trim().toLowerCase() : address.replace(/[\s().-]/g, "");
+
+const parseRecipients = (body: unknown, max: number): Set<string> => {
+  const recipients = body && typeof body === "object" ? (body as Record<string, unknown>).recipients : undefined;
+  if (!Array.isArray(recipients) || recipients.length === 0) throw new HttpError(400, "Missing recipients");
+  if (recipients.length > max) throw new HttpError(400, `At most ${max} recipients`);
+  if (!recipients.every((r) => typeof r === "string" && r.trim() && r.length <= 200)) throw new HttpError(400, "Invalid recipient");
+  return new Set(recipients.map(recipientKey));
+};
+
+// Alert payloads as the app's transports send them
+const parseAlert = (channel: "sms" | "email", body: unknown): Record<string, string> => {
+  if (!body || typeof body !== "object") throw new HttpError(400, "Invalid alert");
+  const { to, body: message, subject, text: mailText, reference } = body as Record<string, unknown>;
+  if (typeof to !== "string" || !to.trim()) throw new HttpError(400, "Missing recipient");
+  if (channel === "sms") {
+    if (typeof message !== "string" || !message) throw new HttpError(400, "Missing message");
+    return { to: to.slice(0, 100), body: message.slice(0, 2000), reference: text(reference, 100) };
+  }
+  if (typeof mailText !== "string" || !mailText) throw new HttpError(400, "Missing message");
+  return { to: to.slice(0, 200), subject: text(subject, 200), text: mailText.slice(0, 10000), reference: text(reference, 100) };
+};
+
+const parseUpdate = (body: unknown): LiveShareUpdate => {
+  if (!body || typeof body !== "object") throw new HttpError(400, "Invalid update");
+  const { point, riskLevel, score, reason, ride } = body as Record<string, unknown>;
+  return {
+    point: parsePoint(point),
+    riskLevel: typeof riskLevel === "string" && RISK_LEVELS.includes(riskLevel) ? (riskLevel as RiskLevel) : undefined,
+    score: typeof score === "number" ? Math.min(100, Math.max(0, Math.round(score))) : undefined,
+    reason: typeof reason === "string" ? reason.slice(0, 500) : undefined,
+    ride: parseRide(ride),
+  };
+};
+
+export const createRelayServer = (options: RelayOptions = {}): Server => {
+  const {
+    publicUrl,
+    allowedOrigin,
+    defaultTtlMs = 2 * 60 * 60 * 1000,
+    maxTtlMs = 12 * 60 * 60 * 1000,
+    maxTrailPoints = 2000,
+    maxShares = 1000,
+    sweepIntervalMs = 60 * 1000,
+    alertGateway = {},
+    now = () => Date.now(),
+  } = options;
+  const alertWindowMs = alertGateway.windowMs ?? 10 * 60 * 1000;
+  const maxAlerts = alertGateway.maxPerWindow ?? 30;
+
+  const shares = new Map<string, Share>();
+  const senders = new Map<string, AlertSender>();
+  const alertsByClient = new Map<string, number[]>();
+  const registrationsByClient = new Map<string, number[]>();
+
+  // Records one use against a per-client window, or rejects when it is full
+  const countUse = (uses: Map<string, number[]>, client: string, max: number, message: string) => {
+    const recent = (uses.get(client) ?? []).filter((at) => at > now() - alertWindowMs);
+    if (recent.length >= max) throw new HttpError(429, message);
+    uses.set(client, [...recent, now()]);
+  };
+
+  const registerSender = async (req: IncomingMessage) => {
+    if (!alertGateway.smsUrl && !alertGateway.emailUrl) throw new HttpError(503, "No alert gateway configured on the relay");
+    countUse(registrationsByClient, req.socket.remoteAddress ?? "unknown", alertGateway.maxRegistrationsPerWindow ?? 5, "Too many registrations from this client");
+    const recipients = parseRecipients(await readJson(req), alertGateway.maxRecipients ?? 20);
+    if (senders.size >= maxShares) sweep();
+    if (senders.size >= maxShares) throw new HttpError(503, "Too many registered senders");
+    const senderId = randomBytes(16).toString("base64url");
+    const senderKey = randomBytes(32).toString("base64url");
+    const expiresAt = now() + (alertGateway.senderTtlMs ?? 30 * 24 * 60 * 60 * 1000);
+    senders.set(senderId, { key: senderKey, recipients, expiresAt, sent: [] });
+    return { senderId, senderKey, expiresAt };
+  };
+
+  const forwardAlert = async (req: IncomingMessage, senderId: string, channel: "sms" | "email"): Promise<unknown> => {
+    const upstream = channel === "sms" ? alertGateway.smsUrl : alertGateway.emailUrl;
+    if (!upstream) throw new HttpError(503, `No ${channel} gateway configured on the relay`);
+    const sender = senders.get(senderId);
+    if (!sender || sender.expiresAt <= now() || !sameSecret(bearer(req), sender.key)) throw new HttpError(401, "Unknown or expired sender");
+    countUse(alertsByClient, req.socket.remoteAddress ?? "unknown", maxAlerts, "Too many alerts from this client");
+
+    const payload = parseAlert(channel, await readJson(req));
+    if (!sender.recipients.has(recipientKey(payload.to))) throw new HttpError(403, "Recipient is not registered for this sender");
+    sender.sent = sender.sent.filter((at) => at > now() - alertWindowMs);
+    if (sender.sent.length >= maxAlerts) throw new HttpError(429, "Too many alerts from this sender");
+    sender.sent.push(now());
+    const response = await fetch(upstream, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(alertGateway.apiKey ? { Authorization: `Bearer ${alertGateway.apiKey}` } : {}),
+      },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) throw new HttpError(502, `${channel} gateway answered HTTP ${response.status}`);
+    const data = await response.json().catch(() => ({}));
+    return { id: data.id ?? data.messageId ?? data.sid };
+  };
+
+  const broadcast = (share: Share) => {
+    const payload = `data: ${JSON.stringify(share.snapshot)}\n\n`;
+    share.viewers.forEach((res) => res.write(payload));
+  };
+
+  const close = (share: Share) => {
+    share.snapshot = { ...share.snapshot, ended: true };
+    broadcast(share);
+    share.viewers.forEach((res) => res.end());
+    share.viewers.clear();
+  };
+
+  // Expired shares are announced as ended, then forgotten
+  const sweep = () => {
+    const t = now();
+    shares.forEach((share, token) => {
+      if (share.snapshot.expiresAt <= t || share.snapshot.ended) {
+        if (!share.snapshot.ended || share.viewers.size > 0) close(share);
+        shares.delete(token);
+      }
+    });
+    senders.forEach((sender, id) => {
+      if (sender.expiresAt <= t) senders.delete(id);
+    });
+    [alertsByClient, registrationsByClient].forEach((uses) => uses.forEach((times, client) => {
+      if (times.every((at) => at <= t - alertWindowMs)) uses.delete(client);
+    }));
+  };
+
+  const getShare = (token: string): Share => {
+    const share = shares.get(token);
+    if (!share) throw new HttpError(404, "Unknown share");
+    if (share.snapshot.expiresAt <= now()) {
+      close(share);
+      shares.delete(token);
+      throw new HttpError(410, "Share expired");
+    }
+    return share;
+  };
+
+  const requireOwner = (req: IncomingMessage, share: Share) => {
+    const key = bearer(req);
+    if (!key || !sameSecret(key, share.ownerKey)) throw new HttpError(401, "Not the owner of this share");
+  };
+
+  const send = (res: ServerResponse, status: number, body?: unknown) => {
+    res.writeHead(status, body === undefined ? {} : { "Content-Type": "application/json" });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const baseUrl = (req: IncomingMessage) => publicUrl ?? `http://${req.headers.host ?? "localhost"}`;
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader("Access-Control-Allow-Origin", allowedOrigin ?? new URL(baseUrl(req)).origin);
+    res.setHeader("Vary", "Origin");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    if (req.method === "OPTIONS") return send(res, 204);
+
+    const url = new URL(req.url ?? "/", "http://relay");
+    const parts = url.pathname.split("/").filter(Boolean);
+
+    // Viewer page: the token is read from the path by the page script
+    if (req.method === "GET" && parts[0] === "s" && parts.length === 2) {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" });
+      res.end(VIEWER_HTML);
+      return;
+    }
+    if (req.method === "POST" && parts[0] === "api" && parts[1] === "alerts") {
+      if (parts[2] === "senders" && parts.length === 3) return send(res, 201, await registerSender(req));
+      if ((parts[3] === "sms" || parts[3] === "email") && parts.length === 4) return send(res, 200, await forwardAlert(req, parts[2], parts[3]));
+      throw new HttpError(404, "Not found");
+    }
+    if (parts[0] !== "api" || parts[1] !== "shares") throw new HttpError(404, "Not found");
+
+    if (req.method === "POST" && parts.length === 2) {
+      if (shares.size >= maxShares) sweep();
+      if (shares.size >= maxShares) throw new HttpError(503, "Too many active shares");
+      const body = (await readJson(req)) as { ttlMinutes?: unknown } | null;
+      const ttlMs = typeof body?.ttlMinutes === "number" && body.ttlMinutes > 0
+        ? Math.min(maxTtlMs, body.ttlMinutes * 60000)
+        : defaultTtlMs;
+      const token = randomBytes(16).toString("base64url");
+      const ownerKey = randomBytes(32).toString("base64url");
+      const createdAt = now();
+      const snapshot: LiveShareSnapshot = {
+        token,
+        createdAt,
+        expiresAt: createdAt + ttlMs,
+        ended: false,
+        trail: [],
+        riskLevel: null,
+        score: null,
+        reason: null,
+        ride: null,
+        updatedAt: null,
+      };
+      shares.set(token, { snapshot, ownerKey, viewers: new Set() });
+      const grant: LiveShareGrant = { token, ownerKey, viewerUrl: `${baseUrl(req)}/s/${token}`, expiresAt: snapshot.expiresAt };
+      return send(res, 201, grant);
+    }
+
+    const token = parts[2];
+    if (!token) throw new HttpError(404, "Not found");
+
+    if (req.method === "GET" && parts.length === 3) {
+      return send(res, 200, getShare(token).snapshot);
+    }
+
+    if (req.method === "GET" && parts[3] === "events") {
+      const share = getShare(token);
+      res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-store", Connection: "keep-alive" });
+      res.write(`data: ${JSON.stringify(share.snapshot)}\n\n`);
+      share.viewers.add(res);
+      req.on("close", () => share.viewers.delete(res));
+      return;
+    }
+
+    if (req.method === "POST" && parts[3] === "updates") {
+      const share = getShare(token);
+      requireOwner(req, share);
+      if (share.snapshot.ended) throw new HttpError(410, "Share ended");
+      const update = parseUpdate(await readJson(req));
+      const s = share.snapshot;
+      share.snapshot = {
+        ...s,
+        trail: update.point ? [...s.trail, update.point].slice(-maxTrailPoints) : s.trail,
+        riskLevel: update.riskLevel ?? s.riskLevel,
+        score: update.score ?? s.score,
+        reason: update.reason ?? s.reason,
+        ride: update.ride !== undefined ? update.ride : s.ride,
+        updatedAt: now(),
+      };
+      broadcast(share);
+      return send(res, 204);
+    }
+
+    if (req.method === "DELETE" && parts.length === 3) {
+      const share = getShare(token);
+      requireOwner(req, share);
+      close(share);
+      shares.delete(token);
+      return send(res, 204);
+    }
+
+    throw new HttpError(404, "Not found");
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error("Relay error:", error);
+      if (!res.headersSent) send(res, status, { error: error instanceof Error ? error.message : "Error" });
+      else res.end();
+    });
+  });
+
+  const sweeper = setInterval(sweep, sweepIntervalMs);
+  sweeper.unref();
+  server.on("close", () => {
+    clearInterval(sweeper);
+    shares.forEach(close);
+    shares.clear();
+  });
+  return server;
+};
+
+// `npm run relay`
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const port = Number(process.env.PORT) || 8787;
+  createRelayServer({
+    publicUrl: process.env.PUBLIC_URL,
+    allowedOrigin: process.env.ALLOWED_ORIGIN,
+    alertGateway: {
+      smsUrl: process.env.SMS_GATEWAY_URL,
+      emailUrl: process.env.EMAIL_RELAY_URL,
+      apiKey: process.env.ALERT_GATEWAY_KEY,
+    },
+  })
+    .listen(port, () => console.log(`SheShield live share relay on http://localhost:${port}`));
+}
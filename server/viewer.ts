@@ -0,0 +1,106 @@
+/**
+ * Guardian view served at /s/:token. Self-contained: no external scripts, so
+ * it works on any phone browser. The trail is drawn as an SVG polyline
+ * (equirectangular projection, fine at street scale).
+ */
+export const VIEWER_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>SheShield live location</title>
+<style>
+  body { margin: 0; font-family: -apple-system, "Segoe UI", Roboto, sans-serif; background: #020617; color: #e2e8f0; }
+  main { max-width: 640px; margin: 0 auto; padding: 1rem; }
+  h1 { font-size: 1.2rem; margin: 0 0 0.5rem; }
+  .card { background: #0f172a; border: 1px solid #1e293b; border-radius: 12px; padding: 1rem; margin-bottom: 1rem; }
+  .level { display: inline-block; padding: 0.2rem 0.6rem; border-radius: 999px; font-weight: 700; font-size: 0.85rem; }
+  .SAFE { background: #10b981; } .UNCERTAIN { background: #64748b; } .SUSPICIOUS { background: #f59e0b; color: #0f172a; }
+  .DANGEROUS { background: #ea580c; } .CRITICAL { background: #dc2626; }
+  .muted { color: #94a3b8; font-size: 0.85rem; }
+  svg { width: 100%; height: 320px; background: #0b1220; border-radius: 8px; }
+  a { color: #818cf8; }
+  .ended { color: #fbbf24; font-weight: 600; }
+  .plate { font-family: ui-monospace, monospace; font-size: 1.3rem; font-weight: 700; letter-spacing: 0.08em; }
+</style>
+</head>
+<body>
+<main>
+  <h1>SheShield live location</h1>
+  <div class="card">
+    <div><span id="level" class="level UNCERTAIN">WAITING</span> <span id="score" class="muted"></span></div>
+    <p id="reason"></p>
+    <p class="muted" id="updated">Waiting for the first update…</p>
+    <p id="status" class="ended"></p>
+  </div>
+  <div class="card" id="ride" hidden>
+    <div class="muted">In a vehicle</div>
+    <div class="plate" id="plate"></div>
+    <p id="rideInfo"></p>
+  </div>
+  <div class="card">
+    <svg id="map" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet"></svg>
+    <p class="muted"><span id="coords"></span> <a id="maps" target="_blank" rel="noreferrer"></a></p>
+  </div>
+</main>
+<script>
+  const token = location.pathname.split('/').filter(Boolean).pop();
+  const $ = (id) => document.getElementById(id);
+
+  const drawTrail = (trail) => {
+    const svg = $('map');
+    if (trail.length === 0) { svg.innerHTML = ''; return; }
+    const lats = trail.map(p => p.lat), lngs = trail.map(p => p.lng);
+    const midLat = (Math.max(...lats) + Math.min(...lats)) / 2;
+    const k = Math.cos(midLat * Math.PI / 180);
+    const xs = lngs.map(l => l * k);
+    const minX = Math.min(...xs), minY = Math.min(...lats);
+    const span = Math.max(Math.max(...xs) - minX, Math.max(...lats) - minY, 0.0005);
+    const project = (p, i) => [8 + 84 * (xs[i] - minX) / span, 92 - 84 * (p.lat - minY) / span];
+    const pts = trail.map(project);
+    const [cx, cy] = pts[pts.length - 1];
+    svg.innerHTML =
+      '<polyline fill="none" stroke="#6366f1" stroke-width="1.2" stroke-linejoin="round" points="' + pts.map(p => p.join(',')).join(' ') + '"/>' +
+      '<circle cx="' + pts[0][0] + '" cy="' + pts[0][1] + '" r="1.5" fill="#64748b"/>' +
+      '<circle cx="' + cx + '" cy="' + cy + '" r="2.8" fill="#f43f5e" stroke="#fff" stroke-width="0.6"/>';
+  };
+
+  const render = (s) => {
+    const level = $('level');
+    level.textContent = s.riskLevel || 'UNKNOWN';
+    level.className = 'level ' + (s.riskLevel || 'UNCERTAIN');
+    $('score').textContent = s.score !== null ? 'score ' + s.score + '/100' : '';
+    $('reason').textContent = s.reason || '';
+    $('updated').textContent = s.updatedAt ? 'Last update ' + new Date(s.updatedAt).toLocaleTimeString() : 'Waiting for the first update…';
+    const last = s.trail[s.trail.length - 1];
+    if (last) {
+      $('coords').textContent = last.lat.toFixed(5) + ', ' + last.lng.toFixed(5);
+      $('maps').href = 'https://maps.google.com/?q=' + last.lat + ',' + last.lng;
+      $('maps').textContent = 'Open in Maps';
+    }
+    $('ride').hidden = !s.ride;
+    if (s.ride) {
+      $('plate').textContent = (s.ride.plate || 'Plate unknown') + (s.ride.plateConfirmed ? '' : ' (unconfirmed)');
+      $('rideInfo').textContent = [s.ride.vehicle, s.ride.driverName && 'Driver: ' + s.ride.driverName, s.ride.service].filter(Boolean).join(' · ');
+    }
+    drawTrail(s.trail);
+    if (s.ended) $('status').textContent = 'Sharing has ended.';
+  };
+
+  const events = new EventSource('/api/shares/' + token + '/events');
+  events.onmessage = (e) => {
+    const s = JSON.parse(e.data);
+    render(s);
+    if (s.ended) events.close();
+  };
+  events.onerror = () => {
+    fetch('/api/shares/' + token).then(r => {
+      if (r.status === 404 || r.status === 410) {
+        events.close();
+        $('status').textContent = r.status === 410 ? 'This link has expired.' : 'This link is no longer valid.';
+      }
+    }).catch(() => {});
+  };
+</script>
+</body>
+</html>`;
@@ -0,0 +1,106 @@
+import { AlertChannel, DeliveryReceipt, EmergencyContact } from "../types";
+import { AlertMessage, AlertTransport } from "./alertTransports";
+import { contactAddress } from "./contacts";
+import { createId, loadJson, saveJson } from "./storage";
+
+const RECEIPT_LOG_KEY = "sheshield.deliveryReceipts";
+const RECEIPT_LOG_LIMIT = 200;
+const CHANNEL_FALLBACK_ORDER: AlertChannel[] = ["sms", "email", "webhook", "share"];
+
+export interface DispatcherOptions {
+  transports: Partial<Record<AlertChannel, AlertTransport>>;
+  maxAttempts?: number; // per channel
+  retryDelayMs?: number; // doubled after each failed attempt
+  sleep?: (ms: number) => Promise<void>;
+  onReceipt?: (receipt: DeliveryReceipt) => void;
+}
+
+export interface AlertDispatcher {
+  dispatch: (contacts: EmergencyContact[], subject: string, body: string) => Promise<DeliveryReceipt[]>;
+  getReceiptLog: () => DeliveryReceipt[];
+}
+
+export const loadReceiptLog = (): DeliveryReceipt[] => loadJson<DeliveryReceipt[]>(RECEIPT_LOG_KEY, []);
+
+const appendReceipts = (receipts: DeliveryReceipt[]) => {
+  saveJson(RECEIPT_LOG_KEY, [...loadReceiptLog(), ...receipts].slice(-RECEIPT_LOG_LIMIT));
+};
+
+/**
+ * Sends one alert to many contacts. Each recipient is tried on their
+ * preferred channel first, with exponential-backoff retries, then on any
+ * other channel they can be reached on. Every attempt updates a receipt.
+ */
+export const createAlertDispatcher = (options: DispatcherOptions): AlertDispatcher => {
+  const {
+    transports,
+    maxAttempts = 3,
+    retryDelayMs = 1000,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    onReceipt,
+  } = options;
+
+  const channelsFor = (contact: EmergencyContact): AlertChannel[] =>
+    [contact.preferredChannel, ...CHANNEL_FALLBACK_ORDER.filter((c) => c !== contact.preferredChannel)]
+      .filter((channel) => transports[channel]?.isAvailable() && contactAddress(contact, channel))
+      // The share sheet is interactive, so it is only used when explicitly preferred
+      .filter((channel) => channel !== "share" || contact.preferredChannel === "share");
+
+  const deliver = async (contact: EmergencyContact, message: AlertMessage): Promise<DeliveryReceipt> => {
+    let receipt: DeliveryReceipt = {
+      id: createId(),
+      alertId: message.alertId,
+      contactId: contact.id,
+      contactName: contact.name,
+      channel: contact.preferredChannel,
+      status: "pending",
+      attempts: 0,
+      timestamp: new Date().toISOString(),
+    };
+    const update = (patch: Partial<DeliveryReceipt>) => {
+      receipt = { ...receipt, ...patch, timestamp: new Date().toISOString() };
+      onReceipt?.(receipt);
+    };
+    update({});
+
+    const channels = channelsFor(contact);
+    if (channels.length === 0) {
+      const preferred = transports[contact.preferredChannel];
+      update({
+        status: "failed",
+        error: preferred?.isAvailable() ? "No available channel for this contact" : `${preferred?.label ?? contact.preferredChannel} is not set up; nothing was sent`,
+      });
+      return receipt;
+    }
+
+    for (const channel of channels) {
+      const transport = transports[channel]!;
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        update({ channel, status: "sending", attempts: receipt.attempts + 1 });
+        try {
+          const result = await transport.send(contact, message);
+          update({ status: result.simulated ? "simulated" : "delivered", providerId: result.providerId, error: undefined });
+          return receipt;
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.error(`Alert delivery error (${transport.label} -> ${contact.name}):`, error);
+          update({ status: "pending", error: reason });
+          if (attempt < maxAttempts) await sleep(retryDelayMs * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    update({ status: "failed" });
+    return receipt;
+  };
+
+  return {
+    dispatch: async (contacts, subject, body) => {
+      const message: AlertMessage = { alertId: createId(), subject, body };
+      const receipts = await Promise.all(contacts.map((contact) => deliver(contact, message)));
+      appendReceipts(receipts);
+      return receipts;
+    },
+    getReceiptLog: loadReceiptLog,
+  };
+};
@@ -0,0 +1,201 @@
+import { AlertChannel, EmergencyContact } from "../types";
+import { contactAddress } from "./contacts";
+
+export interface AlertMessage {
+  alertId: string;
+  subject: string;
+  body: string;
+}
+
+export interface TransportResult {
+  providerId?: string;
+  simulated?: boolean; // nothing left the device (mock transport)
+}
+
+/**
+ * A delivery channel for emergency alerts. send() rejects on failure so the
+ * dispatcher can retry or fall back to another channel.
+ */
+export interface AlertTransport {
+  channel: AlertChannel;
+  label: string;
+  isAvailable: () => boolean;
+  send: (contact: EmergencyContact, message: AlertMessage) => Promise<TransportResult>;
+}
+
+const postJson = async (url: string, payload: unknown, headers: Record<string, string> = {}): Promise<TransportResult> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) throw Object.assign(new Error(`HTTP ${response.status}`), { status: response.status });
+  const data = await response.json().catch(() => ({}));
+  return { providerId: data.id ?? data.messageId ?? data.sid };
+};
+
+const requireAddress = (contact: EmergencyContact, channel: AlertChannel): string => {
+  const address = contactAddress(contact, channel);
+  if (!address) throw new Error(`${contact.name} has no ${channel} address`);
+  return address;
+};
+
+/**
+ * Client for the relay's alert endpoints (see server/relay.ts). The relay only
+ * forwards alerts to the phone numbers and addresses registered with the
+ * sender key it issued, so the key is (re)registered whenever the contact
+ * list changes, and once more if the relay restarted and forgot it.
+ */
+export interface RelayAlertClient {
+  isAvailable: () => boolean;
+  post: (channel: "sms" | "email", payload: Record<string, string>) => Promise<TransportResult>;
+}
+
+export const createRelayAlertClient = (relayUrl: string, getContacts: () => EmergencyContact[]): RelayAlertClient => {
+  const base = relayUrl.replace(/\/+$/, "");
+  type Registration = Promise<{ senderId: string; senderKey: string }>;
+  let registration: Registration | null = null;
+  let registeredFor = "";
+
+  const recipientsOf = () => [...new Set(getContacts().flatMap((c) => [c.phone, c.email]).filter((a): a is string => Boolean(a)))];
+
+  // Concurrent alerts share one registration; `stale` is a key the relay just refused
+  const senderFor = (stale: Registration | null): Registration => {
+    const recipients = recipientsOf();
+    if (registration && registration !== stale && registeredFor === recipients.join("\n")) return registration;
+    const pending: Registration = (async () => {
+      const response = await fetch(`${base}/api/alerts/senders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ recipients }),
+      });
+      if (!response.ok) throw new Error(`Relay registration failed: HTTP ${response.status}`);
+      return response.json();
+    })();
+    // A failed registration is retried on the next alert
+    pending.catch(() => {
+      if (registration === pending) registration = null;
+    });
+    registration = pending;
+    registeredFor = recipients.join("\n");
+    return pending;
+  };
+
+  const post = async (channel: "sms" | "email", payload: Record<string, string>, stale: Registration | null = null): Promise<TransportResult> => {
+    const used = senderFor(stale);
+    const { senderId, senderKey } = await used;
+    try {
+      return await postJson(`${base}/api/alerts/${senderId}/${channel}`, payload, { Authorization: `Bearer ${senderKey}` });
+    } catch (error) {
+      if (!stale && (error as { status?: number }).status === 401) return post(channel, payload, used);
+      throw error;
+    }
+  };
+
+  return { isAvailable: () => Boolean(base), post: (channel, payload) => post(channel, payload) };
+};
+
+/**
+ * 1. SMS GATEWAY
+ * Sends { to, body } through the relay, which adds the gateway credentials;
+ * no secret is part of the app bundle.
+ */
+export const createSmsGatewayTransport = (relay: RelayAlertClient): AlertTransport => ({
+  channel: "sms",
+  label: "SMS Gateway",
+  isAvailable: relay.isAvailable,
+  send: (contact, message) =>
+    relay.post("sms", { to: requireAddress(contact, "sms"), body: message.body, reference: message.alertId }),
+});
+
+/**
+ * 2. EMAIL (SMTP relay)
+ * Browsers cannot speak SMTP, so mail goes through the relay to an HTTP-to-SMTP service.
+ */
+export const createEmailTransport = (relay: RelayAlertClient): AlertTransport => ({
+  channel: "email",
+  label: "Email (SMTP relay)",
+  isAvailable: relay.isAvailable,
+  send: (contact, message) =>
+    relay.post("email", { to: requireAddress(contact, "email"), subject: message.subject, text: message.body, reference: message.alertId }),
+});
+
+/**
+ * 3. GENERIC WEBHOOK
+ * Posts the alert to the contact's own webhook URL (e.g. a chat integration).
+ */
+export const createWebhookTransport = (): AlertTransport => ({
+  channel: "webhook",
+  label: "Webhook",
+  isAvailable: () => typeof fetch !== "undefined",
+  send: (contact, message) =>
+    postJson(requireAddress(contact, "webhook"), { alertId: message.alertId, recipient: contact.name, subject: message.subject, text: message.body }),
+});
+
+/**
+ * 4. WEB SHARE
+ * Hands the alert to the OS share sheet; delivery is confirmed by the user picking a target.
+ */
+export const createWebShareTransport = (): AlertTransport => ({
+  channel: "share",
+  label: "Share Sheet",
+  isAvailable: () => typeof navigator !== "undefined" && typeof navigator.share === "function",
+  send: async (_contact, message) => {
+    await navigator.share({ title: message.subject, text: message.body });
+    return {};
+  },
+});
+
+export interface MockTransport extends AlertTransport {
+  sent: { contact: EmergencyContact; message: AlertMessage; at: number }[];
+}
+
+/**
+ * 5. MOCK (Offline)
+ * Records messages in memory. failuresBeforeSuccess lets retries be exercised.
+ * For tests and replays only: its receipts are marked simulated, never delivered.
+ */
+export const createMockTransport = (
+  channel: AlertChannel,
+  failuresBeforeSuccess: number = 0,
+  latencyMs: number = 200
+): MockTransport => {
+  let failuresLeft = failuresBeforeSuccess;
+  const sent: MockTransport["sent"] = [];
+  return {
+    channel,
+    label: `Mock ${channel.toUpperCase()}`,
+    sent,
+    isAvailable: () => true,
+    send: async (contact, message) => {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        throw new Error("Mock transport failure");
+      }
+      requireAddress(contact, channel);
+      sent.push({ contact, message, at: Date.now() });
+      console.info(`[Mock ${channel}] -> ${contact.name}: ${message.body}`);
+      return { providerId: `mock-${sent.length}`, simulated: true };
+    },
+  };
+};
+
+/**
+ * Transports for the live app. SMS and email go through the relay at
+ * LIVE_SHARE_URL, registered for the addresses of getContacts(); without the
+ * relay they are unavailable, so receipts report the failure instead of
+ * pretending the alert went out.
+ */
+export const createDefaultTransports = (
+  getContacts: () => EmergencyContact[],
+  relayUrl: string = process.env.LIVE_SHARE_URL || ""
+): Partial<Record<AlertChannel, AlertTransport>> => {
+  const relay = createRelayAlertClient(relayUrl, getContacts);
+  return {
+    sms: createSmsGatewayTransport(relay),
+    email: createEmailTransport(relay),
+    webhook: createWebhookTransport(),
+    share: createWebShareTransport(),
+  };
+};
@@ -0,0 +1,204 @@
+import { IncidentLog, LocalAudioAnalysis, RiskAssessment, RiskLevel, RiskProfile, SafeZones, SensorConsent, SensorSnapshot } from "../types";
+import { AnalysisOutcome } from "./analysisScheduler";
+import { ContextTracker } from "./contextTracker";
+import { EvidenceInput } from "./evidenceVault";
+import { LatLng } from "./geo";
+import { RiskAggregator } from "./riskAggregator";
+import { RiskEngine } from "./riskEngine";
+import { applyZoneStatus, evaluateZones, zoneThreats } from "./safeZones";
+
+/**
+ * One analysis tick, shared by the live app and the offline replay harness:
+ * gather sensor data, assess, smooth, keep evidence, escalate and log.
+ * Sensors, clock and side effects are injected; nothing here touches the DOM.
+ */
+
+// JPEG frames as base64: the original stays on the device, only `cloud` may be uploaded
+export interface CapturedImage {
+  original: string;
+  cloud: string | null; // privacy-filtered copy, null without vision consent
+}
+
+export interface PipelineSensors {
+  getLocation: () => LatLng | null;
+  captureImage: () => Promise<CapturedImage | null>;
+  getAudio: () => Promise<string | null>;
+  getAudioFeatures: () => LocalAudioAnalysis | null;
+  getConsent: () => SensorConsent;
+  getWatchPhrases: () => string[];
+  getRiskProfile: () => RiskProfile;
+}
+
+// Everything a tick read from its sensors, before the engine ran
+export interface TickInputs {
+  at: number;
+  location: LatLng;
+  image: CapturedImage | null;
+  audio: string | null; // as recorded, before the silence pre-screen
+  audioFeatures: LocalAudioAnalysis | null;
+  consent: SensorConsent;
+  watchPhrases: string[];
+  riskProfile: RiskProfile;
+}
+
+export interface TickResult {
+  inputs: TickInputs;
+  raw: RiskAssessment; // engine result plus zone threats
+  result: RiskAssessment; // after temporal fusion
+  actionsTaken: string[];
+  outcome: AnalysisOutcome;
+}
+
+export interface PipelineHooks {
+  onInputs?: (inputs: TickInputs) => void;
+  // Engine output before smoothing, e.g. to check spoken keywords
+  onAssessed?: (assessed: RiskAssessment) => void;
+  onResult?: (result: RiskAssessment, raw: RiskAssessment) => void;
+  saveEvidence?: (evidence: Omit<EvidenceInput, "sessionId">) => void;
+  // Hands the result to the escalation logic and returns the actions it took
+  respond: (result: RiskAssessment) => string[];
+  recordIncident?: (incident: Omit<IncidentLog, "id" | "sessionId">) => void;
+}
+
+export interface PipelineOptions {
+  sensors: PipelineSensors;
+  engine: RiskEngine;
+  aggregator: RiskAggregator;
+  tracker: ContextTracker;
+  getSafeZones: () => SafeZones;
+  getEvidenceMode: () => { audio: boolean; video: boolean };
+  hooks: PipelineHooks;
+  now?: () => number;
+}
+
+export interface AnalysisPipeline {
+  // Resolves undefined when there is no location fix yet
+  tick: () => Promise<TickResult | undefined>;
+}
+
+export const createAnalysisPipeline = (options: PipelineOptions): AnalysisPipeline => {
+  const { sensors, engine, aggregator, tracker, getSafeZones, getEvidenceMode, hooks, now: clock = () => Date.now() } = options;
+
+  const gather = async (): Promise<TickInputs | null> => {
+    const location = sensors.getLocation();
+    if (!location) return null;
+    const at = clock();
+    const image = await sensors.captureImage();
+    const audio = await sensors.getAudio();
+    return {
+      at,
+      location,
+      image,
+      audio,
+      audioFeatures: sensors.getAudioFeatures(),
+      consent: sensors.getConsent(),
+      watchPhrases: sensors.getWatchPhrases(),
+      riskProfile: sensors.getRiskProfile(),
+    };
+  };
+
+  return {
+    tick: async () => {
+      // 1. Gather Sensor Data
+      const inputs = await gather();
+      if (!inputs) return undefined;
+      hooks.onInputs?.(inputs);
+      const { at, location, image, audioFeatures } = inputs;
+      // Local pre-screen: silence is not worth uploading to the cloud model
+      const audioBase64 = audioFeatures?.silent ? null : inputs.audio;
+
+      // 2. Context Data measured from the rolling GPS trace
+      const now = new Date(at);
+      const isNight = now.getHours() > 20 || now.getHours() < 6;
+      const movement = tracker.getMovement(at);
+      const zones = evaluateZones(location, getSafeZones());
+      const factors = applyZoneStatus(tracker.getContextFactors(at), zones, isNight);
+      const speedText = movement.speedMps !== null ? `${movement.speedMps.toFixed(1)} m/s` : "unknown speed";
+      const headingText = movement.headingDeg !== null ? `, heading ${Math.round(movement.headingDeg)}°` : "";
+
+      const context = `
+      Timestamp: ${now.toLocaleTimeString()}
+      Location: ${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}
+      Environment: ${isNight ? "Night time" : "Day time"} (time risk: ${factors.time_risk})
+      Movement: ${factors.movement_pattern} (${speedText}${headingText})
+      Route Deviation: ${factors.route_deviation}
+      Location Risk: ${factors.location_risk}
+      Safe Routes: ${zones ? zones.summary : "none configured"}
+      On-device Audio Pre-screen: ${audioFeatures
+        ? `distress ${audioFeatures.distressScore}/100, scream ${audioFeatures.screamDetected ? "DETECTED" : "no"}, impact ${audioFeatures.impactDetected ? "DETECTED" : "no"}`
+        : "unavailable"}
+    `;
+
+      const timestamp = now.toISOString();
+
+      // 3. Send to the Risk Engine (Gemini, or on-device when offline)
+      const snapshot: SensorSnapshot = {
+        imageBase64: image?.cloud ?? null,
+        audioBase64,
+        audioFeatures,
+        locationContext: context,
+        isNight,
+        speedMps: movement.speedMps,
+        contextFactors: factors,
+        movement,
+        watchPhrases: inputs.watchPhrases,
+        consent: inputs.consent,
+        riskProfile: inputs.riskProfile,
+        timestamp: at,
+      };
+      const assessed = await engine.assess(snapshot);
+      hooks.onAssessed?.(assessed);
+      // Report a cloud failure from this tick so the scheduler can back off
+      const failure = engine.getLastFailure?.();
+      const outcome: AnalysisOutcome = assessed.engine === "heuristic"
+        ? { status: failure && failure.at >= at ? failure.status : undefined }
+        : { status: null };
+      // Leaving a known corridor at night is always reported as a driver
+      const extraThreats = zoneThreats(zones, isNight).filter((t) => !assessed.detectedThreats.includes(t));
+      const raw = extraThreats.length > 0
+        ? { ...assessed, detectedThreats: [...assessed.detectedThreats, ...extraThreats] }
+        : assessed;
+
+      // Temporal fusion: the confirmed level and smoothed score drive everything downstream
+      aggregator.setThresholds(inputs.riskProfile.thresholds);
+      const aggregate = aggregator.push(raw, at);
+      const result: RiskAssessment = {
+        ...raw,
+        riskLevel: aggregate.level,
+        score: aggregate.score,
+        recommendedAction: aggregate.recommendedAction.replace(/_/g, " "),
+        trend: aggregate.trend,
+      };
+      hooks.onResult?.(result, raw);
+
+      // 4. Evidence: keep artifacts at DANGEROUS/CRITICAL or while the escalation records
+      const evidence = getEvidenceMode();
+      // Raw levels count here too: evidence is cheap to keep and smoothing would lose the first frames
+      const highRisk = [result.riskLevel, raw.riskLevel].some((l) => l === RiskLevel.DANGEROUS || l === RiskLevel.CRITICAL);
+      const evidenceMeta = { capturedAt: timestamp, location, riskLevel: result.riskLevel, riskScore: result.score };
+      if (image && (highRisk || evidence.video)) {
+        hooks.saveEvidence?.({ ...evidenceMeta, type: "image", mimeType: "image/jpeg", base64: image.original });
+      }
+      if (audioBase64 && (highRisk || evidence.audio)) {
+        hooks.saveEvidence?.({ ...evidenceMeta, type: "audio", mimeType: "audio/webm", base64: audioBase64 });
+      }
+
+      // 5. Auto-Response: the escalation controller decides what happens next
+      const actionsTaken = hooks.respond(result);
+
+      // 6. Log Locally (durable incident history)
+      hooks.recordIncident?.({
+        timestamp,
+        kind: "assessment",
+        riskLevel: result.riskLevel,
+        score: result.score,
+        description: `(${raw.engine}) raw ${raw.riskLevel}/${raw.score}: ${raw.reason}`,
+        location,
+        assessment: raw,
+        actionsTaken,
+      });
+
+      return { inputs, raw, result, actionsTaken, outcome };
+    },
+  };
+};
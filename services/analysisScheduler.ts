@@ -0,0 +1,204 @@
+import { RiskLevel } from "../types";
+
+/**
+ * Result of one analysis run. `status` carries the HTTP status of a failed
+ * cloud call (e.g. 429) even when a fallback engine produced a result; leave
+ * it undefined when no cloud call was attempted.
+ */
+export interface AnalysisOutcome {
+  status?: number | null;
+}
+
+export interface SchedulerState {
+  running: boolean;
+  inFlight: boolean;
+  currentReason: string | null;
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  lastLatencyMs: number | null;
+  lastStatus: number | null;
+  consecutiveFailures: number;
+  backoffMs: number; // 0 when not backing off
+  intervalMs: number; // cadence for the current risk level
+  queuedTriggers: string[];
+  runCount: number;
+}
+
+export interface SchedulerTimers {
+  now: () => number;
+  setTimeout: (fn: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export type CadenceTable = Record<RiskLevel, number>;
+
+export const DEFAULT_CADENCE: CadenceTable = {
+  [RiskLevel.SAFE]: 15000,
+  [RiskLevel.UNCERTAIN]: 8000,
+  [RiskLevel.SUSPICIOUS]: 4000,
+  [RiskLevel.DANGEROUS]: 3000,
+  [RiskLevel.CRITICAL]: 3000,
+};
+
+export interface SchedulerOptions {
+  run: (reason: string) => Promise<AnalysisOutcome | void>;
+  getRiskLevel: () => RiskLevel;
+  cadence?: CadenceTable;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  timers?: SchedulerTimers;
+  onStateChange?: (state: SchedulerState) => void;
+}
+
+export interface AnalysisScheduler {
+  start: () => void;
+  stop: () => void;
+  trigger: (reason: string) => void;
+  setCadence: (cadence: CadenceTable) => void;
+  getState: () => SchedulerState;
+}
+
+// 429 and 5xx are worth backing off for; other failures are not the server's load
+export const isBackoffStatus = (status: number | null | undefined): boolean =>
+  status === 429 || (typeof status === "number" && status >= 500 && status < 600);
+
+/**
+ * Extract an HTTP status from SDK or fetch errors.
+ */
+export const errorStatus = (error: unknown): number | null => {
+  if (error && typeof error === "object") {
+    const status = (error as { status?: unknown; code?: unknown }).status ?? (error as { code?: unknown }).code;
+    if (typeof status === "number") return status;
+  }
+  const match = String(error instanceof Error ? error.message : error).match(/\b(429|5\d\d)\b/);
+  return match ? Number(match[1]) : null;
+};
+
+const defaultTimers: SchedulerTimers = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Drives the analysis loop. Runs are strictly sequential, the cadence
+ * follows the current risk level, and 429/5xx responses back off
+ * exponentially. Out-of-cycle triggers are queued while a run is in flight.
+ */
+export const createAnalysisScheduler = (options: SchedulerOptions): AnalysisScheduler => {
+  const {
+    run,
+    getRiskLevel,
+    baseBackoffMs = 5000,
+    maxBackoffMs = 120000,
+    timers = defaultTimers,
+    onStateChange,
+  } = options;
+  let cadence = options.cadence ?? DEFAULT_CADENCE;
+  let timer: unknown = null;
+
+  let state: SchedulerState = {
+    running: false,
+    inFlight: false,
+    currentReason: null,
+    nextRunAt: null,
+    lastRunAt: null,
+    lastLatencyMs: null,
+    lastStatus: null,
+    consecutiveFailures: 0,
+    backoffMs: 0,
+    intervalMs: cadence[RiskLevel.SAFE],
+    queuedTriggers: [],
+    runCount: 0,
+  };
+
+  const update = (patch: Partial<SchedulerState>) => {
+    state = { ...state, ...patch };
+    onStateChange?.(state);
+  };
+
+  const clearTimer = () => {
+    if (timer !== null) timers.clearTimeout(timer);
+    timer = null;
+  };
+
+  const scheduleNext = () => {
+    clearTimer();
+    if (!state.running) return;
+    const intervalMs = cadence[getRiskLevel()];
+    const delay = Math.max(intervalMs, state.backoffMs);
+    update({ intervalMs, nextRunAt: timers.now() + delay });
+    timer = timers.setTimeout(() => {
+      timer = null;
+      execute("interval");
+    }, delay);
+  };
+
+  const execute = async (reason: string) => {
+    if (!state.running) return;
+    if (state.inFlight) {
+      if (!state.queuedTriggers.includes(reason)) update({ queuedTriggers: [...state.queuedTriggers, reason] });
+      return;
+    }
+    clearTimer();
+    const startedAt = timers.now();
+    update({ inFlight: true, currentReason: reason, nextRunAt: null });
+
+    let status: number | null | undefined;
+    try {
+      const outcome = await run(reason);
+      status = outcome ? outcome.status : undefined;
+    } catch (error) {
+      console.error("Analysis run error:", error);
+      status = errorStatus(error) ?? 500;
+    }
+
+    // Runs that never reached the cloud neither count as failures nor reset the streak
+    const failures = status === undefined
+      ? state.consecutiveFailures
+      : isBackoffStatus(status) ? state.consecutiveFailures + 1 : 0;
+    const backingOff = isBackoffStatus(status);
+    // Exponential backoff with a little jitter so retries do not synchronise
+    const backoffMs = !backingOff
+      ? 0
+      : Math.min(maxBackoffMs, baseBackoffMs * 2 ** (failures - 1)) * (0.9 + Math.random() * 0.2);
+    update({
+      inFlight: false,
+      currentReason: null,
+      lastRunAt: startedAt,
+      lastLatencyMs: timers.now() - startedAt,
+      lastStatus: status ?? state.lastStatus,
+      consecutiveFailures: failures,
+      backoffMs: Math.round(backoffMs),
+      runCount: state.runCount + 1,
+    });
+
+    const [next, ...rest] = state.queuedTriggers;
+    if (next && state.running) {
+      update({ queuedTriggers: rest });
+      execute(next);
+      return;
+    }
+    scheduleNext();
+  };
+
+  return {
+    start: () => {
+      if (state.running) return;
+      update({ running: true, consecutiveFailures: 0, backoffMs: 0, queuedTriggers: [] });
+      execute("start");
+    },
+    stop: () => {
+      clearTimer();
+      update({ running: false, nextRunAt: null, queuedTriggers: [] });
+    },
+    trigger: (reason) => {
+      execute(reason);
+    },
+    setCadence: (next) => {
+      cadence = next;
+      if (state.running && !state.inFlight) scheduleNext();
+    },
+    getState: () => state,
+  };
+};
@@ -0,0 +1,106 @@
+import { LocalAudioAnalysis } from "../types";
+import { computePeak, computeRms, estimatePitch, spectralFeatures, zeroCrossingRate } from "./audioFeatures";
+
+const SCREAM_WINDOW = 8; // frames considered for a sustained scream (~0.8s at 10 fps)
+const SCREAM_MIN_FRAMES = 4;
+const BASELINE_FRAMES = 30; // recent frames used as the loudness baseline
+const EVENT_DECAY_MS = 10000; // how long a scream/impact keeps lifting the score
+
+export interface AudioDistressOptions {
+  onDistress?: (analysis: LocalAudioAnalysis) => void;
+  debounceMs?: number; // minimum gap between onDistress calls
+}
+
+export interface AudioDistressDetector {
+  process: (timeDomain: Float32Array, spectrumDb: Float32Array, sampleRate: number, now?: number) => LocalAudioAnalysis;
+  getLatest: () => LocalAudioAnalysis | null;
+  reset: () => void;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Real-time, on-device audio pre-screening. Called once per analyser frame;
+ * keeps a short history to detect sustained screams and sudden impacts and
+ * turns them into an immediate 0-100 distress score.
+ */
+export const createAudioDistressDetector = (options: AudioDistressOptions = {}): AudioDistressDetector => {
+  const { onDistress, debounceMs = 5000 } = options;
+
+  let rmsHistory: number[] = [];
+  let screamFrames: boolean[] = [];
+  let lastScreamAt = -Infinity;
+  let lastImpactAt = -Infinity;
+  let lastNotifiedAt = -Infinity;
+  let latest: LocalAudioAnalysis | null = null;
+
+  const decay = (eventAt: number, now: number) => Math.max(0, 1 - (now - eventAt) / EVENT_DECAY_MS);
+
+  return {
+    process: (timeDomain, spectrumDb, sampleRate, now = Date.now()) => {
+      const rms = computeRms(timeDomain);
+      const peak = computePeak(timeDomain);
+      // Pitch on a shorter slice keeps autocorrelation cheap enough for ~10 fps
+      const pitchHz = estimatePitch(timeDomain.subarray(0, 1024), sampleRate);
+      const spectral = spectralFeatures(spectrumDb, sampleRate);
+      const zcr = zeroCrossingRate(timeDomain);
+
+      // Scream: loud, tonal, high-pitched and bright, sustained over several frames
+      const screamFrame = rms > 0.12
+        && pitchHz !== null && pitchHz >= 400 && pitchHz <= 2500
+        && spectral.spectralCentroidHz > 1200
+        && spectral.spectralFlatness < 0.35;
+      screamFrames = [...screamFrames, screamFrame].slice(-SCREAM_WINDOW);
+      const screamDetected = screamFrames.filter(Boolean).length >= SCREAM_MIN_FRAMES;
+
+      // Impact: a broadband transient far above the recent loudness baseline
+      const baseline = median(rmsHistory);
+      const impactDetected = rmsHistory.length >= 10
+        && rms > Math.max(0.05, baseline * 4)
+        && peak > 0.6
+        && spectral.spectralFlatness > 0.3;
+
+      rmsHistory = [...rmsHistory, rms].slice(-BASELINE_FRAMES);
+      const silent = Math.max(...rmsHistory) < 0.01;
+
+      if (screamDetected) lastScreamAt = now;
+      if (impactDetected) lastImpactAt = now;
+
+      const loudness = Math.min(30, rms * 150);
+      const distressScore = Math.round(Math.min(100,
+        loudness + 50 * decay(lastScreamAt, now) + 35 * decay(lastImpactAt, now)
+      ));
+
+      latest = {
+        timestamp: now,
+        rms,
+        peak,
+        pitchHz,
+        ...spectral,
+        zeroCrossingRate: zcr,
+        silent,
+        screamDetected,
+        impactDetected,
+        distressScore,
+      };
+
+      if ((screamDetected || impactDetected) && now - lastNotifiedAt >= debounceMs) {
+        lastNotifiedAt = now;
+        onDistress?.(latest);
+      }
+      return latest;
+    },
+    getLatest: () => latest,
+    reset: () => {
+      rmsHistory = [];
+      screamFrames = [];
+      lastScreamAt = -Infinity;
+      lastImpactAt = -Infinity;
+      latest = null;
+    },
+  };
+};
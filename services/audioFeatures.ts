@@ -0,0 +1,94 @@
+/**
+ * Root-mean-square loudness of a time-domain buffer (samples in -1..1).
+ */
+export const computeRms = (samples: Float32Array): number => {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+};
+
+export const computePeak = (samples: Float32Array): number => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.abs(samples[i]);
+    if (v > peak) peak = v;
+  }
+  return peak;
+};
+
+/**
+ * Fundamental frequency estimate using autocorrelation.
+ * Returns null for silence or when no clear periodicity is found.
+ * Search range covers human voice up to screaming (~70Hz - 1500Hz).
+ */
+export const estimatePitch = (samples: Float32Array, sampleRate: number): number | null => {
+  if (computeRms(samples) < 0.01) return null;
+
+  const minLag = Math.floor(sampleRate / 1500);
+  const maxLag = Math.min(Math.floor(sampleRate / 70), samples.length - 1);
+
+  let bestLag = -1;
+  let bestCorr = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let corr = 0;
+    for (let i = 0; i < samples.length - lag; i++) {
+      corr += samples[i] * samples[i + lag];
+    }
+    corr /= samples.length - lag;
+    if (corr > bestCorr) {
+      bestCorr = corr;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag <= 0) return null;
+  return sampleRate / bestLag;
+};
+
+export const zeroCrossingRate = (samples: Float32Array): number => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++;
+  }
+  return samples.length > 1 ? crossings / (samples.length - 1) : 0;
+};
+
+/**
+ * Spectral shape from an AnalyserNode's getFloatFrequencyData (dB per bin).
+ */
+export const spectralFeatures = (spectrumDb: Float32Array, sampleRate: number) => {
+  const binHz = sampleRate / 2 / spectrumDb.length;
+  let total = 0;
+  let weighted = 0;
+  let logSum = 0;
+  const magnitudes = new Float32Array(spectrumDb.length);
+  for (let i = 0; i < spectrumDb.length; i++) {
+    const mag = Number.isFinite(spectrumDb[i]) ? Math.pow(10, spectrumDb[i] / 20) : 0;
+    magnitudes[i] = mag;
+    total += mag;
+    weighted += mag * i * binHz;
+    logSum += Math.log(mag + 1e-12);
+  }
+  if (total === 0) return { spectralCentroidHz: 0, spectralRolloffHz: 0, spectralFlatness: 0 };
+
+  let cumulative = 0;
+  let rolloffBin = magnitudes.length - 1;
+  for (let i = 0; i < magnitudes.length; i++) {
+    cumulative += magnitudes[i];
+    if (cumulative >= total * 0.85) {
+      rolloffBin = i;
+      break;
+    }
+  }
+
+  const geometricMean = Math.exp(logSum / magnitudes.length);
+  const arithmeticMean = total / magnitudes.length;
+  return {
+    spectralCentroidHz: weighted / total,
+    spectralRolloffHz: rolloffBin * binHz,
+    spectralFlatness: Math.min(1, geometricMean / arithmeticMean),
+  };
+};
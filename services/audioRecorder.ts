@@ -0,0 +1,178 @@
+/**
+ * Rolling microphone recorder.
+ *
+ * MediaRecorder only writes the webm header into the first chunk of a
+ * recording, so chunks cut out of a long recording are not playable on their
+ * own. Instead the recorder is rotated every `segmentMs`: each segment is a
+ * complete, decodable file, and the ring keeps just enough segments to cover
+ * the pre-roll window. Clips spanning several segments are decoded and
+ * re-encoded as a single WAV file.
+ */
+
+export interface AudioSegment {
+  blob: Blob;
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface AudioClip {
+  blob: Blob;
+  mimeType: string;
+  startedAt: number;
+  endedAt: number;
+  segmentCount: number;
+}
+
+export interface RollingRecorderOptions {
+  segmentMs?: number; // length of each self-contained recording
+  preRollMs?: number; // history kept in the ring
+  mimeType?: string;
+  clipSampleRate?: number; // sample rate of merged WAV clips
+}
+
+export interface RollingRecorder {
+  getLatestSegment: () => AudioSegment | null;
+  getSegments: () => AudioSegment[];
+  freezePreRoll: () => Promise<AudioClip | null>;
+  // Takes effect at the next segment; a longer history fills up from now on
+  setPreRollMs: (ms: number) => void;
+  stop: () => Promise<void>;
+}
+
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * 16-bit PCM mono WAV.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+  };
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: "audio/wav" });
+};
+
+/**
+ * Decodes each segment (resampled to `sampleRate`, mixed to mono) and joins
+ * them into one WAV. Segments that fail to decode are skipped.
+ */
+export const mergeSegmentsToWav = async (segments: AudioSegment[], sampleRate: number): Promise<AudioClip | null> => {
+  const decoder = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded: { segment: AudioSegment; samples: Float32Array }[] = [];
+  for (const segment of segments) {
+    try {
+      const audio = await decoder.decodeAudioData(await segment.blob.arrayBuffer());
+      const mono = new Float32Array(audio.length);
+      for (let c = 0; c < audio.numberOfChannels; c++) {
+        const channel = audio.getChannelData(c);
+        for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / audio.numberOfChannels;
+      }
+      decoded.push({ segment, samples: mono });
+    } catch (error) {
+      console.error("Audio segment decode error:", error);
+    }
+  }
+  if (decoded.length === 0) return null;
+
+  const joined = new Float32Array(decoded.reduce((n, d) => n + d.samples.length, 0));
+  let offset = 0;
+  decoded.forEach(({ samples }) => {
+    joined.set(samples, offset);
+    offset += samples.length;
+  });
+  return {
+    blob: encodeWav(joined, sampleRate),
+    mimeType: "audio/wav",
+    startedAt: decoded[0].segment.startedAt,
+    endedAt: decoded[decoded.length - 1].segment.endedAt,
+    segmentCount: decoded.length,
+  };
+};
+
+export const createRollingRecorder = (stream: MediaStream, options: RollingRecorderOptions = {}): RollingRecorder => {
+  const { segmentMs = 5000, mimeType = "audio/webm", clipSampleRate = 16000 } = options;
+  let preRollMs = options.preRollMs ?? 30000;
+
+  let segments: AudioSegment[] = [];
+  let current: { recorder: MediaRecorder; done: Promise<AudioSegment | null> } | null = null;
+  let stopped = false;
+
+  // Drop segments that ended before the pre-roll window
+  const prune = (list: AudioSegment[]) => {
+    const newest = list[list.length - 1]?.endedAt ?? 0;
+    return list.filter((s) => s.endedAt > newest - preRollMs);
+  };
+
+  const startSegment = () => {
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    const done = new Promise<AudioSegment | null>((resolve) => {
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        if (chunks.length === 0) return resolve(null);
+        const segment = { blob: new Blob(chunks, { type: mimeType }), startedAt, endedAt: Date.now() };
+        segments = prune([...segments, segment]);
+        resolve(segment);
+      };
+    });
+    recorder.start();
+    return { recorder, done };
+  };
+
+  // Start the next segment before closing the current one so there is no gap
+  const rotate = (): Promise<AudioSegment | null> => {
+    const previous = current;
+    current = stopped ? null : startSegment();
+    if (!previous) return Promise.resolve(null);
+    if (previous.recorder.state !== "inactive") previous.recorder.stop();
+    return previous.done;
+  };
+
+  current = startSegment();
+  const timer = setInterval(rotate, segmentMs);
+
+  return {
+    getLatestSegment: () => segments[segments.length - 1] ?? null,
+    getSegments: () => segments,
+    // Closes the running segment so the clip reaches right up to now
+    freezePreRoll: async () => {
+      await rotate();
+      return mergeSegmentsToWav(segments, clipSampleRate);
+    },
+    setPreRollMs: (ms) => {
+      preRollMs = ms;
+    },
+    stop: async () => {
+      stopped = true;
+      clearInterval(timer);
+      await rotate();
+    },
+  };
+};
@@ -0,0 +1,33 @@
+import { AlertChannel, EmergencyContact } from "../types";
+import { loadJson, saveJson } from "./storage";
+
+const STORAGE_KEY = "sheshield.contacts";
+
+export const loadContacts = (): EmergencyContact[] => loadJson<EmergencyContact[]>(STORAGE_KEY, []);
+
+export const saveContacts = (contacts: EmergencyContact[]): void => saveJson(STORAGE_KEY, contacts);
+
+/**
+ * Contacts to alert at a given escalation tier, lowest tier first.
+ */
+export const contactsForTier = (contacts: EmergencyContact[], maxTier: number): EmergencyContact[] =>
+  contacts.filter((c) => c.tier <= maxTier).sort((a, b) => a.tier - b.tier);
+
+// Address for a channel, or null when the contact cannot be reached that way
+export const contactAddress = (contact: EmergencyContact, channel: AlertChannel): string | null => {
+  switch (channel) {
+    case "sms": return contact.phone || null;
+    case "email": return contact.email || null;
+    case "webhook": return contact.webhookUrl || null;
+    case "share": return contact.name;
+  }
+};
+
+export const validateContact = (contact: Omit<EmergencyContact, "id">): string | null => {
+  if (!contact.name.trim()) return "Name is required";
+  if (!contact.phone && !contact.email && !contact.webhookUrl) return "Add a phone, email or webhook";
+  if (contact.preferredChannel !== "share" && !contactAddress({ ...contact, id: "" }, contact.preferredChannel)) {
+    return `No ${contact.preferredChannel} address for the preferred channel`;
+  }
+  return null;
+};
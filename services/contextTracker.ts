@@ -0,0 +1,183 @@
+import { ContextFactors, LocationData, MovementContext, MovementPattern } from "../types";
+import { bearingDegrees, distanceMeters, headingDelta, LatLng } from "./geo";
+
+// Speed bands (m/s)
+const STATIONARY_MAX = 0.4;
+const WALKING_MAX = 2.5;
+const RUNNING_MAX = 6.5;
+
+const STOP_RADIUS_M = 15;
+const LOITER_WINDOW_MS = 3 * 60 * 1000;
+const LOITER_MIN_PATH_M = 60;
+const LOITER_MAX_DISPLACEMENT_M = 30;
+const ACCELERATION_WINDOW_MS = 15 * 1000;
+const MAJOR_DEVIATION_DEG = 120;
+const MINOR_DEVIATION_DEG = 60;
+
+export interface ContextTracker {
+  addFix: (fix: LocationData) => void;
+  getTrace: () => LocationData[];
+  getLatest: () => LocationData | null;
+  getMovement: (now?: number) => MovementContext;
+  getContextFactors: (now?: number) => ContextFactors;
+  reset: () => void;
+}
+
+const toLatLng = (fix: LocationData): LatLng => ({ lat: fix.latitude, lng: fix.longitude });
+
+export const timeRiskForHour = (hour: number): string => {
+  if (hour >= 22 || hour < 5) return "high";
+  if (hour >= 20 || hour < 6) return "medium";
+  return "low";
+};
+
+/**
+ * Rolling GPS trace fed by watchPosition. Derives speed, heading, stops,
+ * loitering and sudden accelerations so the fusion engine receives measured
+ * context instead of placeholders.
+ */
+export const createContextTracker = (
+  windowMs: number = 10 * 60 * 1000,
+  maxFixes: number = 600
+): ContextTracker => {
+  let trace: LocationData[] = [];
+
+  // Speed between consecutive fixes, preferring the GPS-reported value
+  const speedAt = (i: number): number | null => {
+    const fix = trace[i];
+    if (fix.speed !== undefined && fix.speed !== null && !Number.isNaN(fix.speed)) return fix.speed;
+    if (i === 0) return null;
+    const prev = trace[i - 1];
+    const dt = (fix.timestamp - prev.timestamp) / 1000;
+    if (dt < 1) return null;
+    return distanceMeters(toLatLng(prev), toLatLng(fix)) / dt;
+  };
+
+  // Median of the last few samples smooths out GPS jitter
+  const smoothedSpeed = (endIndex: number, samples = 3): number | null => {
+    const values: number[] = [];
+    for (let i = endIndex; i >= 0 && values.length < samples; i--) {
+      const v = speedAt(i);
+      if (v !== null) values.push(v);
+    }
+    if (values.length === 0) return null;
+    values.sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  };
+
+  const headingOver = (from: LocationData, to: LocationData): number | null => {
+    if (distanceMeters(toLatLng(from), toLatLng(to)) < 10) return null;
+    return bearingDegrees(toLatLng(from), toLatLng(to));
+  };
+
+  const indexAtOrAfter = (timestamp: number): number => {
+    const idx = trace.findIndex((f) => f.timestamp >= timestamp);
+    return idx === -1 ? trace.length - 1 : idx;
+  };
+
+  const getMovement = (now: number = Date.now()): MovementContext => {
+    const n = trace.length;
+    if (n === 0) {
+      return { pattern: "unknown", speedMps: null, headingDeg: null, stoppedForMs: 0, suddenAcceleration: false, headingChangeDeg: null, fixCount: 0 };
+    }
+
+    const latest = trace[n - 1];
+    const speed = smoothedSpeed(n - 1);
+
+    // Current heading over the last ~30s, established heading over the window before that
+    const recentStart = trace[indexAtOrAfter(latest.timestamp - 30 * 1000)];
+    // Browsers report a NaN heading while stationary; fall back to the track as speedAt does
+    const reported = latest.heading;
+    const headingDeg = typeof reported === "number" && Number.isFinite(reported) ? reported : headingOver(recentStart, latest);
+    const earlierEnd = trace[Math.max(0, indexAtOrAfter(latest.timestamp - 30 * 1000) - 1)];
+    const earlierStart = trace[indexAtOrAfter(latest.timestamp - 3 * 60 * 1000)];
+    const establishedHeading = earlierStart !== earlierEnd ? headingOver(earlierStart, earlierEnd) : null;
+    const headingChangeDeg = headingDeg !== null && establishedHeading !== null
+      ? Math.abs(headingDelta(establishedHeading, headingDeg))
+      : null;
+
+    // Stop duration: how long every fix has stayed within STOP_RADIUS_M of the latest one
+    let stoppedSince = latest.timestamp;
+    for (let i = n - 1; i >= 0; i--) {
+      if (distanceMeters(toLatLng(trace[i]), toLatLng(latest)) > STOP_RADIUS_M) break;
+      stoppedSince = trace[i].timestamp;
+    }
+    const isStopped = speed !== null ? speed < STATIONARY_MAX : latest.timestamp - stoppedSince > 30 * 1000;
+    const stoppedForMs = isStopped ? now - stoppedSince : 0;
+
+    // Sudden acceleration: slow -> vehicle speed within a short window
+    let suddenAcceleration = false;
+    if (speed !== null && speed > RUNNING_MAX) {
+      for (let i = n - 2; i >= 0 && latest.timestamp - trace[i].timestamp <= ACCELERATION_WINDOW_MS; i--) {
+        const earlier = smoothedSpeed(i, 2);
+        if (earlier !== null && earlier < WALKING_MAX) {
+          suddenAcceleration = true;
+          break;
+        }
+      }
+    }
+
+    // Loitering: lots of walking but going nowhere
+    const loiterStart = indexAtOrAfter(latest.timestamp - LOITER_WINDOW_MS);
+    let pathLength = 0;
+    for (let i = loiterStart + 1; i < n; i++) {
+      pathLength += distanceMeters(toLatLng(trace[i - 1]), toLatLng(trace[i]));
+    }
+    const displacement = distanceMeters(toLatLng(trace[loiterStart]), toLatLng(latest));
+    const coversWindow = latest.timestamp - trace[loiterStart].timestamp >= LOITER_WINDOW_MS * 0.8;
+    const loitering = coversWindow && pathLength >= LOITER_MIN_PATH_M && displacement <= LOITER_MAX_DISPLACEMENT_M;
+
+    let pattern: MovementPattern = "unknown";
+    if (loitering) pattern = "loitering";
+    else if (speed === null) pattern = isStopped ? "stationary" : "unknown";
+    else if (speed < STATIONARY_MAX) pattern = "stationary";
+    else if (speed < WALKING_MAX) pattern = "walking";
+    else if (speed < RUNNING_MAX) pattern = "running";
+    else pattern = "vehicle";
+
+    return { pattern, speedMps: speed, headingDeg, stoppedForMs, suddenAcceleration, headingChangeDeg, fixCount: n };
+  };
+
+  const getContextFactors = (now: number = Date.now()): ContextFactors => {
+    const movement = getMovement(now);
+
+    let movementPattern: string = movement.pattern;
+    if (movement.suddenAcceleration) movementPattern = "sudden_acceleration";
+    else if (movement.pattern === "stationary" && movement.stoppedForMs > 60 * 1000) {
+      movementPattern = `stopped_${Math.round(movement.stoppedForMs / 60000)}min`;
+    }
+
+    let routeDeviation = "none";
+    if (movement.headingChangeDeg !== null) {
+      if (movement.headingChangeDeg >= MAJOR_DEVIATION_DEG) routeDeviation = `major (heading changed ${Math.round(movement.headingChangeDeg)}°)`;
+      else if (movement.headingChangeDeg >= MINOR_DEVIATION_DEG) routeDeviation = `minor (heading changed ${Math.round(movement.headingChangeDeg)}°)`;
+    } else if (movement.fixCount < 3) {
+      routeDeviation = "unknown (insufficient GPS history)";
+    }
+
+    return {
+      time_risk: timeRiskForHour(new Date(now).getHours()),
+      location_risk: "unknown",
+      route_deviation: routeDeviation,
+      movement_pattern: movementPattern,
+    };
+  };
+
+  return {
+    addFix: (fix) => {
+      // Discard out-of-order fixes and trim to the rolling window
+      const last = trace[trace.length - 1];
+      if (last && fix.timestamp <= last.timestamp) return;
+      trace.push(fix);
+      const cutoff = fix.timestamp - windowMs;
+      trace = trace.filter((f) => f.timestamp >= cutoff).slice(-maxFixes);
+    },
+    getTrace: () => [...trace],
+    getLatest: () => trace[trace.length - 1] ?? null,
+    getMovement,
+    getContextFactors,
+    reset: () => {
+      trace = [];
+    },
+  };
+};
@@ -0,0 +1,239 @@
+import { loadJson, saveJson } from "./storage";
+
+const STORAGE_KEY = "sheshield.covertTriggers";
+
+export type CovertTrigger = "codeword" | "shake" | "tap_pattern";
+
+export interface CovertTriggerConfig {
+  codeword: string; // spoken phrase that silently starts the escalation
+  safeWord: string; // spoken phrase that stands a false alarm down
+  shake: boolean;
+  tapPattern: boolean;
+}
+
+export const DEFAULT_COVERT_TRIGGERS: CovertTriggerConfig = {
+  codeword: "",
+  safeWord: "",
+  shake: false,
+  tapPattern: false,
+};
+
+export const loadCovertTriggers = (): CovertTriggerConfig => ({
+  ...DEFAULT_COVERT_TRIGGERS,
+  ...loadJson<Partial<CovertTriggerConfig>>(STORAGE_KEY, {}),
+});
+
+export const saveCovertTriggers = (config: CovertTriggerConfig): void => saveJson(STORAGE_KEY, config);
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").replace(/\s+/g, " ").trim();
+
+/**
+ * Whole-word, case- and punctuation-insensitive phrase match.
+ */
+export const containsPhrase = (text: string, phrase: string): boolean => {
+  const needle = normalize(phrase);
+  return needle.length > 0 && ` ${normalize(text)} `.includes(` ${needle} `);
+};
+
+/**
+ * Checks transcribed speech (a keyword list from the fusion engine or the
+ * local spotter's transcript) for the codeword and the safe word. The safe
+ * word wins when both are heard.
+ */
+export const matchSpokenTrigger = (
+  heard: string | string[],
+  config: Pick<CovertTriggerConfig, "codeword" | "safeWord">
+): "codeword" | "safe_word" | null => {
+  const texts = Array.isArray(heard) ? heard : [heard];
+  if (texts.some((t) => containsPhrase(t, config.safeWord))) return "safe_word";
+  if (texts.some((t) => containsPhrase(t, config.codeword))) return "codeword";
+  return null;
+};
+
+/**
+ * 1. SHAKE
+ * Counts strong acceleration peaks; several within a short window is a
+ * deliberate shake rather than walking or a dropped phone.
+ */
+export interface ShakeOptions {
+  thresholdMs2?: number; // acceleration magnitude (gravity removed) that counts as a peak
+  peaks?: number;
+  windowMs?: number;
+  peakGapMs?: number; // samples closer than this belong to the same peak
+  cooldownMs?: number;
+  onShake: () => void;
+}
+
+export interface ShakeDetector {
+  process: (acceleration: { x: number | null; y: number | null; z: number | null }, now?: number) => boolean;
+  reset: () => void;
+}
+
+export const createShakeDetector = (options: ShakeOptions): ShakeDetector => {
+  const { thresholdMs2 = 18, peaks = 4, windowMs = 1500, peakGapMs = 120, cooldownMs = 10000, onShake } = options;
+  let peakTimes: number[] = [];
+  let lastFiredAt = -Infinity;
+
+  return {
+    process: ({ x, y, z }, now = Date.now()) => {
+      const magnitude = Math.hypot(x ?? 0, y ?? 0, z ?? 0);
+      if (magnitude < thresholdMs2) return false;
+      const lastPeak = peakTimes[peakTimes.length - 1];
+      if (lastPeak !== undefined && now - lastPeak < peakGapMs) return false;
+      peakTimes = [...peakTimes.filter((t) => now - t <= windowMs), now];
+      if (peakTimes.length < peaks || now - lastFiredAt < cooldownMs) return false;
+      peakTimes = [];
+      lastFiredAt = now;
+      onShake();
+      return true;
+    },
+    reset: () => {
+      peakTimes = [];
+    },
+  };
+};
+
+/**
+ * iOS only delivers motion events after a permission request made from a user
+ * gesture, so call this from a click handler. Other browsers resolve true.
+ */
+export const requestMotionPermission = async (): Promise<boolean> => {
+  if (typeof DeviceMotionEvent === "undefined") return false;
+  const requestPermission = (DeviceMotionEvent as unknown as { requestPermission?: () => Promise<string> }).requestPermission;
+  if (!requestPermission) return true;
+  try {
+    return (await requestPermission()) === "granted";
+  } catch (error) {
+    console.error("Motion permission error:", error);
+    return false;
+  }
+};
+
+// Returns a function that removes the listener
+export const listenForShake = (detector: ShakeDetector): (() => void) => {
+  const handler = (event: DeviceMotionEvent) => {
+    if (event.acceleration) detector.process(event.acceleration);
+  };
+  window.addEventListener("devicemotion", handler);
+  return () => window.removeEventListener("devicemotion", handler);
+};
+
+/**
+ * 2. TAP PATTERN
+ * A burst of quick taps on the screen outside controls. Ordinary use rarely
+ * produces five taps less than 400ms apart, but typing on the calculator
+ * disguise or a keypad can, so those taps never count.
+ */
+export interface TapPatternOptions {
+  taps?: number;
+  maxGapMs?: number;
+  onPattern: () => void;
+}
+
+export interface TapPatternDetector {
+  tap: (now?: number) => boolean;
+  reset: () => void;
+}
+
+export const createTapPatternDetector = (options: TapPatternOptions): TapPatternDetector => {
+  const { taps = 5, maxGapMs = 400, onPattern } = options;
+  let count = 0;
+  let lastTapAt = -Infinity;
+
+  return {
+    tap: (now = Date.now()) => {
+      count = now - lastTapAt <= maxGapMs ? count + 1 : 1;
+      lastTapAt = now;
+      if (count < taps) return false;
+      count = 0;
+      onPattern();
+      return true;
+    },
+    reset: () => {
+      count = 0;
+      lastTapAt = -Infinity;
+    },
+  };
+};
+
+// Taps inside these never count towards the pattern
+const TAP_IGNORED = "[data-covert-taps-ignored], button, input, textarea, select, a, label";
+
+// Returns a function that removes the listener
+export const listenForTaps = (detector: TapPatternDetector): (() => void) => {
+  const handler = (event: PointerEvent) => {
+    if (event.target instanceof Element && event.target.closest(TAP_IGNORED)) return;
+    detector.tap();
+  };
+  document.addEventListener("pointerdown", handler);
+  return () => document.removeEventListener("pointerdown", handler);
+};
+
+/**
+ * 3. KEYWORD SPOTTER
+ * Continuous browser speech recognition between analysis ticks, so the
+ * codeword works even while the cloud model is slow or unreachable.
+ * Returns null where the Web Speech API is missing.
+ */
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+export interface KeywordSpotter {
+  start: () => void;
+  stop: () => void;
+}
+
+export const createKeywordSpotter = (onTranscript: (text: string) => void, lang = navigator.language): KeywordSpotter | null => {
+  const speechWindow = window as unknown as Record<string, (new () => SpeechRecognitionLike) | undefined>;
+  const Recognition = speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+  if (!Recognition) return null;
+
+  let running = false;
+  let recognition: SpeechRecognitionLike | null = null;
+
+  const listen = () => {
+    const r = new Recognition();
+    r.continuous = true;
+    r.interimResults = true;
+    r.lang = lang;
+    r.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) onTranscript(event.results[i][0].transcript);
+    };
+    r.onerror = (event) => {
+      // Routine errors ("no-speech", "network") just restart; a refused microphone stops for good
+      if (event.error === "not-allowed" || event.error === "service-not-allowed") running = false;
+    };
+    // Browsers end recognition after a pause; restart for as long as we are running
+    r.onend = () => {
+      if (running) listen();
+    };
+    recognition = r;
+    try {
+      r.start();
+    } catch (error) {
+      console.error("Keyword spotter error:", error);
+      running = false;
+    }
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      listen();
+    },
+    stop: () => {
+      running = false;
+      recognition?.stop();
+      recognition = null;
+    },
+  };
+};
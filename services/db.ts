@@ -0,0 +1,69 @@
+/**
+ * Shared IndexedDB connection for durable on-device data.
+ * Bump DB_VERSION and extend upgrade() when adding object stores.
+ */
+const DB_NAME = "sheshield";
+const DB_VERSION = 2;
+
+export const STORES = {
+  sessions: "sessions",
+  incidents: "incidents",
+  evidence: "evidence",
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.sessions, { keyPath: "id" });
+    const incidents = db.createObjectStore(STORES.incidents, { keyPath: "id" });
+    incidents.createIndex("sessionId", "sessionId");
+    incidents.createIndex("timestamp", "timestamp");
+  }
+  if (oldVersion < 2) {
+    const evidence = db.createObjectStore(STORES.evidence, { keyPath: "id" });
+    evidence.createIndex("sessionId", "sessionId");
+    evidence.createIndex("sequence", "sequence", { unique: true });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run fn inside a transaction and resolve once the transaction commits.
+ */
+export const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+};
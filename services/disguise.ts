@@ -0,0 +1,109 @@
+import { sha256Hex } from "./evidenceVault";
+import { loadJson, saveJson } from "./storage";
+
+const STORAGE_KEY = "sheshield.disguise";
+
+/**
+ * PINs are stored as salted SHA-256 hashes, so they are never in clear text.
+ * The salt is stored beside them and a 4-8 digit PIN can be brute-forced
+ * quickly, so this does not stop someone with access to localStorage from
+ * telling the unlock PIN from the duress PIN.
+ */
+export interface DisguiseConfig {
+  salt: string;
+  pinHash: string | null;
+  duressPinHash: string | null;
+  startDisguised: boolean; // open the app straight into the calculator
+}
+
+export type PinCheck = "unlock" | "duress" | "wrong";
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+const newSalt = () => Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+
+export const loadDisguiseConfig = (): DisguiseConfig => {
+  const stored = loadJson<Partial<DisguiseConfig>>(STORAGE_KEY, {});
+  return {
+    salt: stored.salt ?? newSalt(),
+    pinHash: stored.pinHash ?? null,
+    duressPinHash: stored.duressPinHash ?? null,
+    startDisguised: stored.startDisguised ?? false,
+  };
+};
+
+export const saveDisguiseConfig = (config: DisguiseConfig): void => saveJson(STORAGE_KEY, config);
+
+export const hashPin = (pin: string, salt: string): Promise<string> =>
+  sha256Hex(new TextEncoder().encode(`${salt}:${pin}`));
+
+export const isDisguiseReady = (config: DisguiseConfig): boolean => config.pinHash !== null;
+
+/**
+ * Sets both PINs at once; they must be 4-8 digits and differ from each other.
+ * An empty duress PIN disables it.
+ */
+export const withPins = async (config: DisguiseConfig, pin: string, duressPin: string): Promise<DisguiseConfig> => {
+  if (!PIN_PATTERN.test(pin)) throw new Error("The PIN must be 4 to 8 digits.");
+  if (duressPin && !PIN_PATTERN.test(duressPin)) throw new Error("The duress PIN must be 4 to 8 digits.");
+  if (duressPin === pin) throw new Error("The duress PIN must differ from the unlock PIN.");
+  const salt = newSalt();
+  return {
+    ...config,
+    salt,
+    pinHash: await hashPin(pin, salt),
+    duressPinHash: duressPin ? await hashPin(duressPin, salt) : null,
+  };
+};
+
+export const checkPin = async (pin: string, config: DisguiseConfig): Promise<PinCheck> => {
+  const hash = await hashPin(pin, config.salt);
+  if (hash === config.pinHash) return "unlock";
+  if (hash === config.duressPinHash) return "duress";
+  return "wrong";
+};
+
+/**
+ * Calculator arithmetic for the disguise shell: + - × ÷ with the usual
+ * precedence, evaluated left to right. Returns null for malformed input.
+ */
+export const evaluateExpression = (expression: string): number | null => {
+  const tokens = expression.replace(/×/g, "*").replace(/÷/g, "/").match(/\d+\.?\d*|\.\d+|[+\-*/]/g);
+  if (!tokens || tokens.join("") !== expression.replace(/×/g, "*").replace(/÷/g, "/").replace(/\s/g, "")) return null;
+
+  // Fold * and / first, then + and -
+  const terms: (number | string)[] = [];
+  let expectNumber = true;
+  for (const token of tokens) {
+    const isOperator = /^[+\-*/]$/.test(token);
+    if (isOperator === expectNumber) {
+      // A leading minus is a sign, anything else out of place is an error
+      if (token === "-" && expectNumber && terms.length === 0) {
+        terms.push(0, "-");
+        continue;
+      }
+      return null;
+    }
+    expectNumber = isOperator;
+    if (isOperator) {
+      terms.push(token);
+      continue;
+    }
+    const value = Number(token);
+    const op = terms[terms.length - 1];
+    if (op === "*" || op === "/") {
+      terms.pop();
+      const left = terms.pop() as number;
+      terms.push(op === "*" ? left * value : left / value);
+    } else {
+      terms.push(value);
+    }
+  }
+  if (expectNumber) return null;
+
+  let result = terms[0] as number;
+  for (let i = 1; i < terms.length; i += 2) {
+    result = terms[i] === "+" ? result + (terms[i + 1] as number) : result - (terms[i + 1] as number);
+  }
+  return Number.isFinite(result) ? result : null;
+};
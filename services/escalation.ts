@@ -0,0 +1,255 @@
+/**
+ * Escalation controller driven by the fusion engine's recommended_action.
+ *
+ * Pure state machine: no DOM or React access. Timers and the clock are
+ * injected so it can be driven deterministically outside the browser.
+ *
+ *   idle ──ask──▶ confirming ──timeout──▶ notifying ▶ recording ▶ streaming ▶ emergency
+ *     ▲              │ "I'm OK"                  │ requestCancel
+ *     └──────────────┘                           ▼
+ *     ◀──────────── confirmCancel ───────── cancel_pending ──abort/timeout──▶ (previous)
+ *     ◀──────────── standDown (safe word, from any state) ──────────┘
+ */
+
+export const ESCALATION_LADDER = [
+  "none",
+  "ask_user_confirmation",
+  "notify_contacts",
+  "start_audio_recording",
+  "start_video_stream",
+  "full_emergency_mode",
+] as const;
+
+export type EscalationAction = typeof ESCALATION_LADDER[number];
+
+export type EscalationState =
+  | "idle"
+  | "confirming"
+  | "notifying"
+  | "recording"
+  | "streaming"
+  | "emergency"
+  | "cancel_pending";
+
+// Side effects the host app must carry out
+export type EscalationEffect =
+  | "prompt_user"
+  | "dismiss_prompt"
+  | "notify_contacts"
+  | "start_audio_recording"
+  | "start_video_stream"
+  | "full_emergency_mode"
+  | "stand_down";
+
+export interface EscalationTransition {
+  from: EscalationState;
+  to: EscalationState;
+  reason: string;
+  at: number;
+}
+
+export interface EscalationSnapshot {
+  state: EscalationState;
+  rung: number; // index into ESCALATION_LADDER reached so far
+  deadline: number | null; // when the current countdown expires
+  silent: boolean; // covert escalation: no visible prompts
+  startedAt: number | null;
+  history: EscalationTransition[];
+}
+
+export interface EscalationTimers {
+  now: () => number;
+  setTimeout: (fn: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export interface EscalationOptions {
+  confirmTimeoutMs?: number; // "Are you OK?" countdown
+  cancelWindowMs?: number; // time allowed to confirm a cancel request
+  snoozeMs?: number; // after "I'm OK", ignore further prompts for this long
+  timers?: EscalationTimers;
+  onChange?: (snapshot: EscalationSnapshot) => void;
+  onEffect?: (effect: EscalationEffect, snapshot: EscalationSnapshot) => void;
+}
+
+export interface EscalationController {
+  getSnapshot: () => EscalationSnapshot;
+  handleRecommendation: (action: string) => void;
+  trigger: (action: EscalationAction, options?: { silent?: boolean; reason?: string }) => void;
+  confirmSafe: () => void;
+  requestCancel: () => void;
+  confirmCancel: () => void;
+  abortCancel: () => void;
+  standDown: (reason: string) => void;
+  reset: () => void;
+}
+
+const STATE_FOR_RUNG: Record<number, EscalationState> = {
+  0: "idle",
+  1: "confirming",
+  2: "notifying",
+  3: "recording",
+  4: "streaming",
+  5: "emergency",
+};
+
+// Effects performed when a rung is first reached (rungs are cumulative)
+const EFFECT_FOR_RUNG: Record<number, EscalationEffect | null> = {
+  0: null,
+  1: "prompt_user",
+  2: "notify_contacts",
+  3: "start_audio_recording",
+  4: "start_video_stream",
+  5: "full_emergency_mode",
+};
+
+const HISTORY_LIMIT = 50;
+
+export const normalizeAction = (action: string): EscalationAction => {
+  const key = action.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return (ESCALATION_LADDER as readonly string[]).includes(key) ? (key as EscalationAction) : "none";
+};
+
+export const actionRung = (action: string): number => ESCALATION_LADDER.indexOf(normalizeAction(action));
+
+const defaultTimers: EscalationTimers = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export const createEscalationController = (options: EscalationOptions = {}): EscalationController => {
+  const {
+    confirmTimeoutMs = 20000,
+    cancelWindowMs = 15000,
+    snoozeMs = 60000,
+    timers = defaultTimers,
+    onChange,
+    onEffect,
+  } = options;
+
+  let snapshot: EscalationSnapshot = { state: "idle", rung: 0, deadline: null, silent: false, startedAt: null, history: [] };
+  let timer: unknown = null;
+  let snoozedUntil = 0;
+  let stateBeforeCancel: EscalationState | null = null;
+
+  const clearTimer = () => {
+    if (timer !== null) timers.clearTimeout(timer);
+    timer = null;
+  };
+
+  const emit = (effect: EscalationEffect) => onEffect?.(effect, snapshot);
+
+  const transition = (to: EscalationState, reason: string, patch: Partial<EscalationSnapshot> = {}) => {
+    const entry: EscalationTransition = { from: snapshot.state, to, reason, at: timers.now() };
+    snapshot = { ...snapshot, ...patch, state: to, history: [...snapshot.history, entry].slice(-HISTORY_LIMIT) };
+    onChange?.(snapshot);
+  };
+
+  // Climb to the target rung, firing every effect not yet performed
+  const climbTo = (rung: number, reason: string, silent: boolean) => {
+    if (rung <= snapshot.rung && snapshot.state !== "idle") return;
+    clearTimer();
+    const from = snapshot.state === "idle" ? 0 : snapshot.rung + 1;
+    const startedAt = snapshot.startedAt ?? timers.now();
+
+    if (rung === 1) {
+      if (silent) return; // covert triggers never show the prompt; they start at notify
+      const deadline = timers.now() + confirmTimeoutMs;
+      transition("confirming", reason, { rung: 1, deadline, silent, startedAt });
+      emit("prompt_user");
+      timer = timers.setTimeout(() => {
+        timer = null;
+        climbTo(2, "No response to safety check", snapshot.silent);
+      }, confirmTimeoutMs);
+      return;
+    }
+
+    if (snapshot.state === "confirming") emit("dismiss_prompt");
+    transition(STATE_FOR_RUNG[rung], reason, { rung, deadline: null, silent: snapshot.silent || silent, startedAt });
+    for (let r = Math.max(2, from); r <= rung; r++) {
+      const effect = EFFECT_FOR_RUNG[r];
+      if (effect) emit(effect);
+    }
+  };
+
+  const reset = () => {
+    clearTimer();
+    stateBeforeCancel = null;
+    snapshot = { state: "idle", rung: 0, deadline: null, silent: false, startedAt: null, history: snapshot.history };
+    onChange?.(snapshot);
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    handleRecommendation: (action) => {
+      const rung = actionRung(action);
+      if (rung === 0 || snapshot.state === "cancel_pending") return;
+      // A recent "I'm OK" suppresses prompts, but not stronger recommendations
+      if (rung === 1 && timers.now() < snoozedUntil) return;
+      climbTo(rung, `Engine recommended ${normalizeAction(action)}`, false);
+    },
+
+    trigger: (action, { silent = false, reason = "Manual trigger" } = {}) => {
+      const rung = Math.max(silent ? 2 : 1, actionRung(action));
+      if (snapshot.state === "cancel_pending") {
+        clearTimer();
+        stateBeforeCancel = null;
+        snapshot = { ...snapshot, state: STATE_FOR_RUNG[snapshot.rung] };
+      }
+      climbTo(rung, reason, silent);
+    },
+
+    confirmSafe: () => {
+      if (snapshot.state !== "confirming") return;
+      clearTimer();
+      snoozedUntil = timers.now() + snoozeMs;
+      emit("dismiss_prompt");
+      transition("idle", "User confirmed they are OK", { rung: 0, deadline: null, silent: false, startedAt: null });
+    },
+
+    requestCancel: () => {
+      if (snapshot.rung < 2 || snapshot.state === "cancel_pending") return;
+      clearTimer();
+      stateBeforeCancel = snapshot.state;
+      transition("cancel_pending", "User asked to cancel", { deadline: timers.now() + cancelWindowMs });
+      timer = timers.setTimeout(() => {
+        timer = null;
+        const back = stateBeforeCancel ?? "notifying";
+        stateBeforeCancel = null;
+        transition(back, "Cancel not confirmed in time", { deadline: null });
+      }, cancelWindowMs);
+    },
+
+    confirmCancel: () => {
+      if (snapshot.state !== "cancel_pending") return;
+      clearTimer();
+      stateBeforeCancel = null;
+      emit("stand_down");
+      snoozedUntil = timers.now() + snoozeMs;
+      transition("idle", "User confirmed cancel", { rung: 0, deadline: null, silent: false, startedAt: null });
+    },
+
+    abortCancel: () => {
+      if (snapshot.state !== "cancel_pending") return;
+      clearTimer();
+      const back = stateBeforeCancel ?? "notifying";
+      stateBeforeCancel = null;
+      transition(back, "Cancel aborted", { deadline: null });
+    },
+
+    // Immediate cancel without the confirmation window, e.g. a spoken safe word
+    standDown: (reason) => {
+      if (snapshot.state === "idle") return;
+      clearTimer();
+      stateBeforeCancel = null;
+      if (snapshot.state === "confirming") emit("dismiss_prompt");
+      else emit("stand_down");
+      snoozedUntil = timers.now() + snoozeMs;
+      transition("idle", reason, { rung: 0, deadline: null, silent: false, startedAt: null });
+    },
+
+    reset,
+  };
+};
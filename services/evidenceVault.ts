@@ -0,0 +1,187 @@
+import { ChainVerification, EvidenceRecord, EvidenceType, RiskLevel } from "../types";
+import { STORES, requestToPromise, withStores } from "./db";
+import { createId } from "./storage";
+import { createZip, ZipEntry } from "./zip";
+
+const GENESIS_HASH = "0".repeat(64);
+
+export interface EvidenceInput {
+  sessionId: string;
+  type: EvidenceType;
+  mimeType: string;
+  base64: string;
+  capturedAt: string;
+  location?: { lat: number; lng: number };
+  riskLevel: RiskLevel;
+  riskScore: number;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+export const sha256Hex = async (data: BufferSource): Promise<string> => toHex(await crypto.subtle.digest("SHA-256", data));
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Everything except the artifact itself and the chain hash goes into the link
+const chainPayload = (record: Omit<EvidenceRecord, "data" | "chainHash">): string =>
+  JSON.stringify([
+    record.prevHash,
+    record.sha256,
+    record.id,
+    record.sessionId,
+    record.sequence,
+    record.type,
+    record.mimeType,
+    record.capturedAt,
+    record.location ?? null,
+    record.riskLevel,
+    record.riskScore,
+  ]);
+
+const computeChainHash = (record: Omit<EvidenceRecord, "data" | "chainHash">) =>
+  sha256Hex(new TextEncoder().encode(chainPayload(record)));
+
+const getLastRecord = () =>
+  withStores([STORES.evidence], "readonly", async (tx) => {
+    const cursor = await requestToPromise(tx.objectStore(STORES.evidence).index("sequence").openCursor(null, "prev"));
+    return (cursor?.value as EvidenceRecord | undefined) ?? null;
+  });
+
+// Appends are serialised so two captures never claim the same chain position
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * 1. CAPTURE
+ * Stores an artifact and links it into the vault-wide SHA-256 hash chain.
+ */
+export const appendEvidence = (input: EvidenceInput): Promise<EvidenceRecord> => {
+  const task = appendQueue.then(async () => {
+    const bytes = base64ToBytes(input.base64);
+    const last = await getLastRecord();
+    const meta = {
+      id: createId(),
+      sessionId: input.sessionId,
+      sequence: last ? last.sequence + 1 : 0,
+      type: input.type,
+      mimeType: input.mimeType,
+      capturedAt: input.capturedAt,
+      location: input.location,
+      riskLevel: input.riskLevel,
+      riskScore: input.riskScore,
+      sha256: await sha256Hex(bytes),
+      prevHash: last ? last.chainHash : GENESIS_HASH,
+    };
+    const record: EvidenceRecord = { ...meta, data: new Blob([bytes], { type: input.mimeType }), chainHash: await computeChainHash(meta) };
+    await withStores([STORES.evidence], "readwrite", (tx) => requestToPromise(tx.objectStore(STORES.evidence).put(record)));
+    return record;
+  });
+  appendQueue = task.catch(() => undefined);
+  return task;
+};
+
+export const listEvidence = async (sessionId?: string): Promise<EvidenceRecord[]> => {
+  const records = await withStores([STORES.evidence], "readonly", (tx) => {
+    const store = tx.objectStore(STORES.evidence);
+    return requestToPromise<EvidenceRecord[]>(sessionId ? store.index("sessionId").getAll(sessionId) : store.getAll());
+  });
+  return records.sort((a, b) => a.sequence - b.sequence);
+};
+
+/**
+ * 2. VERIFY
+ * Re-hashes every artifact and re-walks the chain. Any edited byte, edited
+ * metadata field, removed or reordered record breaks verification.
+ */
+export const verifyEvidenceChain = async (): Promise<ChainVerification> => {
+  const records = await listEvidence();
+  let prevHash = GENESIS_HASH;
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (record.sequence !== i) return { ok: false, checked: i, brokenAt: record.sequence, problem: "Missing or reordered record" };
+    if (record.prevHash !== prevHash) return { ok: false, checked: i, brokenAt: record.sequence, problem: "Chain link mismatch" };
+    const dataHash = record.redacted ? record.sha256 : await sha256Hex(await record.data.arrayBuffer());
+    if (dataHash !== record.sha256) return { ok: false, checked: i, brokenAt: record.sequence, problem: "Artifact content modified" };
+    const { data: _data, chainHash, ...meta } = record;
+    if ((await computeChainHash(meta)) !== chainHash) return { ok: false, checked: i, brokenAt: record.sequence, problem: "Metadata modified" };
+    prevHash = chainHash;
+  }
+  return { ok: true, checked: records.length };
+};
+
+/**
+ * Deletes a session's artifact bytes but keeps the hashes, so the chain of
+ * other sessions still verifies and the deletion itself stays visible.
+ */
+export const redactSessionEvidence = async (sessionId: string): Promise<number> => {
+  const records = await listEvidence(sessionId);
+  await withStores([STORES.evidence], "readwrite", async (tx) => {
+    const store = tx.objectStore(STORES.evidence);
+    await Promise.all(records.map((record) =>
+      requestToPromise(store.put({ ...record, data: new Blob([], { type: record.mimeType }), redacted: true }))
+    ));
+  });
+  return records.length;
+};
+
+const extensionFor = (mimeType: string) => {
+  if (mimeType.includes("jpeg")) return "jpg";
+  if (mimeType.includes("png")) return "png";
+  if (mimeType.includes("webm")) return "webm";
+  if (mimeType.includes("wav")) return "wav";
+  return "bin";
+};
+
+/**
+ * 3. EXPORT
+ * Zip bundle for authorities: artifacts, a manifest with hashes and chain
+ * links, the chain verification result and (optionally) the incident report.
+ */
+export const exportEvidenceBundle = async (
+  sessionId: string,
+  attachments: { name: string; content: string }[] = []
+): Promise<Blob> => {
+  const records = await listEvidence(sessionId);
+  const verification = await verifyEvidenceChain();
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+
+  const files = await Promise.all(records.map(async (record) => {
+    if (record.redacted) {
+      const { data: _data, ...meta } = record;
+      return { file: null, ...meta };
+    }
+    const name = `evidence/${String(record.sequence).padStart(5, "0")}-${record.type}.${extensionFor(record.mimeType)}`;
+    entries.push({ name, data: new Uint8Array(await record.data.arrayBuffer()), modified: new Date(record.capturedAt) });
+    const { data: _data, ...meta } = record;
+    return { file: name, ...meta };
+  }));
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    generator: "SheShield AI evidence vault",
+    sessionId,
+    hashAlgorithm: "SHA-256",
+    chainRule: "chainHash = SHA-256(JSON [prevHash, sha256, id, sessionId, sequence, type, mimeType, capturedAt, location, riskLevel, riskScore])",
+    vaultVerification: verification,
+    records: files,
+  };
+  entries.push({ name: "manifest.json", data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  attachments.forEach((a) => entries.push({ name: a.name, data: encoder.encode(a.content) }));
+
+  return createZip(entries);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
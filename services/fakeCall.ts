@@ -0,0 +1,99 @@
+import { loadJson, saveJson } from "./storage";
+
+const STORAGE_KEY = "sheshield.fakeCall";
+
+export interface FakeCallConfig {
+  callerName: string;
+  callerLabel: string; // e.g. "mobile", shown under the name
+  voice: "synth" | "recorded" | "none";
+  lines: string[]; // spoken one after another when using the synthesized voice
+  recordedClip?: string; // data URL of a user-supplied recording
+  autoOnSuspicious: boolean;
+}
+
+export const DEFAULT_FAKE_CALL: FakeCallConfig = {
+  callerName: "Mom",
+  callerLabel: "mobile",
+  voice: "synth",
+  lines: [
+    "Hi, where are you right now?",
+    "Okay. I'm just around the corner, I can see the street.",
+    "Stay on the line with me, I'll be there in two minutes.",
+    "Yes, keep walking towards the main road, I'm coming.",
+  ],
+  autoOnSuspicious: false,
+};
+
+// Minimum gap between automatic fake calls so SUSPICIOUS ticks don't spam the user
+export const AUTO_CALL_COOLDOWN_MS = 5 * 60 * 1000;
+
+export const loadFakeCallConfig = (): FakeCallConfig => ({ ...DEFAULT_FAKE_CALL, ...loadJson<Partial<FakeCallConfig>>(STORAGE_KEY, {}) });
+
+export const saveFakeCallConfig = (config: FakeCallConfig): void => saveJson(STORAGE_KEY, config);
+
+/**
+ * Speaks the caller's lines with pauses in between, as if someone were talking.
+ * Returns a stop function.
+ */
+export const speakCallerLines = (lines: string[], pauseMs: number = 3500): (() => void) => {
+  if (typeof speechSynthesis === "undefined" || lines.length === 0) return () => {};
+  let cancelled = false;
+  let timer: number | undefined;
+
+  const speak = (index: number) => {
+    if (cancelled || index >= lines.length) return;
+    const utterance = new SpeechSynthesisUtterance(lines[index]);
+    utterance.rate = 1;
+    utterance.onend = () => {
+      timer = window.setTimeout(() => speak(index + 1), pauseMs);
+    };
+    speechSynthesis.speak(utterance);
+  };
+
+  timer = window.setTimeout(() => speak(0), 1200);
+  return () => {
+    cancelled = true;
+    if (timer !== undefined) clearTimeout(timer);
+    speechSynthesis.cancel();
+  };
+};
+
+/**
+ * Classic two-tone ringtone via Web Audio, plus vibration where supported.
+ * Returns a stop function.
+ */
+export const startRingtone = (): (() => void) => {
+  const vibrate = () => navigator.vibrate?.([800, 400, 800, 1600]);
+  vibrate();
+  const vibrateTimer = window.setInterval(vibrate, 3600);
+
+  let ctx: AudioContext | null = null;
+  let ringTimer: number | undefined;
+  try {
+    ctx = new AudioContext();
+    const audio = ctx;
+    const ring = () => {
+      const gain = audio.createGain();
+      gain.gain.value = 0.15;
+      gain.connect(audio.destination);
+      [440, 480].forEach((freq) => {
+        const osc = audio.createOscillator();
+        osc.frequency.value = freq;
+        osc.connect(gain);
+        osc.start();
+        osc.stop(audio.currentTime + 1.8);
+      });
+    };
+    ring();
+    ringTimer = window.setInterval(ring, 3600);
+  } catch (error) {
+    console.error("Ringtone error:", error);
+  }
+
+  return () => {
+    clearInterval(vibrateTimer);
+    if (ringTimer !== undefined) clearInterval(ringTimer);
+    navigator.vibrate?.(0);
+    ctx?.close();
+  };
+};
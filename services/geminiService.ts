@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { RiskAssessment, RiskLevel, SafePlace } from "../types";
+import { PlateReading, ReportNarrative, RiskAssessment, RiskLevel, RiskProfile, SafePlace, SafePlaceCategory, SensorConsent } from "../types";
+import { DEFAULT_RISK_PROFILE, PromptProfile, languageName } from "./profile";
+import { parseRiskResponse } from "./riskValidation";
 
 // Initialize Gemini Client
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -7,14 +9,42 @@ const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 /**
  * 1. REAL-TIME MONITORING (Fast)
  * Uses gemini-2.5-flash acting as the Core Risk Fusion Engine.
+ * Throws when the model is unreachable or its reply fails validation;
+ * see services/riskEngine.ts for failover and fusion-rule enforcement.
+ * Inputs the user has not consented to share are dropped here, whatever the caller passes.
+ * The score boundaries of rules 4 and 5 come from the user's sensitivity preset.
  */
 export const assessRisk = async (
   imageBase64: string | null,
   audioBase64: string | null,
-  locationContext: string
+  locationContext: string,
+  watchPhrases: string[] = [],
+  consent: SensorConsent = { vision: true, audio: true, context: true },
+  riskProfile: RiskProfile = DEFAULT_RISK_PROFILE
 ): Promise<RiskAssessment> => {
   try {
     const parts: any[] = [];
+    const image = consent.vision ? imageBase64 : null;
+    const audio = consent.audio ? audioBase64 : null;
+    const context = consent.context ? locationContext : "Not shared by the user";
+
+    // User codewords are only reported back; the app decides what they mean
+    const keywordRules = audio && watchPhrases.length > 0
+      ? `
+    KEYWORDS:
+    If the speaker says any of these phrases, list it verbatim in audio_analysis.keywords_detected: ${watchPhrases.map(p => `"${p}"`).join(", ")}.
+    Saying them does not by itself change the risk score.
+`
+      : "";
+    const { thresholds, language } = riskProfile;
+    // Enum values and drivers are matched in code, so only prose follows the user's language
+    const languageRule = language !== "en"
+      ? `
+    LANGUAGE:
+    Write explanation, emotional_state, tone_analysis and reasoning in ${languageName(language)}.
+    Keep enum values and primary_risk_drivers in English.
+`
+      : "";
 
     // System instruction: The Core Risk Fusion Engine
     const systemInstruction = `You are the Core Risk Fusion Engine of SheShield AI.
@@ -23,32 +53,34 @@ export const assessRisk = async (
     INPUTS:
     - Audio: User voice snippet (detect distress, screaming, crying).
     - Vision: Camera frame (detect aggressive behavior, weapons, desolate areas).
-    - Context: ${locationContext} (Time, Location, Deviation).
+    - Context: ${context} (Time, Location, Deviation).
+    Inputs the user chose not to share are absent; do not treat their absence as a risk signal.
 
     FUSION RULES:
     1. High audio distress + major route deviation = DANGEROUS.
     2. Aggressive behavior detected visually = DANGEROUS.
     3. Isolated area at night increases baseline risk.
-    4. IF final_risk_score > 70 THEN recommended_action MUST be 'notify_contacts' or higher.
-    5. IF final_risk_score > 85 THEN recommended_action MUST be 'full_emergency_mode'.
-
+    4. IF final_risk_score > ${thresholds.notifyScore} THEN recommended_action MUST be 'notify_contacts' or higher.
+    5. IF final_risk_score > ${thresholds.emergencyScore} THEN recommended_action MUST be 'full_emergency_mode'.
+${keywordRules}${languageRule}
     OUTPUT:
     Strictly output the JSON object defined in the schema. 
     You must also include the detailed 'audio_analysis' and 'context_analysis' that led to your decision.`;
 
-    if (imageBase64) {
+    if (image) {
       parts.push({
-        inlineData: { mimeType: "image/jpeg", data: imageBase64 },
+        inlineData: { mimeType: "image/jpeg", data: image },
       });
     }
 
-    if (audioBase64) {
+    if (audio) {
       parts.push({
-        inlineData: { mimeType: "audio/webm", data: audioBase64 },
+        inlineData: { mimeType: "audio/webm", data: audio },
       });
     }
 
-    if (parts.length === 0) {
+    // Context alone is still worth a cloud call when it is all the user shares
+    if (parts.length === 0 && (consent.vision || consent.audio || !consent.context)) {
       return {
         riskLevel: RiskLevel.SAFE,
         score: 0,
@@ -132,162 +164,185 @@ export const assessRisk = async (
     const text = response.text;
     if (!text) throw new Error("No response from AI");
     
-    const rawData = JSON.parse(text);
-
-    // Map strict JSON output to App types
-    return {
-      riskLevel: rawData.risk_level.toUpperCase() as RiskLevel,
-      score: rawData.final_risk_score,
-      reason: rawData.explanation,
-      recommendedAction: rawData.recommended_action.replace(/_/g, ' '),
-      detectedThreats: rawData.primary_risk_drivers,
-      audioAnalysis: rawData.audio_analysis,
-      contextAnalysis: rawData.context_analysis
-    };
+    // Map strict JSON output to App types, repairing what can be repaired
+    const { assessment, repairs } = parseRiskResponse(text);
+    if (repairs.length > 0) console.warn("Risk response repaired:", repairs);
+    return repairs.length > 0 ? { ...assessment, corrections: repairs } : assessment;
 
   } catch (error) {
+    // Surface the failure so the RiskEngine layer can fall back to on-device scoring
     console.error("Risk Assessment Error:", error);
-    return {
-      riskLevel: RiskLevel.UNCERTAIN,
-      score: 15,
-      reason: "Fusion engine unavailable",
-      recommendedAction: "Stay alert",
-      detectedThreats: ["System offline"],
-    };
+    throw error;
   }
 };
 
+const SAFE_PLACE_CATEGORIES: SafePlaceCategory[] = ["police", "hospital", "store_24h", "transit", "other"];
+
+// One entry of the model's place list; anything without a name is dropped and bad coordinates never reach the map
+const toListedPlace = (entry: unknown, links: Map<string, string>): SafePlace | null => {
+  if (typeof entry !== "object" || entry === null) return null;
+  const p = entry as Record<string, unknown>;
+  if (typeof p.name !== "string" || p.name.trim() === "") return null;
+  const { lat, lng, category } = p;
+  const hasCoords = typeof lat === "number" && typeof lng === "number" && Number.isFinite(lat) && Number.isFinite(lng)
+    && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+  return {
+    name: p.name,
+    address: typeof p.address === "string" ? p.address : "",
+    distance: "",
+    type: typeof category === "string" ? category.replace(/_/g, " ") : "Safe Haven",
+    uri: links.get(p.name.toLowerCase()),
+    category: SAFE_PLACE_CATEGORIES.find((c) => c === category) ?? "other",
+    location: hasCoords ? { lat, lng } : undefined,
+    openNow: typeof p.open_now === "boolean" ? p.open_now : null,
+  };
+};
+
 /**
  * 2. SAFE HAVEN FINDER (Grounding)
  * Uses gemini-2.5-flash with googleMaps tool.
+ * The model lists places as JSON (coordinates, category, opening status);
+ * map links come from the grounding chunks. Throws on failure so callers can
+ * fall back to cached results; see services/safePlaces.ts.
  */
 export const findSafePlaces = async (lat: number, lng: number): Promise<SafePlace[]> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: "Find the nearest open police stations, hospitals, or 24/7 well-lit convenience stores suitable for a woman seeking safety.",
-      config: {
-        tools: [{ googleMaps: {} }],
-        toolConfig: {
-          retrievalConfig: {
-            latLng: { latitude: lat, longitude: lng },
-          },
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: `Find the nearest open police stations, hospitals, 24/7 well-lit convenience stores, or staffed transit stations suitable for a woman seeking safety.
+      Reply with only a JSON array, nearest first, at most 8 items, each:
+      {"name": string, "address": string, "lat": number, "lng": number,
+       "category": "police" | "hospital" | "store_24h" | "transit" | "other", "open_now": boolean | null}`,
+    config: {
+      tools: [{ googleMaps: {} }],
+      toolConfig: {
+        retrievalConfig: {
+          latLng: { latitude: lat, longitude: lng },
         },
       },
-    });
-
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const places: SafePlace[] = [];
-    
-    chunks.forEach((chunk) => {
-        if (chunk.maps) {
-            places.push({
-                name: chunk.maps.title || "Safe Location",
-                address: "View on Map",
-                distance: "Nearby",
-                type: "Safe Haven",
-                uri: chunk.maps.uri
-            });
-        }
-    });
-
-    return places.length > 0 ? places : [
-        { name: "Emergency Services", address: "Dial 911/112", distance: "N/A", type: "Emergency" }
-    ];
+    },
+  });
+
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  const links = new Map<string, string>();
+  chunks.forEach((chunk) => {
+    if (chunk.maps?.title && chunk.maps.uri) links.set(chunk.maps.title.toLowerCase(), chunk.maps.uri);
+  });
+
+  // Tool responses cannot use a response schema, so pull the array out of the text
+  const match = (response.text || "").match(/\[[\s\S]*\]/);
+  const listed: unknown = match ? JSON.parse(match[0]) : [];
+  const places: SafePlace[] = (Array.isArray(listed) ? listed : [])
+    .map((entry) => toListedPlace(entry, links))
+    .filter((place): place is SafePlace => place !== null);
+
+  // Grounded places the model did not list still get a map link
+  chunks.forEach((chunk) => {
+    if (chunk.maps && !places.some((p) => p.name.toLowerCase() === chunk.maps?.title?.toLowerCase())) {
+      places.push({
+        name: chunk.maps.title || "Safe Location",
+        address: "View on Map",
+        distance: "",
+        type: "Safe Haven",
+        uri: chunk.maps.uri,
+        category: "other",
+        openNow: null,
+      });
+    }
+  });
 
-  } catch (error) {
-    console.error("Safe Place Search Error:", error);
-    // Return fallback to prevent UI hanging and handle 429s gracefully
-    return [
-        { name: "Emergency Services", address: "Dial 911/112", distance: "N/A", type: "Emergency" }
-    ];
-  }
+  return places;
 };
 
 /**
  * 3. INCIDENT REPORTING (Thinking Mode)
  * Uses gemini-3-pro-preview with thinking budget for detailed analysis.
+ * Only writes the narrative sections; the facts come from services/incidentReport.ts.
  */
-export const generateIncidentReport = async (
-  logs: string[],
-  lastImage: string | null
-): Promise<string> => {
-  try {
-    const parts: any[] = [];
-    if (lastImage) {
-        parts.push({ inlineData: { mimeType: "image/jpeg", data: lastImage }});
-    }
-    
-    const prompt = `
-    You are an AI report generator for a women safety system.
-
-    Task:
-    Convert raw logs into a clean, human-readable incident summary for authorities.
-
-    Inputs:
-    - Timestamps
-    - GPS trace
-    - Audio transcript highlights
-    - Vision threat events
-    - Gemini risk fusion outputs
-    - Actions taken by the system
-
-    Raw Logs provided below:
-    ${logs.join('\n')}
-
-    Output format:
-
-    INCIDENT REPORT
-    -----------------------------
-    Time of Incident: <date + time>
-    Location Summary: <area + route deviation>
-    Detected Threats:
-    - <threat 1>
-    - <threat 2>
-    - ...
-
-    Evidence Collected:
-    - Audio clips: <count + summary>
-    - Video frames: <count + objects detected>
-    - Number plate: <if any>
-
-    AI Analysis Summary:
-    <2–3 lines explanation>
-
-    Recommended Next Steps:
-    <clear practical next step>
-
-    No JSON. No extra commentary.
-    Just the clean formatted report.
-    `;
+export const generateReportNarrative = async (
+  facts: string,
+  lastImage: string | null,
+  profile?: PromptProfile
+): Promise<ReportNarrative> => {
+  const parts: any[] = [];
+  if (lastImage) {
+      parts.push({ inlineData: { mimeType: "image/jpeg", data: lastImage }});
+  }
 
-    parts.push({ text: prompt });
+  const prompt = `
+    You are an AI report writer for a women safety system.
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: { parts },
-      config: {
-        thinkingConfig: { thinkingBudget: 1024 }, // Enable thinking for reasoning
-      }
-    });
+    Task:
+    Write the narrative sections of an incident report for authorities.
+    The facts below were recorded by the device and are already part of the report
+    (timeline, GPS trace, threats, evidence hashes, actions). Do not restate them as
+    lists and do not invent anything that is not supported by them.
+
+    Recorded facts:
+    ${facts}
+${profile ? reportSubject(profile) : ""}
+    Output:
+    - summary: 2–3 sentences explaining what happened and why the system escalated (or did not).
+    - location_summary: one sentence on where it happened and any route deviation.
+    - next_steps: 1–3 clear, practical next steps for the user or the authorities.
+  `;
+  parts.push({ text: prompt });
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING },
+      location_summary: { type: Type.STRING },
+      next_steps: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ["summary", "location_summary", "next_steps"],
+  };
+
+  const response = await ai.models.generateContent({
+    model: "gemini-3-pro-preview",
+    contents: { parts },
+    config: {
+      thinkingConfig: { thinkingBudget: 1024 }, // Enable thinking for reasoning
+      responseMimeType: "application/json",
+      responseSchema: schema,
+    }
+  });
+
+  const text = response.text;
+  if (!text) throw new Error("No response from AI");
+  const raw = JSON.parse(text);
+  if (typeof raw?.summary !== "string") throw new Error("Report narrative is missing a summary");
+  return {
+    summary: raw.summary,
+    locationSummary: typeof raw.location_summary === "string" ? raw.location_summary : "",
+    nextSteps: Array.isArray(raw.next_steps) ? raw.next_steps.filter((s: unknown) => typeof s === "string") : [],
+  };
+};
 
-    return response.text || "Could not generate report.";
-  } catch (error) {
-    console.error("Reporting Error:", error);
-    return "Error generating report.";
-  }
+// The person the report is about, and the language it is written in
+const reportSubject = (profile: PromptProfile): string => {
+  const lines = [
+    profile.name && `    The user is ${profile.name}; refer to them by name.`,
+    profile.medicalNotes && `    Medical notes from the user (mention only if relevant to the incident): ${profile.medicalNotes}`,
+    profile.language !== "en" && `    Write every section in ${languageName(profile.language)}.`,
+  ].filter(Boolean);
+  return lines.length > 0 ? `\n${lines.join("\n")}\n` : "";
 };
 
 /**
  * 4. EMERGENCY ALERT GENERATOR
  * Uses gemini-2.5-flash for rapid alert generation.
+ * The fallback texts are used when the model is unreachable, so they carry the name too.
  */
 export const generateEmergencyAlert = async (
   riskScore: number,
   location: string,
   reason: string,
-  vehicleInfo: string = "Unknown"
+  vehicleInfo: string = "Unknown",
+  profile?: PromptProfile
 ): Promise<string> => {
+  const name = profile?.name.trim() || "A SheShield user";
+  const medicalNotes = profile?.medicalNotes.trim() ?? "";
+  const medicalLine = medicalNotes ? `\nMedical notes: ${medicalNotes}` : "";
   try {
     const prompt = `
       Task:
@@ -298,15 +353,18 @@ export const generateEmergencyAlert = async (
       - last_known_location: ${location}
       - short_reason: ${reason}
       - vehicle_info: ${vehicleInfo}
+      - user_name: ${name}
+      - medical_notes: ${medicalNotes || "none"}
       - timestamp: ${new Date().toLocaleString()}
 
       Output:
-      "⚠️ Emergency Alert: <User Name> may be in danger.
+      "⚠️ Emergency Alert: ${name} may be in danger.
       Risk Level: <score>
       Reason: <short_reason>.
       Last Location: <location link>.
-      Vehicle: <vehicle info or 'Unknown'>.
+      Vehicle: <vehicle info or 'Unknown'>.${medicalLine ? "\n      Medical notes: <medical_notes>." : ""}
       This alert was automatically triggered by SheShield AI."
+      ${profile && profile.language !== "en" ? `Write the message in ${languageName(profile.language)}. Keep the link, numbers and plate exactly as given.` : ""}
     `;
 
     const response = await ai.models.generateContent({
@@ -318,9 +376,50 @@ export const generateEmergencyAlert = async (
       }
     });
 
-    return response.text || "⚠️ Emergency Alert: User in danger. Please contact immediately.";
+    return response.text || `⚠️ Emergency Alert: ${name} may be in danger. Please contact immediately.${medicalLine}`;
   } catch (error) {
     console.error("Alert Generation Error:", error);
-    return "⚠️ Emergency Alert: User in danger. Location available in app.";
+    return `⚠️ Emergency Alert: ${name} may be in danger. Location available in app.${medicalLine}`;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * 5. NUMBER PLATE READER
+ * Uses gemini-2.5-flash to read the plate and describe the vehicle in a photo
+ * the user took before a ride. The result is always shown for confirmation.
+ */
+export const readNumberPlate = async (imageBase64: string): Promise<PlateReading> => {
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      plate: { type: Type.STRING, nullable: true, description: "Plate text exactly as printed, null if unreadable" },
+      vehicle: { type: Type.STRING, description: "Colour, make and model if visible, e.g. 'white Toyota Etios'" },
+      confidence: { type: Type.NUMBER, description: "0-1 confidence in the plate text" },
+    },
+    required: ["plate", "vehicle", "confidence"],
+  };
+
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: {
+      parts: [
+        { inlineData: { mimeType: "image/jpeg", data: imageBase64 } },
+        { text: "Read the vehicle number plate in this photo and describe the vehicle. Do not guess characters you cannot see." },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schema,
+      temperature: 0,
+    },
+  });
+
+  const text = response.text;
+  if (!text) throw new Error("No response from AI");
+  const raw = JSON.parse(text);
+  return {
+    plate: typeof raw?.plate === "string" && raw.plate.trim() ? raw.plate.trim() : null,
+    vehicle: typeof raw?.vehicle === "string" ? raw.vehicle.trim() : "",
+    confidence: typeof raw?.confidence === "number" ? Math.min(1, Math.max(0, raw.confidence)) : 0,
+  };
+};
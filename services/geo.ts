@@ -0,0 +1,36 @@
+const EARTH_RADIUS_M = 6371000;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Great-circle distance in metres (haversine).
+ */
+export const distanceMeters = (a: LatLng, b: LatLng): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Initial bearing from a to b in degrees (0 = north, clockwise).
+ */
+export const bearingDegrees = (a: LatLng, b: LatLng): number => {
+  const dLng = toRad(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.lat));
+  const x = Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) - Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLng);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+/**
+ * Smallest signed difference between two headings, in -180..180.
+ */
+export const headingDelta = (from: number, to: number): number => {
+  return ((to - from + 540) % 360) - 180;
+};
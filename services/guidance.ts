@@ -0,0 +1,145 @@
+import { SafePlace } from "../types";
+import { LatLng, bearingDegrees, distanceMeters, headingDelta } from "./geo";
+import { CATEGORY_LABEL, compassPoint, formatDistance } from "./safePlaces";
+
+export type TurnDirection = "straight" | "bear_left" | "bear_right" | "left" | "right" | "around" | "unknown";
+
+export interface GuidanceCue {
+  direction: TurnDirection;
+  text: string; // spoken and shown
+  distanceM: number;
+}
+
+export interface GuidanceState {
+  target: SafePlace;
+  startedAt: number;
+  distanceM: number | null;
+  bearingDeg: number | null; // absolute, 0 = north
+  relativeDeg: number | null; // bearing relative to the user's heading, null without a heading
+  direction: TurnDirection;
+  instruction: string;
+  arrived: boolean;
+  arrivedAt: number | null;
+}
+
+export interface GuidanceOptions {
+  arrivalRadiusM?: number;
+  cueEveryM?: number; // distance milestone between repeated cues
+  minCueGapMs?: number;
+  onCue?: (cue: GuidanceCue) => void;
+  onArrive?: (state: GuidanceState) => void;
+}
+
+export interface GuidanceSession {
+  update: (p: LatLng, headingDeg: number | null, now?: number) => GuidanceState;
+  getState: () => GuidanceState;
+}
+
+// Spoken form of compassPoint's abbreviations
+const COMPASS_WORDS: Record<string, string> = {
+  N: "north", NE: "north-east", E: "east", SE: "south-east", S: "south", SW: "south-west", W: "west", NW: "north-west",
+};
+
+const INSTRUCTION: Record<TurnDirection, string> = {
+  straight: "Keep going straight",
+  bear_left: "Bear left",
+  bear_right: "Bear right",
+  left: "Turn left",
+  right: "Turn right",
+  around: "Turn around",
+  unknown: "Head towards the arrow",
+};
+
+// Haptic pattern per cue: short pulses for left, one long pulse for right
+export const CUE_VIBRATION: Record<TurnDirection, number[]> = {
+  straight: [60],
+  bear_left: [80, 80, 80],
+  bear_right: [200],
+  left: [80, 80, 80, 80, 80],
+  right: [400],
+  around: [80, 60, 80, 60, 80, 60, 80],
+  unknown: [],
+};
+
+export const ARRIVAL_VIBRATION = [300, 100, 300, 100, 300];
+
+export const directionFor = (relativeDeg: number | null): TurnDirection => {
+  if (relativeDeg === null || !Number.isFinite(relativeDeg)) return "unknown";
+  const abs = Math.abs(relativeDeg);
+  if (abs <= 20) return "straight";
+  if (abs <= 60) return relativeDeg < 0 ? "bear_left" : "bear_right";
+  if (abs <= 140) return relativeDeg < 0 ? "left" : "right";
+  return "around";
+};
+
+/**
+ * Straight-line guidance to a safe haven. Pure: fed with fixes and the user's
+ * heading, it reports distance, direction and arrival, and raises a cue when
+ * the direction changes or another cueEveryM has been covered.
+ */
+export const createGuidanceSession = (target: SafePlace, options: GuidanceOptions = {}): GuidanceSession => {
+  const { arrivalRadiusM = 35, cueEveryM = 100, minCueGapMs = 8000, onCue, onArrive } = options;
+  const label = CATEGORY_LABEL[target.category].toLowerCase();
+
+  let state: GuidanceState = {
+    target,
+    startedAt: Date.now(),
+    distanceM: null,
+    bearingDeg: null,
+    relativeDeg: null,
+    direction: "unknown",
+    instruction: "Waiting for GPS…",
+    arrived: false,
+    arrivedAt: null,
+  };
+  let lastCueDirection: TurnDirection | null = null;
+  let lastCueDistance = Infinity;
+  let lastCueAt = -Infinity;
+
+  return {
+    update: (p, headingDeg, now = Date.now()) => {
+      if (state.arrived || !target.location) return state;
+      const distanceM = distanceMeters(p, target.location);
+      const bearingDeg = bearingDegrees(p, target.location);
+      // Browsers can report NaN while stationary; treat it like no heading at all
+      const relativeDeg = headingDeg === null || !Number.isFinite(headingDeg) ? null : headingDelta(headingDeg, bearingDeg);
+      const direction = directionFor(relativeDeg);
+
+      if (distanceM <= arrivalRadiusM) {
+        state = { ...state, distanceM, bearingDeg, relativeDeg, direction: "straight", instruction: `You have reached the ${label}`, arrived: true, arrivedAt: now };
+        onArrive?.(state);
+        return state;
+      }
+
+      state = { ...state, distanceM, bearingDeg, relativeDeg, direction, instruction: INSTRUCTION[direction] };
+
+      const turned = direction !== lastCueDirection && direction !== "unknown";
+      const milestone = lastCueDistance - distanceM >= cueEveryM;
+      if ((turned || milestone || lastCueDirection === null) && now - lastCueAt >= minCueGapMs) {
+        lastCueDirection = direction;
+        lastCueDistance = distanceM;
+        lastCueAt = now;
+        // Without a heading only the absolute bearing can be spoken
+        const instruction = direction === "unknown" ? `Head ${COMPASS_WORDS[compassPoint(bearingDeg)]}` : INSTRUCTION[direction];
+        onCue?.({ direction, distanceM, text: `${instruction}. ${target.name}, ${formatDistance(distanceM)}.` });
+      }
+      return state;
+    },
+    getState: () => state,
+  };
+};
+
+/**
+ * Best haven to walk to: the top-ranked place with coordinates that is not known to be closed.
+ */
+export const pickSafeHaven = (places: SafePlace[]): SafePlace | null =>
+  places.find((p) => p.location && p.openNow !== false) ?? places.find((p) => p.location) ?? null;
+
+/**
+ * Speaks a cue, cutting off any cue still being spoken.
+ */
+export const speakCue = (text: string) => {
+  if (typeof speechSynthesis === "undefined") return;
+  speechSynthesis.cancel();
+  speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+};
@@ -0,0 +1,171 @@
+import { ChainVerification, EvidenceRecord, IncidentLog, IncidentReport, MonitoringSession, ReportNarrative, ReportThreat, RiskLevel } from "../types";
+import { generateReportNarrative } from "./geminiService";
+import { listEvidence, verifyEvidenceChain } from "./evidenceVault";
+import { distanceMeters } from "./geo";
+import { getSession, getSessionIncidents, incidentScore } from "./incidentStore";
+import { PromptProfile } from "./profile";
+import { formatVehicleInfo } from "./ride";
+import { riskRank } from "./riskEngine";
+import { createId } from "./storage";
+
+const TRACE_MIN_STEP_M = 5; // consecutive fixes closer than this are merged
+
+// Assessments only enter the timeline when the level changes or is elevated
+const isTimelineWorthy = (incident: IncidentLog, previousLevel: RiskLevel | null) =>
+  incident.kind === "event"
+  || incident.riskLevel !== previousLevel
+  || riskRank(incident.riskLevel) >= riskRank(RiskLevel.SUSPICIOUS);
+
+const buildTimeline = (incidents: IncidentLog[]) => {
+  let previousLevel: RiskLevel | null = null;
+  return incidents.flatMap((i) => {
+    const worthy = isTimelineWorthy(i, previousLevel);
+    if (i.kind === "assessment") previousLevel = i.riskLevel;
+    if (!worthy) return [];
+    return [{
+      timestamp: i.timestamp,
+      kind: i.kind,
+      riskLevel: i.riskLevel,
+      score: incidentScore(i),
+      description: i.description,
+      actions: i.actionsTaken,
+    }];
+  });
+};
+
+const buildGpsTrace = (incidents: IncidentLog[]) => {
+  const trace: IncidentReport["gpsTrace"] = [];
+  incidents.forEach((i) => {
+    if (!i.location) return;
+    const last = trace[trace.length - 1];
+    if (last && distanceMeters(last, i.location) < TRACE_MIN_STEP_M) return;
+    trace.push({ timestamp: i.timestamp, lat: i.location.lat, lng: i.location.lng });
+  });
+  return trace;
+};
+
+const buildThreats = (incidents: IncidentLog[]): ReportThreat[] => {
+  const threats = new Map<string, ReportThreat>();
+  incidents.forEach((i) => {
+    (i.assessment?.detectedThreats ?? []).forEach((name) => {
+      const existing = threats.get(name);
+      threats.set(name, existing
+        ? { ...existing, count: existing.count + 1, lastSeen: i.timestamp }
+        : { name, count: 1, firstSeen: i.timestamp, lastSeen: i.timestamp });
+    });
+  });
+  return [...threats.values()].sort((a, b) => b.count - a.count);
+};
+
+const buildActions = (incidents: IncidentLog[]) => {
+  const actions = new Map<string, { action: string; count: number; firstAt: string }>();
+  incidents.forEach((i) => {
+    i.actionsTaken.forEach((action) => {
+      const existing = actions.get(action);
+      actions.set(action, existing ? { ...existing, count: existing.count + 1 } : { action, count: 1, firstAt: i.timestamp });
+    });
+  });
+  return [...actions.values()];
+};
+
+/**
+ * Plain-text digest of the computed sections, given to the model as the only source of facts.
+ */
+export const reportFacts = (report: IncidentReport): string => {
+  const lines = [
+    `Session: ${report.session.startedAt} to ${report.session.endedAt ?? "ongoing"}`,
+    `Peak risk: ${report.peakRiskLevel} (score ${report.peakScore})${report.incidentAt ? ` first reached at ${report.incidentAt}` : ""}`,
+    `Threats: ${report.threats.map((t) => `${t.name} x${t.count}`).join(", ") || "none"}`,
+    `Evidence: ${report.evidence.imageCount} images, ${report.evidence.audioCount} audio clips`,
+    `Actions: ${report.actionsTaken.map((a) => `${a.action} x${a.count}`).join(", ") || "none"}`,
+    `GPS fixes: ${report.gpsTrace.length}`,
+    ...(report.ride ? [`Vehicle: ${formatVehicleInfo(report.ride)}, entered at ${report.ride.startedAt}`] : []),
+    "Timeline:",
+    ...report.timeline.map((t) => `[${t.timestamp}] ${t.riskLevel} ${t.description}${t.actions.length ? ` (actions: ${t.actions.join(", ")})` : ""}`),
+  ];
+  return lines.join("\n");
+};
+
+// What the report needs from each vault record; replays supply these without a vault
+export type ReportEvidenceSource = Pick<EvidenceRecord, "sequence" | "type" | "capturedAt" | "sha256" | "chainHash" | "redacted">;
+
+/**
+ * Computes every section except the narrative. Pure, so reports can also be
+ * built from replayed sessions without IndexedDB.
+ */
+export const composeIncidentReport = (
+  session: MonitoringSession,
+  incidents: IncidentLog[],
+  evidence: ReportEvidenceSource[],
+  chain: ChainVerification
+): IncidentReport => {
+  const peakScore = incidents.reduce((max, i) => Math.max(max, incidentScore(i) ?? 0), 0);
+  const peakRiskLevel = incidents.reduce(
+    (peak, i) => (riskRank(i.riskLevel) > riskRank(peak) ? i.riskLevel : peak),
+    RiskLevel.SAFE
+  );
+  const firstPeak = incidents.find((i) => i.riskLevel === peakRiskLevel && peakRiskLevel !== RiskLevel.SAFE);
+
+  return {
+    id: createId(),
+    sessionId: session.id,
+    generatedAt: new Date().toISOString(),
+    session: {
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      durationMs: session.endedAt ? Date.parse(session.endedAt) - Date.parse(session.startedAt) : null,
+    },
+    peakRiskLevel,
+    peakScore,
+    incidentAt: firstPeak?.timestamp ?? null,
+    timeline: buildTimeline(incidents),
+    gpsTrace: buildGpsTrace(incidents),
+    threats: buildThreats(incidents),
+    evidence: {
+      imageCount: evidence.filter((e) => e.type === "image" && !e.redacted).length,
+      audioCount: evidence.filter((e) => e.type === "audio" && !e.redacted).length,
+      redactedCount: evidence.filter((e) => e.redacted).length,
+      chain,
+      items: evidence.map((e) => ({
+        sequence: e.sequence,
+        type: e.type,
+        capturedAt: e.capturedAt,
+        sha256: e.sha256,
+        chainHash: e.chainHash,
+        redacted: !!e.redacted,
+      })),
+    },
+    actionsTaken: buildActions(incidents),
+    ride: session.ride ?? null,
+    narrative: null,
+  };
+};
+
+/**
+ * Builds the report for one session from the incident store and the evidence
+ * vault. The narrative is added last and left null if the model fails, so a
+ * report can always be produced offline.
+ */
+export const buildIncidentReport = async (
+  sessionId: string,
+  options: { lastImage?: string | null; withNarrative?: boolean; profile?: PromptProfile } = {}
+): Promise<IncidentReport> => {
+  const { lastImage = null, withNarrative = true, profile } = options;
+  const [session, incidents, evidence, chain] = await Promise.all([
+    getSession(sessionId),
+    getSessionIncidents(sessionId),
+    listEvidence(sessionId),
+    verifyEvidenceChain(),
+  ]);
+  if (!session) throw new Error(`Unknown session ${sessionId}`);
+
+  const report = composeIncidentReport(session, incidents, evidence, chain);
+  if (!withNarrative) return report;
+  let narrative: ReportNarrative | null = null;
+  try {
+    narrative = await generateReportNarrative(reportFacts(report), lastImage, profile);
+  } catch (error) {
+    console.error("Reporting Error:", error);
+  }
+  return { ...report, narrative };
+};
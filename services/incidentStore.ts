@@ -0,0 +1,126 @@
+import { IncidentLog, MonitoringSession, RideDetails, RiskLevel, TripSummary } from "../types";
+import { STORES, requestToPromise, withStores } from "./db";
+import { riskRank } from "./riskEngine";
+import { createId } from "./storage";
+
+/**
+ * 1. SESSIONS
+ * One session per protection run (Start → Stop).
+ */
+export const startSession = async (): Promise<MonitoringSession> => {
+  const session: MonitoringSession = {
+    id: createId(),
+    startedAt: new Date().toISOString(),
+    peakRiskLevel: RiskLevel.SAFE,
+    peakScore: 0,
+    incidentCount: 0,
+  };
+  await withStores([STORES.sessions], "readwrite", (tx) => requestToPromise(tx.objectStore(STORES.sessions).put(session)));
+  return session;
+};
+
+export const endSession = async (sessionId: string): Promise<void> => {
+  await withStores([STORES.sessions], "readwrite", async (tx) => {
+    const store = tx.objectStore(STORES.sessions);
+    const session = await requestToPromise<MonitoringSession | undefined>(store.get(sessionId));
+    if (session && !session.endedAt) {
+      await requestToPromise(store.put({ ...session, endedAt: new Date().toISOString() }));
+    }
+  });
+};
+
+export const setSessionTrip = async (sessionId: string, trip: TripSummary): Promise<void> => {
+  await withStores([STORES.sessions], "readwrite", async (tx) => {
+    const store = tx.objectStore(STORES.sessions);
+    const session = await requestToPromise<MonitoringSession | undefined>(store.get(sessionId));
+    if (session) await requestToPromise(store.put({ ...session, trip }));
+  });
+};
+
+export const setSessionRide = async (sessionId: string, ride: RideDetails): Promise<void> => {
+  await withStores([STORES.sessions], "readwrite", async (tx) => {
+    const store = tx.objectStore(STORES.sessions);
+    const session = await requestToPromise<MonitoringSession | undefined>(store.get(sessionId));
+    if (session) await requestToPromise(store.put({ ...session, ride }));
+  });
+};
+
+export const listSessions = async (): Promise<MonitoringSession[]> => {
+  const sessions = await withStores([STORES.sessions], "readonly", (tx) =>
+    requestToPromise<MonitoringSession[]>(tx.objectStore(STORES.sessions).getAll())
+  );
+  return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+export const getSession = (sessionId: string): Promise<MonitoringSession | undefined> =>
+  withStores([STORES.sessions], "readonly", (tx) =>
+    requestToPromise<MonitoringSession | undefined>(tx.objectStore(STORES.sessions).get(sessionId))
+  );
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  await withStores([STORES.sessions, STORES.incidents], "readwrite", async (tx) => {
+    const incidents = tx.objectStore(STORES.incidents);
+    const keys = await requestToPromise(incidents.index("sessionId").getAllKeys(sessionId));
+    await Promise.all(keys.map((key) => requestToPromise(incidents.delete(key))));
+    await requestToPromise(tx.objectStore(STORES.sessions).delete(sessionId));
+  });
+};
+
+/**
+ * 2. INCIDENTS
+ * Every assessment and system action, stored in full and rolled up into the session.
+ */
+// The smoothed score that drove escalation; entries logged before it was kept fall back to the raw score
+export const incidentScore = (incident: IncidentLog): number | undefined => incident.score ?? incident.assessment?.score;
+
+export const recordIncident = async (
+  incident: Omit<IncidentLog, "id" | "timestamp"> & { timestamp?: string }
+): Promise<IncidentLog> => {
+  const entry: IncidentLog = { ...incident, id: createId(), timestamp: incident.timestamp ?? new Date().toISOString() };
+  await withStores([STORES.sessions, STORES.incidents], "readwrite", async (tx) => {
+    await requestToPromise(tx.objectStore(STORES.incidents).put(entry));
+    const sessions = tx.objectStore(STORES.sessions);
+    const session = await requestToPromise<MonitoringSession | undefined>(sessions.get(entry.sessionId));
+    if (!session) return;
+    const score = incidentScore(entry) ?? 0;
+    await requestToPromise(sessions.put({
+      ...session,
+      incidentCount: session.incidentCount + 1,
+      peakRiskLevel: riskRank(entry.riskLevel) > riskRank(session.peakRiskLevel) ? entry.riskLevel : session.peakRiskLevel,
+      peakScore: Math.max(session.peakScore, score),
+    }));
+  });
+  return entry;
+};
+
+export const getSessionIncidents = async (sessionId: string, levels?: RiskLevel[]): Promise<IncidentLog[]> => {
+  const incidents = await withStores([STORES.incidents], "readonly", (tx) =>
+    requestToPromise<IncidentLog[]>(tx.objectStore(STORES.incidents).index("sessionId").getAll(sessionId))
+  );
+  return incidents
+    .filter((i) => !levels || levels.length === 0 || levels.includes(i.riskLevel))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+/**
+ * Plain-text lines for the report generator, one per stored incident.
+ */
+export const formatIncidentLines = (incidents: IncidentLog[]): string[] =>
+  incidents.map((i) => {
+    const parts = [`[${i.timestamp}]`, i.kind === "assessment" ? `Risk: ${i.riskLevel}` : "Event:", i.description];
+    if (i.location) parts.push(`@ ${i.location.lat.toFixed(5)},${i.location.lng.toFixed(5)}`);
+    if (i.assessment) {
+      parts.push(`score ${i.assessment.score}`);
+      if (i.assessment.detectedThreats.length > 0) parts.push(`threats: ${i.assessment.detectedThreats.join(", ")}`);
+      if (i.assessment.audioAnalysis) {
+        parts.push(`audio: ${i.assessment.audioAnalysis.emotional_state} (distress ${i.assessment.audioAnalysis.distress_score})`);
+      }
+      if (i.assessment.contextAnalysis) {
+        const f = i.assessment.contextAnalysis.contextual_factors;
+        parts.push(`context: movement ${f.movement_pattern}, deviation ${f.route_deviation}`);
+      }
+      if (i.assessment.corrections?.length) parts.push(`corrections: ${i.assessment.corrections.join("; ")}`);
+    }
+    if (i.actionsTaken.length > 0) parts.push(`actions: ${i.actionsTaken.join(", ")}`);
+    return parts.join(" ");
+  });
@@ -0,0 +1,119 @@
+import { LiveShareGrant, LiveShareUpdate } from "../types";
+import { loadJson, saveJson } from "./storage";
+
+const STORAGE_KEY = "sheshield.liveShare";
+
+/**
+ * Client for the live location relay (server/relay.ts). The active grant is
+ * persisted so a reload can keep pushing to, or end, the same share.
+ */
+export interface LiveShareOptions {
+  baseUrl: string;
+  minIntervalMs?: number; // position pushes are throttled to this rate
+  ttlMinutes?: number;
+  onChange?: (grant: LiveShareGrant | null) => void;
+}
+
+export interface LiveShareController {
+  isConfigured: () => boolean;
+  start: () => Promise<LiveShareGrant>;
+  push: (update: LiveShareUpdate) => void;
+  stop: () => Promise<void>;
+  getGrant: () => LiveShareGrant | null;
+}
+
+const loadGrant = (): LiveShareGrant | null => {
+  const grant = loadJson<LiveShareGrant | null>(STORAGE_KEY, null);
+  return grant && grant.expiresAt > Date.now() ? grant : null;
+};
+
+export const createLiveShareController = (options: LiveShareOptions): LiveShareController => {
+  const { baseUrl, minIntervalMs = 3000, ttlMinutes = 120, onChange } = options;
+  const endpoint = baseUrl.replace(/\/$/, "");
+
+  let grant = loadGrant();
+  let starting: Promise<LiveShareGrant> | null = null;
+  let pending: LiveShareUpdate | null = null;
+  let lastPushAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const setGrant = (next: LiveShareGrant | null) => {
+    grant = next;
+    saveJson(STORAGE_KEY, next);
+    onChange?.(next);
+  };
+
+  const flush = async () => {
+    timer = null;
+    const current = grant;
+    const update = pending;
+    if (!current || !update) return;
+    pending = null;
+    lastPushAt = Date.now();
+    try {
+      const response = await fetch(`${endpoint}/api/shares/${current.token}/updates`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${current.ownerKey}` },
+        body: JSON.stringify(update),
+      });
+      // Expired or ended on the relay: nothing left to share into
+      if (response.status === 404 || response.status === 410) setGrant(null);
+      else if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      console.error("Live share update error:", error);
+    }
+  };
+
+  return {
+    isConfigured: () => Boolean(endpoint),
+
+    // Reuses the running share; only one is active at a time
+    start: () => {
+      if (grant && grant.expiresAt > Date.now()) return Promise.resolve(grant);
+      if (!starting) {
+        starting = fetch(`${endpoint}/api/shares`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ttlMinutes }),
+        })
+          .then(async (response) => {
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const next = (await response.json()) as LiveShareGrant;
+            setGrant(next);
+            return next;
+          })
+          .finally(() => {
+            starting = null;
+          });
+      }
+      return starting;
+    },
+
+    // Merges updates so the latest position and risk state win within one interval
+    push: (update) => {
+      if (!grant) return;
+      pending = { ...pending, ...update };
+      if (timer) return;
+      timer = setTimeout(flush, Math.max(0, lastPushAt + minIntervalMs - Date.now()));
+    },
+
+    stop: async () => {
+      const current = grant;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending = null;
+      setGrant(null);
+      if (!current) return;
+      try {
+        await fetch(`${endpoint}/api/shares/${current.token}`, {
+          method: "DELETE",
+          headers: { Authorization: `Bearer ${current.ownerKey}` },
+        });
+      } catch (error) {
+        console.error("Live share end error:", error);
+      }
+    },
+
+    getGrant: () => grant,
+  };
+};
@@ -0,0 +1,148 @@
+import { PrivacySettings, SensorConsent } from "../types";
+import { loadJson, saveJson } from "./storage";
+
+const STORAGE_KEY = "sheshield.privacy";
+
+export const FULL_CONSENT: SensorConsent = { vision: true, audio: true, context: true };
+
+export const CONSENT_PRESETS: { id: string; label: string; consent: SensorConsent }[] = [
+  { id: "all", label: "All sensors", consent: FULL_CONSENT },
+  { id: "no_vision", label: "Vision off", consent: { vision: false, audio: true, context: true } },
+  { id: "audio_only", label: "Audio only", consent: { vision: false, audio: true, context: false } },
+  { id: "context_only", label: "Context only", consent: { vision: false, audio: false, context: true } },
+];
+
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  consent: FULL_CONSENT,
+  blurFaces: true,
+  blurPlates: true,
+  maxWidth: 640,
+  cropFraction: 1,
+};
+
+// Frames this small no longer show identifiable faces or readable plates
+const FALLBACK_WIDTH = 160;
+
+export const loadPrivacySettings = (): PrivacySettings => {
+  const stored = loadJson<Partial<PrivacySettings>>(STORAGE_KEY, {});
+  return { ...DEFAULT_PRIVACY, ...stored, consent: { ...FULL_CONSENT, ...stored.consent } };
+};
+
+export const savePrivacySettings = (settings: PrivacySettings): void => saveJson(STORAGE_KEY, settings);
+
+/**
+ * Shape Detection API (Chromium). Missing elsewhere, in which case the
+ * filter falls back to heavy downscaling instead of sending sharp frames.
+ */
+interface DetectedRegion {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface RegionDetector {
+  detect: (image: CanvasImageSource) => Promise<DetectedRegion[]>;
+}
+
+type DetectorConstructor = new (options?: Record<string, unknown>) => RegionDetector;
+
+const detectors: { face?: RegionDetector | null; text?: RegionDetector | null } = {};
+
+const getDetector = (kind: "face" | "text"): RegionDetector | null => {
+  if (detectors[kind] !== undefined) return detectors[kind] ?? null;
+  const Detector = (window as unknown as Record<string, DetectorConstructor | undefined>)[kind === "face" ? "FaceDetector" : "TextDetector"];
+  try {
+    detectors[kind] = Detector ? new Detector(kind === "face" ? { fastMode: true, maxDetectedFaces: 20 } : undefined) : null;
+  } catch (error) {
+    console.error(`${kind} detector unavailable:`, error);
+    detectors[kind] = null;
+  }
+  return detectors[kind] ?? null;
+};
+
+export const detectionSupport = () => ({ faces: getDetector("face") !== null, plates: getDetector("text") !== null });
+
+export interface FilteredFrame {
+  base64: string;
+  width: number;
+  height: number;
+  regionsObscured: number;
+  fallback: boolean; // a requested detector was missing or failed, so the frame was heavily downscaled
+}
+
+// Pixelation works everywhere, unlike ctx.filter blur
+const pixelate = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number) => {
+  const block = Math.max(6, Math.round(Math.max(w, h) / 8));
+  const tiny = document.createElement("canvas");
+  tiny.width = Math.max(1, Math.round(w / block));
+  tiny.height = Math.max(1, Math.round(h / block));
+  tiny.getContext("2d")?.drawImage(ctx.canvas, x, y, w, h, 0, 0, tiny.width, tiny.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(tiny, 0, 0, tiny.width, tiny.height, x, y, w, h);
+  ctx.restore();
+};
+
+const scaledCopy = (source: HTMLCanvasElement, sx: number, sy: number, sw: number, sh: number, maxWidth: number) => {
+  const scale = Math.min(1, maxWidth / sw);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  canvas.getContext("2d")?.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const findRegions = async (kind: "face" | "text", canvas: HTMLCanvasElement): Promise<DOMRectReadOnly[] | null> => {
+  const detector = getDetector(kind);
+  if (!detector) return null;
+  try {
+    return (await detector.detect(canvas)).map((r) => r.boundingBox);
+  } catch (error) {
+    console.error(`${kind} detection error:`, error);
+    return null;
+  }
+};
+
+/**
+ * On-device preprocessing for frames bound for the cloud: centre crop,
+ * downscale, then pixelate faces and text (plates). The original frame is
+ * never modified; callers keep it for the local evidence vault only.
+ */
+export const filterFrame = async (source: HTMLCanvasElement, settings: PrivacySettings): Promise<FilteredFrame> => {
+  const crop = Math.min(1, Math.max(0.3, settings.cropFraction));
+  const sw = source.width * crop;
+  const sh = source.height * crop;
+  const sx = (source.width - sw) / 2;
+  const sy = (source.height - sh) / 2;
+
+  let canvas = scaledCopy(source, sx, sy, sw, sh, settings.maxWidth);
+  const ctx = canvas.getContext("2d");
+  let regionsObscured = 0;
+  let fallback = false;
+
+  const kinds = [settings.blurFaces && "face", settings.blurPlates && "text"].filter(Boolean) as ("face" | "text")[];
+  for (const kind of kinds) {
+    const regions = await findRegions(kind, canvas);
+    if (regions === null) {
+      fallback = true;
+      continue;
+    }
+    regions.forEach((box) => {
+      // Pad the box so hairlines and plate frames are covered too
+      const padX = box.width * 0.2;
+      const padY = box.height * 0.2;
+      const x = Math.max(0, box.x - padX);
+      const y = Math.max(0, box.y - padY);
+      if (ctx) pixelate(ctx, x, y, Math.min(canvas.width - x, box.width + 2 * padX), Math.min(canvas.height - y, box.height + 2 * padY));
+    });
+    regionsObscured += regions.length;
+  }
+
+  if (fallback) canvas = scaledCopy(canvas, 0, 0, canvas.width, canvas.height, FALLBACK_WIDTH);
+
+  return {
+    base64: canvas.toDataURL("image/jpeg", 0.7).split(",")[1],
+    width: canvas.width,
+    height: canvas.height,
+    regionsObscured,
+    fallback,
+  };
+};
@@ -0,0 +1,126 @@
+import { RiskLevel, RiskProfile, RiskThresholds } from "../types";
+import { CadenceTable, DEFAULT_CADENCE } from "./analysisScheduler";
+import { loadJson, saveJson } from "./storage";
+
+const STORAGE_KEY = "sheshield.profile";
+
+export type SensitivityPreset = "relaxed" | "normal" | "vigilant";
+
+export interface FeatureToggles {
+  audioDistressTrigger: boolean; // a scream or impact heard on-device runs an assessment right away
+  safePlaces: boolean; // search for nearby safe havens while the app is open
+  liveShareInAlerts: boolean; // alerts start a live location share instead of a map pin
+  medicalNotesInAlerts: boolean;
+}
+
+export interface UserProfile {
+  name: string;
+  medicalNotes: string; // allergies, conditions, medication; for responders only
+  language: string; // BCP 47 code
+  sensitivity: SensitivityPreset;
+  features: FeatureToggles;
+}
+
+// The parts of the profile that alert and report prompts use
+export type PromptProfile = Pick<UserProfile, "name" | "medicalNotes" | "language">;
+
+export interface SensitivitySettings {
+  label: string;
+  description: string;
+  thresholds: RiskThresholds;
+  cadence: CadenceTable; // analysis interval per risk level
+  preRollMs: number; // audio history kept for evidence
+}
+
+/**
+ * "normal" keeps the values the fusion rules were written with. The other
+ * presets move every boundary together so the ladder keeps its order.
+ */
+export const SENSITIVITY_PRESETS: Record<SensitivityPreset, SensitivitySettings> = {
+  relaxed: {
+    label: "Relaxed",
+    description: "Fewer prompts and alerts, slower checks. For familiar places.",
+    thresholds: { askScore: 50, notifyScore: 78, emergencyScore: 90 },
+    cadence: {
+      [RiskLevel.SAFE]: 25000,
+      [RiskLevel.UNCERTAIN]: 12000,
+      [RiskLevel.SUSPICIOUS]: 6000,
+      [RiskLevel.DANGEROUS]: 4000,
+      [RiskLevel.CRITICAL]: 3000,
+    },
+    preRollMs: 20000,
+  },
+  normal: {
+    label: "Normal",
+    description: "The default balance between false alarms and reaction time.",
+    thresholds: { askScore: 40, notifyScore: 70, emergencyScore: 85 },
+    cadence: DEFAULT_CADENCE,
+    preRollMs: 30000,
+  },
+  vigilant: {
+    label: "Vigilant",
+    description: "Asks and alerts earlier and checks more often. Uses more battery and data.",
+    thresholds: { askScore: 30, notifyScore: 60, emergencyScore: 78 },
+    cadence: {
+      [RiskLevel.SAFE]: 10000,
+      [RiskLevel.UNCERTAIN]: 6000,
+      [RiskLevel.SUSPICIOUS]: 3000,
+      [RiskLevel.DANGEROUS]: 2000,
+      [RiskLevel.CRITICAL]: 2000,
+    },
+    preRollMs: 60000,
+  },
+};
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "hi", label: "Hindi" },
+  { code: "bn", label: "Bengali" },
+  { code: "ta", label: "Tamil" },
+  { code: "es", label: "Spanish" },
+  { code: "fr", label: "French" },
+  { code: "pt", label: "Portuguese" },
+  { code: "ar", label: "Arabic" },
+];
+
+export const languageName = (code: string): string => LANGUAGES.find((l) => l.code === code)?.label ?? code;
+
+export const DEFAULT_FEATURES: FeatureToggles = {
+  audioDistressTrigger: true,
+  safePlaces: true,
+  liveShareInAlerts: true,
+  medicalNotesInAlerts: true,
+};
+
+export const DEFAULT_PROFILE: UserProfile = {
+  name: "",
+  medicalNotes: "",
+  language: "en",
+  sensitivity: "normal",
+  features: DEFAULT_FEATURES,
+};
+
+export const DEFAULT_RISK_PROFILE: RiskProfile = {
+  thresholds: SENSITIVITY_PRESETS.normal.thresholds,
+  language: DEFAULT_PROFILE.language,
+};
+
+export const loadProfile = (): UserProfile => {
+  const stored = loadJson<Partial<UserProfile>>(STORAGE_KEY, {});
+  const sensitivity = stored.sensitivity && stored.sensitivity in SENSITIVITY_PRESETS ? stored.sensitivity : DEFAULT_PROFILE.sensitivity;
+  return { ...DEFAULT_PROFILE, ...stored, sensitivity, features: { ...DEFAULT_FEATURES, ...stored.features } };
+};
+
+export const saveProfile = (profile: UserProfile): void => saveJson(STORAGE_KEY, profile);
+
+export const riskProfileOf = (profile: UserProfile): RiskProfile => ({
+  thresholds: SENSITIVITY_PRESETS[profile.sensitivity].thresholds,
+  language: profile.language,
+});
+
+// Medical notes only reach alert recipients when the user allows it
+export const alertProfileOf = (profile: UserProfile): PromptProfile => ({
+  name: profile.name,
+  medicalNotes: profile.features.medicalNotesInAlerts ? profile.medicalNotes : "",
+  language: profile.language,
+});
@@ -0,0 +1,169 @@
+import { IncidentReport } from "../types";
+import { formatVehicleInfo } from "./ride";
+
+/**
+ * Export formats for IncidentReport: JSON for tooling, plain text for copy and
+ * share, and a self-contained HTML page whose print stylesheet doubles as the
+ * print-ready layout.
+ */
+
+export const reportToJson = (report: IncidentReport): string => JSON.stringify(report, null, 2);
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return "ongoing";
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const humanize = (value: string) => value.replace(/_/g, " ");
+
+const chainText = (report: IncidentReport) =>
+  report.evidence.chain.ok
+    ? `verified (${report.evidence.chain.checked} records)`
+    : `BROKEN at record ${report.evidence.chain.brokenAt}: ${report.evidence.chain.problem}`;
+
+export const reportToText = (report: IncidentReport): string => {
+  const { narrative, evidence } = report;
+  const lines = [
+    "INCIDENT REPORT",
+    "-----------------------------",
+    `Session: ${formatTime(report.session.startedAt)} (${formatDuration(report.session.durationMs)})`,
+    `Time of Incident: ${report.incidentAt ? formatTime(report.incidentAt) : "no elevated risk recorded"}`,
+    `Peak Risk: ${report.peakRiskLevel} (score ${report.peakScore})`,
+    ...(report.ride ? [`Number Plate: ${report.ride.plate || "unknown"}${report.ride.plateConfirmed ? "" : " (not confirmed)"}`, `Vehicle: ${formatVehicleInfo(report.ride)}`] : []),
+    `Location Summary: ${narrative?.locationSummary || `${report.gpsTrace.length} GPS fixes recorded`}`,
+    "",
+    "Detected Threats:",
+    ...(report.threats.length > 0 ? report.threats.map((t) => `- ${humanize(t.name)} (x${t.count}, first ${formatTime(t.firstSeen)})`) : ["- none"]),
+    "",
+    "Evidence Collected:",
+    `- Audio clips: ${evidence.audioCount}`,
+    `- Images: ${evidence.imageCount}`,
+    ...(evidence.redactedCount > 0 ? [`- Redacted by user: ${evidence.redactedCount}`] : []),
+    `- Hash chain: ${chainText(report)}`,
+    "",
+    "Actions Taken:",
+    ...(report.actionsTaken.length > 0 ? report.actionsTaken.map((a) => `- ${humanize(a.action)} (x${a.count}, first ${formatTime(a.firstAt)})`) : ["- none"]),
+    "",
+    "AI Analysis Summary:",
+    narrative?.summary ?? "(narrative unavailable: the AI service could not be reached)",
+    "",
+    "Recommended Next Steps:",
+    ...(narrative && narrative.nextSteps.length > 0 ? narrative.nextSteps.map((s) => `- ${s}`) : ["- Keep the exported evidence bundle and contact local authorities if needed."]),
+    "",
+    "Timeline:",
+    ...report.timeline.map((t) => `[${formatTime(t.timestamp)}] ${t.kind === "assessment" ? `${t.riskLevel}${t.score !== undefined ? `/${t.score}` : ""}` : "EVENT"} ${t.description}`),
+  ];
+  return lines.join("\n");
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #0f172a; max-width: 820px; margin: 2rem auto; padding: 0 1rem; line-height: 1.45; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.2rem; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.2rem; margin-top: 1.6rem; }
+  .meta { color: #475569; font-size: 0.9rem; }
+  .level { font-weight: 700; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+  th, td { text-align: left; padding: 0.3rem 0.4rem; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  code { font-family: ui-monospace, Menlo, monospace; font-size: 0.75rem; word-break: break-all; }
+  .broken { color: #b91c1c; font-weight: 700; }
+  .ok { color: #15803d; font-weight: 700; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 11pt; }
+    h2 { break-after: avoid; }
+    tr { break-inside: avoid; }
+    a { color: inherit; text-decoration: none; }
+  }
+`;
+
+export const reportToHtml = (report: IncidentReport): string => {
+  const { narrative, evidence } = report;
+  const rows = <T,>(items: T[], cells: (item: T) => string[], empty: string, columns: number) =>
+    items.length > 0
+      ? items.map((item) => `<tr>${cells(item).map((c) => `<td>${c}</td>`).join("")}</tr>`).join("")
+      : `<tr><td colspan="${columns}">${empty}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Incident Report ${escapeHtml(report.sessionId.slice(0, 8))}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>Incident Report</h1>
+<p class="meta">Session ${escapeHtml(report.sessionId)} · ${escapeHtml(formatTime(report.session.startedAt))} · ${escapeHtml(formatDuration(report.session.durationMs))} · generated ${escapeHtml(formatTime(report.generatedAt))}</p>
+<p>Peak risk <span class="level">${escapeHtml(report.peakRiskLevel)}</span> (score ${report.peakScore})${report.incidentAt ? `, first reached ${escapeHtml(formatTime(report.incidentAt))}` : ""}.</p>
+
+${report.ride ? `<h2>Vehicle</h2>
+<table>
+<tr><th>Number plate</th><td>${escapeHtml(report.ride.plate || "unknown")}${report.ride.plateConfirmed ? "" : " (not confirmed)"}</td></tr>
+<tr><th>Vehicle</th><td>${escapeHtml(report.ride.vehicle || "not recorded")}</td></tr>
+<tr><th>Driver</th><td>${escapeHtml(report.ride.driverName || "not recorded")}</td></tr>
+<tr><th>Service</th><td>${escapeHtml(report.ride.service || "not recorded")}</td></tr>
+<tr><th>Entered</th><td>${escapeHtml(formatTime(report.ride.startedAt))}</td></tr>
+</table>
+` : ""}
+<h2>Summary</h2>
+<p>${escapeHtml(narrative?.summary ?? "Narrative unavailable: the AI service could not be reached.")}</p>
+${narrative?.locationSummary ? `<p>${escapeHtml(narrative.locationSummary)}</p>` : ""}
+
+<h2>Recommended Next Steps</h2>
+<ul>${(narrative && narrative.nextSteps.length > 0 ? narrative.nextSteps : ["Keep the exported evidence bundle and contact local authorities if needed."]).map((s) => `<li>${escapeHtml(s)}</li>`).join("")}</ul>
+
+<h2>Detected Threats</h2>
+<table><tr><th>Threat</th><th>Count</th><th>First seen</th><th>Last seen</th></tr>
+${rows(report.threats, (t) => [escapeHtml(humanize(t.name)), String(t.count), escapeHtml(formatTime(t.firstSeen)), escapeHtml(formatTime(t.lastSeen))], "None", 4)}
+</table>
+
+<h2>Actions Taken</h2>
+<table><tr><th>Action</th><th>Count</th><th>First</th></tr>
+${rows(report.actionsTaken, (a) => [escapeHtml(humanize(a.action)), String(a.count), escapeHtml(formatTime(a.firstAt))], "None", 3)}
+</table>
+
+<h2>Evidence</h2>
+<p>${evidence.audioCount} audio clips, ${evidence.imageCount} images${evidence.redactedCount > 0 ? `, ${evidence.redactedCount} redacted` : ""}. Hash chain: <span class="${evidence.chain.ok ? "ok" : "broken"}">${escapeHtml(chainText(report))}</span></p>
+<table><tr><th>#</th><th>Type</th><th>Captured</th><th>SHA-256</th></tr>
+${rows(evidence.items, (e) => [String(e.sequence), e.redacted ? `${e.type} (redacted)` : e.type, escapeHtml(formatTime(e.capturedAt)), `<code>${e.sha256}</code>`], "No evidence stored", 4)}
+</table>
+
+<h2>Timeline</h2>
+<table><tr><th>Time</th><th>Risk</th><th>Description</th><th>Actions</th></tr>
+${rows(report.timeline, (t) => [escapeHtml(formatTime(t.timestamp)), t.kind === "assessment" ? `${escapeHtml(t.riskLevel)}${t.score !== undefined ? `/${t.score}` : ""}` : "event", escapeHtml(t.description), escapeHtml(t.actions.map(humanize).join(", "))], "No entries", 4)}
+</table>
+
+<h2>GPS Trace</h2>
+<table><tr><th>Time</th><th>Position</th></tr>
+${rows(report.gpsTrace, (p) => [escapeHtml(formatTime(p.timestamp)), `<a href="https://maps.google.com/?q=${p.lat},${p.lng}">${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}</a>`], "No fixes recorded", 2)}
+</table>
+</body>
+</html>`;
+};
+
+/**
+ * Prints the HTML layout from a hidden iframe, so the app itself is not printed.
+ */
+export const printReport = (report: IncidentReport) => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  document.body.appendChild(frame);
+  const doc = frame.contentWindow?.document;
+  if (!doc || !frame.contentWindow) {
+    frame.remove();
+    return;
+  }
+  doc.open();
+  doc.write(reportToHtml(report));
+  doc.close();
+  frame.contentWindow.onafterprint = () => frame.remove();
+  frame.contentWindow.focus();
+  frame.contentWindow.print();
+};
@@ -0,0 +1,51 @@
+import { RideDetails } from "../types";
+
+/**
+ * Ride mode: the vehicle the user is travelling in, attached to every alert,
+ * report and live share until the trip ends.
+ */
+
+// Plates are compared and displayed without spacing or punctuation differences
+export const normalizePlate = (text: string): string =>
+  text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+export const isPlausiblePlate = (plate: string): boolean => /^(?=.*\d)[A-Z0-9]{4,10}$/.test(normalizePlate(plate));
+
+/**
+ * One-line description for alert texts, e.g.
+ * "KA01AB1234 (white Toyota Etios), driver Ravi, via Uber".
+ */
+export const formatVehicleInfo = (ride: RideDetails | null | undefined): string => {
+  if (!ride) return "Unknown";
+  const parts = [`${ride.plate || "plate unknown"}${ride.vehicle ? ` (${ride.vehicle})` : ""}`];
+  if (ride.driverName) parts.push(`driver ${ride.driverName}`);
+  if (ride.service) parts.push(`via ${ride.service}`);
+  if (ride.plate && !ride.plateConfirmed) parts.push("plate not confirmed");
+  return parts.join(", ");
+};
+
+/**
+ * Camera photos are several megabytes; the plate stays legible at 1280px.
+ * Returns JPEG base64 without the data URL prefix.
+ */
+export const photoToJpegBase64 = (file: Blob, maxWidth = 1280): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxWidth / img.naturalWidth);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.naturalWidth * scale);
+      canvas.height = Math.round(img.naturalHeight * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return reject(new Error("Canvas unavailable"));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.85).split(",")[1]);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read the photo"));
+    };
+    img.src = url;
+  });
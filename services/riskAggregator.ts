@@ -0,0 +1,181 @@
+import { AggregatedRisk, RiskAssessment, RiskLevel, RiskThresholds, RiskTrend } from "../types";
+import { ESCALATION_LADDER, actionRung } from "./escalation";
+import { DEFAULT_RISK_PROFILE } from "./profile";
+import { RISK_LEVEL_FLOOR, riskRank } from "./riskEngine";
+
+// Strongest escalation rung each confirmed level may trigger, and the rung it always implies
+const BASE_ACTION_CAP: Record<RiskLevel, number> = {
+  [RiskLevel.SAFE]: 0,
+  [RiskLevel.UNCERTAIN]: 0,
+  [RiskLevel.SUSPICIOUS]: 1,
+  [RiskLevel.DANGEROUS]: 4,
+  [RiskLevel.CRITICAL]: 5,
+};
+const ACTION_FLOOR: Record<RiskLevel, number> = {
+  [RiskLevel.SAFE]: 0,
+  [RiskLevel.UNCERTAIN]: 0,
+  [RiskLevel.SUSPICIOUS]: 0,
+  [RiskLevel.DANGEROUS]: 1,
+  [RiskLevel.CRITICAL]: 2,
+};
+
+export interface AggregatorOptions {
+  windowSize?: number; // assessments kept in the sliding window
+  halfLifeMs?: number; // weight of an assessment halves every halfLifeMs
+  hysteresis?: number; // score margin below a level floor before it counts as lower
+  escalateConfirmations?: number; // consecutive ticks needed to go up
+  deescalateConfirmations?: number; // consecutive ticks needed to go down
+  trendThreshold?: number; // score points per tick that count as rising/falling
+  thresholds?: RiskThresholds; // defaults to the normal preset
+}
+
+export interface RiskAggregator {
+  push: (assessment: RiskAssessment, timestamp?: number) => AggregatedRisk;
+  getCurrent: () => AggregatedRisk | null;
+  // Follows the user's sensitivity preset
+  setThresholds: (thresholds: RiskThresholds) => void;
+  reset: () => void;
+}
+
+/**
+ * Caps that let each level reach the rungs the thresholds allow inside its
+ * score band, so a preset that asks from 30 can ask while UNCERTAIN. Caps
+ * only ever rise above the base table; the normal preset leaves it unchanged.
+ */
+const actionCaps = (thresholds: RiskThresholds): Record<RiskLevel, number> => {
+  // Lowest score that triggers each rung (fusion rules 4/5 use a strict "above")
+  const triggers: [number, number][] = [
+    [thresholds.askScore, actionRung("ask_user_confirmation")],
+    [thresholds.notifyScore + 1, actionRung("notify_contacts")],
+    [thresholds.emergencyScore + 1, actionRung("full_emergency_mode")],
+  ];
+  const caps = { ...BASE_ACTION_CAP };
+  const levels = Object.keys(RISK_LEVEL_FLOOR) as RiskLevel[];
+  levels.forEach((level) => {
+    const bandEnd = Math.min(101, ...levels.filter((l) => riskRank(l) > riskRank(level)).map((l) => RISK_LEVEL_FLOOR[l]));
+    triggers.forEach(([score, rung]) => {
+      if (score < bandEnd) caps[level] = Math.max(caps[level], rung);
+    });
+  });
+  return caps;
+};
+
+/**
+ * Session-level risk fusion over time. Smooths per-tick assessments with
+ * exponential decay, applies hysteresis around level boundaries and only
+ * changes the confirmed level after it has been seen on consecutive ticks.
+ */
+export const createRiskAggregator = (options: AggregatorOptions = {}): RiskAggregator => {
+  const {
+    windowSize = 10,
+    halfLifeMs = 20000,
+    hysteresis = 8,
+    escalateConfirmations = 2,
+    deescalateConfirmations = 3,
+    trendThreshold = 3,
+  } = options;
+  let thresholds = options.thresholds ?? DEFAULT_RISK_PROFILE.thresholds;
+  let actionCap = actionCaps(thresholds);
+
+  let window: { assessment: RiskAssessment; timestamp: number }[] = [];
+  let level: RiskLevel = RiskLevel.SAFE;
+  let pendingLevel: RiskLevel | null = null;
+  let confirmations = 0;
+  let current: AggregatedRisk | null = null;
+
+  const smoothedScore = (now: number) => {
+    let weighted = 0;
+    let total = 0;
+    window.forEach(({ assessment, timestamp }) => {
+      const weight = Math.pow(0.5, Math.max(0, now - timestamp) / halfLifeMs);
+      weighted += assessment.score * weight;
+      total += weight;
+    });
+    return total === 0 ? 0 : weighted / total;
+  };
+
+  // Least-squares slope of the last few raw scores, in points per tick
+  const computeTrend = (): RiskTrend => {
+    const recent = window.slice(-5).map((w) => w.assessment.score);
+    if (recent.length < 3) return "stable";
+    const n = recent.length;
+    const meanX = (n - 1) / 2;
+    const meanY = recent.reduce((a, b) => a + b, 0) / n;
+    let num = 0;
+    let den = 0;
+    recent.forEach((y, x) => {
+      num += (x - meanX) * (y - meanY);
+      den += (x - meanX) ** 2;
+    });
+    const slope = num / den;
+    if (slope > trendThreshold) return "rising";
+    if (slope < -trendThreshold) return "falling";
+    return "stable";
+  };
+
+  // Level suggested by the smoothed score, with hysteresis against the current level
+  const candidateLevel = (score: number): RiskLevel => {
+    let candidate = RiskLevel.SAFE;
+    (Object.keys(RISK_LEVEL_FLOOR) as RiskLevel[]).forEach((l) => {
+      const floor = riskRank(l) > riskRank(level) ? RISK_LEVEL_FLOOR[l] : RISK_LEVEL_FLOOR[l] - hysteresis;
+      if (score >= floor) candidate = l;
+    });
+    return candidate;
+  };
+
+  const gateAction = (action: string, confirmed: RiskLevel): string => {
+    const rung = Math.max(ACTION_FLOOR[confirmed], Math.min(actionRung(action), actionCap[confirmed]));
+    return ESCALATION_LADDER[rung];
+  };
+
+  return {
+    push: (assessment, timestamp = Date.now()) => {
+      window = [...window, { assessment, timestamp }].slice(-windowSize);
+      const score = smoothedScore(timestamp);
+      const candidate = candidateLevel(score);
+
+      if (assessment.score > thresholds.emergencyScore && riskRank(assessment.riskLevel) > riskRank(level)) {
+        // Clear emergencies are not held back by smoothing
+        level = assessment.riskLevel;
+        pendingLevel = null;
+        confirmations = 0;
+      } else if (candidate === level) {
+        pendingLevel = null;
+        confirmations = 0;
+      } else {
+        confirmations = candidate === pendingLevel ? confirmations + 1 : 1;
+        pendingLevel = candidate;
+        const needed = riskRank(candidate) > riskRank(level) ? escalateConfirmations : deescalateConfirmations;
+        if (confirmations >= needed) {
+          level = candidate;
+          pendingLevel = null;
+          confirmations = 0;
+        }
+      }
+
+      current = {
+        level,
+        score: Math.round(score),
+        trend: computeTrend(),
+        pendingLevel,
+        confirmations,
+        recommendedAction: gateAction(assessment.recommendedAction, level),
+        raw: assessment,
+      };
+      return current;
+    },
+    getCurrent: () => current,
+    setThresholds: (next) => {
+      if (next === thresholds) return;
+      thresholds = next;
+      actionCap = actionCaps(next);
+    },
+    reset: () => {
+      window = [];
+      level = RiskLevel.SAFE;
+      pendingLevel = null;
+      confirmations = 0;
+      current = null;
+    },
+  };
+};
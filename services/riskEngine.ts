@@ -0,0 +1,290 @@
+import { RiskAssessment, RiskLevel, RiskThresholds, SensorSnapshot } from "../types";
+import { assessRisk } from "./geminiService";
+import { errorStatus } from "./analysisScheduler";
+import { ESCALATION_LADDER, actionRung } from "./escalation";
+import { DEFAULT_RISK_PROFILE } from "./profile";
+
+/**
+ * A RiskEngine turns one snapshot of sensor data into a RiskAssessment.
+ * App.tsx only talks to this interface, so engines can be swapped or chained.
+ */
+export interface RiskEngine {
+  id: string;
+  label: string;
+  assess: (snapshot: SensorSnapshot) => Promise<RiskAssessment>;
+  // Most recent upstream failure (HTTP status when known), cleared on success
+  getLastFailure?: () => { status: number | null; at: number } | null;
+}
+
+const RISK_ORDER: RiskLevel[] = [
+  RiskLevel.SAFE,
+  RiskLevel.UNCERTAIN,
+  RiskLevel.SUSPICIOUS,
+  RiskLevel.DANGEROUS,
+  RiskLevel.CRITICAL,
+];
+
+export const riskRank = (level: RiskLevel): number => RISK_ORDER.indexOf(level);
+
+// Lower score bound of each level
+export const RISK_LEVEL_FLOOR: Record<RiskLevel, number> = {
+  [RiskLevel.SAFE]: 0,
+  [RiskLevel.UNCERTAIN]: 20,
+  [RiskLevel.SUSPICIOUS]: 40,
+  [RiskLevel.DANGEROUS]: 60,
+  [RiskLevel.CRITICAL]: 80,
+};
+
+export const scoreToRiskLevel = (score: number): RiskLevel =>
+  [...RISK_ORDER].reverse().find((level) => score >= RISK_LEVEL_FLOOR[level]) ?? RiskLevel.SAFE;
+
+// Mirrors fusion rules 4 and 5 of the Gemini system instruction
+export const scoreToAction = (score: number, thresholds: RiskThresholds = DEFAULT_RISK_PROFILE.thresholds): string => {
+  if (score > thresholds.emergencyScore) return "full_emergency_mode";
+  if (score > thresholds.notifyScore) return "notify_contacts";
+  if (score >= thresholds.askScore) return "ask_user_confirmation";
+  return "none";
+};
+
+// Visual drivers that count as aggression for fusion rule 2
+const AGGRESSION_PATTERN = /aggress|weapon|assault|attack|fight|grab/i;
+
+/**
+ * Deterministic enforcement of the fusion rules on any assessment.
+ * The model is asked to follow them, but the app must not depend on it:
+ * level and score are reconciled towards the more severe of the two,
+ * rules 1 and 2 lift the result to DANGEROUS, and rules 4 and 5 set the
+ * minimum action for the score (at the user's thresholds). Every change is
+ * listed in `corrections`.
+ */
+export const enforceFusionRules = (
+  assessment: RiskAssessment,
+  thresholds: RiskThresholds = DEFAULT_RISK_PROFILE.thresholds
+): RiskAssessment => {
+  const corrections: string[] = [];
+  let { riskLevel, score } = assessment;
+
+  const raiseTo = (level: RiskLevel, why: string) => {
+    if (riskRank(riskLevel) >= riskRank(level) && score >= RISK_LEVEL_FLOOR[level]) return;
+    corrections.push(`${why}: ${riskLevel}/${score} raised to ${level}`);
+    if (riskRank(level) > riskRank(riskLevel)) riskLevel = level;
+    score = Math.max(score, RISK_LEVEL_FLOOR[level]);
+  };
+
+  // Level and score must describe the same band
+  const band = scoreToRiskLevel(score);
+  if (riskRank(riskLevel) > riskRank(band)) {
+    corrections.push(`score ${score} below ${riskLevel} band, raised to ${RISK_LEVEL_FLOOR[riskLevel]}`);
+    score = RISK_LEVEL_FLOOR[riskLevel];
+  } else if (riskRank(riskLevel) < riskRank(band)) {
+    corrections.push(`level ${riskLevel} below score ${score}, raised to ${band}`);
+    riskLevel = band;
+  }
+
+  // Rule 1: high audio distress + major route deviation = DANGEROUS
+  const distress = assessment.audioAnalysis?.distress_score ?? 0;
+  const deviation = assessment.contextAnalysis?.contextual_factors.route_deviation ?? "";
+  if (distress >= 60 && deviation.toLowerCase().startsWith("major")) {
+    raiseTo(RiskLevel.DANGEROUS, "rule 1 (audio distress + major route deviation)");
+  }
+
+  // Rule 2: aggressive behaviour detected = DANGEROUS
+  if (assessment.detectedThreats.some((t) => AGGRESSION_PATTERN.test(t))) {
+    raiseTo(RiskLevel.DANGEROUS, "rule 2 (aggressive behaviour)");
+  }
+
+  // Rules 4 and 5: minimum action for the score; drastic actions need a score to back them
+  let rung = actionRung(assessment.recommendedAction);
+  const required = actionRung(scoreToAction(score, thresholds));
+  if (score > thresholds.notifyScore && rung < required) {
+    corrections.push(`rule ${score > thresholds.emergencyScore ? 5 : 4}: action ${ESCALATION_LADDER[rung]} raised to ${ESCALATION_LADDER[required]}`);
+    rung = required;
+  } else if (score < thresholds.askScore && rung > 1) {
+    corrections.push(`action ${ESCALATION_LADDER[rung]} contradicts score ${score}, lowered to ask_user_confirmation`);
+    rung = 1;
+  }
+
+  if (corrections.length === 0) return assessment;
+  return {
+    ...assessment,
+    riskLevel,
+    score,
+    recommendedAction: ESCALATION_LADDER[rung].replace(/_/g, " "),
+    corrections: [...(assessment.corrections ?? []), ...corrections],
+  };
+};
+
+/**
+ * 1. GEMINI FUSION ENGINE (Cloud)
+ * Wraps assessRisk and enforces the fusion rules on its validated reply;
+ * rejects when the model cannot be reached or replies with garbage.
+ */
+// The model call itself; replaced by a recorder or a stub outside live sessions
+export type RiskModelClient = typeof assessRisk;
+
+export const createGeminiRiskEngine = (client: RiskModelClient = assessRisk): RiskEngine => ({
+  id: "gemini",
+  label: "Gemini Fusion",
+  assess: async (snapshot) => {
+    const result = await client(
+      snapshot.imageBase64,
+      snapshot.audioBase64,
+      snapshot.locationContext,
+      snapshot.watchPhrases,
+      snapshot.consent,
+      snapshot.riskProfile
+    );
+    return { ...enforceFusionRules(result, snapshot.riskProfile?.thresholds), engine: "gemini" };
+  },
+});
+
+/**
+ * 2. HEURISTIC ENGINE (On-device)
+ * Scores loudness, pitch, time of day and movement without any network access.
+ */
+export const createHeuristicRiskEngine = (): RiskEngine => ({
+  id: "heuristic",
+  label: "On-device Heuristics",
+  assess: async (snapshot) => {
+    const drivers: string[] = [];
+    const audio = snapshot.audioFeatures;
+
+    // Audio: the real-time detector's scream/impact events, else raw loudness and pitch
+    let audioScore = 0;
+    if (audio) {
+      if (audio.screamDetected) {
+        audioScore += 55;
+        drivers.push("scream_detected");
+      }
+      if (audio.impactDetected) {
+        audioScore += 35;
+        drivers.push("impact_sound");
+      }
+      if (!audio.screamDetected && !audio.impactDetected) {
+        if (audio.rms > 0.3 || audio.peak > 0.9) {
+          audioScore += 45;
+          drivers.push("loud_audio");
+        } else if (audio.rms > 0.15) {
+          audioScore += 20;
+          drivers.push("raised_voices");
+        }
+        if (audio.pitchHz !== null && audio.pitchHz > 400 && audio.rms > 0.15) {
+          audioScore += 25;
+          drivers.push("high_pitch_audio");
+        }
+      }
+      audioScore = Math.max(audioScore, audio.distressScore);
+    }
+
+    // Context: night raises the baseline, running or vehicle speeds add to it
+    let contextScore = 0;
+    if (snapshot.isNight) {
+      contextScore += 15;
+      drivers.push("night_time");
+    }
+    const movement = snapshot.movement?.pattern ?? "unknown";
+    if (snapshot.movement?.suddenAcceleration) {
+      contextScore += 25;
+      drivers.push("sudden_acceleration");
+    } else if (movement === "vehicle") {
+      contextScore += 10;
+      drivers.push("vehicle_speed");
+    } else if (movement === "running") {
+      contextScore += 20;
+      drivers.push("running");
+    } else if (movement === "loitering") {
+      contextScore += 10;
+      drivers.push("loitering");
+    }
+
+    const deviation = snapshot.contextFactors?.route_deviation ?? "unknown";
+    const majorDeviation = deviation.startsWith("major");
+    if (majorDeviation) {
+      contextScore += 20;
+      drivers.push("route_deviation");
+    }
+
+    let score = Math.min(100, audioScore + contextScore);
+    // Fusion rule 1: audio distress + major route deviation = DANGEROUS
+    if (audioScore >= 45 && majorDeviation) score = Math.max(score, 60);
+    const distress = Math.min(100, audioScore);
+
+    return {
+      riskLevel: scoreToRiskLevel(score),
+      score,
+      reason: drivers.length > 0
+        ? `On-device estimate (offline): ${drivers.join(", ").replace(/_/g, " ")}`
+        : "On-device estimate (offline): no risk signals",
+      recommendedAction: scoreToAction(score, snapshot.riskProfile?.thresholds).replace(/_/g, " "),
+      detectedThreats: drivers,
+      audioAnalysis: audio ? {
+        emotional_state: distress >= 45 ? "possible_distress" : "calm",
+        distress_score: distress,
+        keywords_detected: [],
+        tone_analysis: `Level ${(audio.rms * 100).toFixed(0)}%, pitch ${audio.pitchHz ? `${Math.round(audio.pitchHz)}Hz` : "n/a"}, centroid ${Math.round(audio.spectralCentroidHz ?? 0)}Hz`,
+      } : undefined,
+      contextAnalysis: {
+        contextual_factors: snapshot.contextFactors ?? {
+          time_risk: snapshot.isNight ? "high" : "low",
+          location_risk: "unknown",
+          route_deviation: deviation,
+          movement_pattern: movement,
+        },
+        context_risk_score: Math.min(100, contextScore),
+        reasoning: "Computed locally from sensor levels and GPS history",
+      },
+      engine: "heuristic",
+    };
+  },
+});
+
+/**
+ * 3. FAILOVER ENGINE
+ * Uses the primary engine while it is reachable. After a failure (or while the
+ * browser reports being offline) the fallback engine answers until the retry
+ * delay has passed, so dead zones still get a real score instead of a
+ * placeholder. The delay doubles with each consecutive failure.
+ */
+export interface FailoverEnvironment {
+  now: () => number;
+  isOffline: () => boolean;
+}
+
+const browserEnvironment: FailoverEnvironment = {
+  now: () => Date.now(),
+  isOffline: () => typeof navigator !== "undefined" && navigator.onLine === false,
+};
+
+export const createFailoverRiskEngine = (
+  primary: RiskEngine,
+  fallback: RiskEngine,
+  retryAfterMs: number = 30000,
+  maxRetryAfterMs: number = 5 * 60 * 1000,
+  env: FailoverEnvironment = browserEnvironment
+): RiskEngine => {
+  let primaryDownUntil = 0;
+  let failures = 0;
+  let lastFailure: { status: number | null; at: number } | null = null;
+
+  return {
+    id: `${primary.id}+${fallback.id}`,
+    label: `${primary.label} (fallback: ${fallback.label})`,
+    assess: async (snapshot) => {
+      if (!env.isOffline() && env.now() >= primaryDownUntil) {
+        try {
+          const result = await primary.assess(snapshot);
+          lastFailure = null;
+          failures = 0;
+          return result;
+        } catch (error) {
+          console.warn(`${primary.label} unreachable, switching to ${fallback.label}`, error);
+          failures++;
+          primaryDownUntil = env.now() + Math.min(maxRetryAfterMs, retryAfterMs * 2 ** (failures - 1));
+          lastFailure = { status: errorStatus(error), at: env.now() };
+        }
+      }
+      return fallback.assess(snapshot);
+    },
+    getLastFailure: () => lastFailure,
+  };
+};
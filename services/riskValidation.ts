@@ -0,0 +1,136 @@
+import { AudioAnalysisDetails, ContextAnalysis, RiskAssessment, RiskLevel } from "../types";
+import { ESCALATION_LADDER } from "./escalation";
+
+/**
+ * Runtime validation of the fusion model's JSON reply.
+ * The response schema is only a request to the model, so every field is
+ * checked here: recoverable problems are repaired and listed, anything that
+ * leaves no trustworthy score or level is rejected with an Error.
+ */
+
+export interface ValidatedRiskResponse {
+  assessment: RiskAssessment;
+  repairs: string[];
+}
+
+const RISK_LEVELS = Object.values(RiskLevel) as string[];
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+};
+
+// Integer in 0..100; notes a repair when the value had to change
+const clampScore = (value: number, field: string, repairs: string[]): number => {
+  const clamped = Math.min(100, Math.max(0, Math.round(value)));
+  if (clamped !== value) repairs.push(`${field} ${value} clamped to ${clamped}`);
+  return clamped;
+};
+
+const toText = (value: unknown, field: string, fallback: string, repairs: string[]): string => {
+  if (typeof value === "string" && value.trim() !== "") return value;
+  repairs.push(`${field} missing, defaulted to "${fallback}"`);
+  return fallback;
+};
+
+const toStringList = (value: unknown, field: string, repairs: string[]): string[] => {
+  if (!Array.isArray(value)) {
+    if (value !== undefined) repairs.push(`${field} is not a list, ignored`);
+    return [];
+  }
+  const items = value.filter((v): v is string => typeof v === "string" && v.trim() !== "");
+  if (items.length !== value.length) repairs.push(`${field} had ${value.length - items.length} invalid entries`);
+  return items;
+};
+
+const validateAudio = (value: unknown, repairs: string[]): AudioAnalysisDetails | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    repairs.push("audio_analysis is not an object, dropped");
+    return undefined;
+  }
+  const distress = toNumber(value.distress_score);
+  if (distress === null) repairs.push("audio_analysis.distress_score missing, defaulted to 0");
+  return {
+    emotional_state: toText(value.emotional_state, "audio_analysis.emotional_state", "unknown", repairs),
+    distress_score: distress === null ? 0 : clampScore(distress, "audio_analysis.distress_score", repairs),
+    keywords_detected: toStringList(value.keywords_detected, "audio_analysis.keywords_detected", repairs),
+    tone_analysis: toText(value.tone_analysis, "audio_analysis.tone_analysis", "n/a", repairs),
+  };
+};
+
+const validateContext = (value: unknown, repairs: string[]): ContextAnalysis | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value) || !isObject(value.contextual_factors)) {
+    repairs.push("context_analysis is malformed, dropped");
+    return undefined;
+  }
+  const f = value.contextual_factors;
+  const score = toNumber(value.context_risk_score);
+  if (score === null) repairs.push("context_analysis.context_risk_score missing, defaulted to 0");
+  return {
+    contextual_factors: {
+      time_risk: toText(f.time_risk, "contextual_factors.time_risk", "unknown", repairs),
+      location_risk: toText(f.location_risk, "contextual_factors.location_risk", "unknown", repairs),
+      route_deviation: toText(f.route_deviation, "contextual_factors.route_deviation", "unknown", repairs),
+      movement_pattern: toText(f.movement_pattern, "contextual_factors.movement_pattern", "unknown", repairs),
+    },
+    context_risk_score: score === null ? 0 : clampScore(score, "context_analysis.context_risk_score", repairs),
+    reasoning: toText(value.reasoning, "context_analysis.reasoning", "n/a", repairs),
+  };
+};
+
+/**
+ * Check a parsed model reply against the expected schema.
+ * Throws when the score or risk level is missing or unusable.
+ */
+export const validateRiskResponse = (raw: unknown): ValidatedRiskResponse => {
+  if (!isObject(raw)) throw new Error("Invalid risk response: not a JSON object");
+  const repairs: string[] = [];
+
+  const rawScore = toNumber(raw.final_risk_score);
+  if (rawScore === null) throw new Error(`Invalid risk response: final_risk_score is ${JSON.stringify(raw.final_risk_score)}`);
+  const score = clampScore(rawScore, "final_risk_score", repairs);
+
+  const level = typeof raw.risk_level === "string" ? raw.risk_level.trim().toUpperCase() : "";
+  if (!RISK_LEVELS.includes(level)) throw new Error(`Invalid risk response: risk_level is ${JSON.stringify(raw.risk_level)}`);
+
+  let action = typeof raw.recommended_action === "string"
+    ? raw.recommended_action.trim().toLowerCase().replace(/[\s-]+/g, "_")
+    : "";
+  if (!(ESCALATION_LADDER as readonly string[]).includes(action)) {
+    repairs.push(`recommended_action ${JSON.stringify(raw.recommended_action)} unknown, defaulted to none`);
+    action = "none";
+  }
+
+  return {
+    assessment: {
+      riskLevel: level as RiskLevel,
+      score,
+      reason: toText(raw.explanation, "explanation", "No explanation provided", repairs),
+      recommendedAction: action.replace(/_/g, " "),
+      detectedThreats: toStringList(raw.primary_risk_drivers, "primary_risk_drivers", repairs),
+      audioAnalysis: validateAudio(raw.audio_analysis, repairs),
+      contextAnalysis: validateContext(raw.context_analysis, repairs),
+    },
+    repairs,
+  };
+};
+
+/**
+ * JSON.parse plus validateRiskResponse; a syntax error is reported as an invalid response.
+ */
+export const parseRiskResponse = (text: string): ValidatedRiskResponse => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid risk response: not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+  return validateRiskResponse(raw);
+};
@@ -0,0 +1,183 @@
+import { SafePlace, SafePlaceCategory } from "../types";
+import { findSafePlaces } from "./geminiService";
+import { LatLng, bearingDegrees, distanceMeters } from "./geo";
+import { loadJson, saveJson } from "./storage";
+
+const CACHE_KEY = "sheshield.safePlacesCache";
+const CACHE_CELL_DEG = 0.01; // ~1.1 km cells
+const CACHE_MAX_AREAS = 30;
+const CACHE_REUSE_RADIUS_M = 3000; // offline, any cached area this close is good enough
+const MAX_PLACE_DISTANCE_M = 25000; // listed coordinates further away are treated as unreliable
+
+export const EMERGENCY_FALLBACK: SafePlace = {
+  name: "Emergency Services",
+  address: "Dial 911/112",
+  distance: "N/A",
+  type: "Emergency",
+  category: "other",
+  openNow: null,
+};
+
+// Lower is better: a police station 1 km away ranks with a store 800 m away
+const CATEGORY_WEIGHT: Record<SafePlaceCategory, number> = {
+  police: 0.8,
+  hospital: 0.9,
+  store_24h: 1,
+  transit: 1.1,
+  other: 1.2,
+};
+
+export const CATEGORY_LABEL: Record<SafePlaceCategory, string> = {
+  police: "Police",
+  hospital: "Hospital",
+  store_24h: "24/7 Store",
+  transit: "Transit",
+  other: "Safe Haven",
+};
+
+const COMPASS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+export const compassPoint = (bearingDeg: number) => COMPASS[Math.round(bearingDeg / 45) % 8];
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+
+/**
+ * Distance and bearing from `from`, then sorted: closed places last, the rest
+ * by category-weighted distance. Places without coordinates keep their order at the end.
+ */
+export const rankSafePlaces = (places: SafePlace[], from: LatLng | null): SafePlace[] => {
+  const measured = places.map((place) => {
+    if (!from || !place.location) return place;
+    const distanceM = distanceMeters(from, place.location);
+    const bearingDeg = bearingDegrees(from, place.location);
+    return { ...place, distanceM, bearingDeg, distance: `${formatDistance(distanceM)} ${compassPoint(bearingDeg)}` };
+  });
+  const rank = (p: SafePlace) =>
+    p.distanceM === undefined ? Infinity : p.distanceM * CATEGORY_WEIGHT[p.category] * (p.openNow === false ? 10 : 1);
+  return measured
+    .map((place, index) => ({ place, index }))
+    .sort((a, b) => rank(a.place) - rank(b.place) || a.index - b.index)
+    .map(({ place }) => place);
+};
+
+/**
+ * 1. AREA CACHE
+ * Results are stored per ~1 km grid cell so the list survives reloads and dead zones.
+ */
+interface CachedArea {
+  center: LatLng;
+  fetchedAt: number;
+  places: SafePlace[];
+}
+
+const cellKey = (p: LatLng) =>
+  `${Math.round(p.lat / CACHE_CELL_DEG)}:${Math.round(p.lng / CACHE_CELL_DEG)}`;
+
+const loadCache = () => loadJson<Record<string, CachedArea>>(CACHE_KEY, {});
+
+export const cacheSafePlaces = (center: LatLng, places: SafePlace[]) => {
+  const cache = { ...loadCache(), [cellKey(center)]: { center, fetchedAt: Date.now(), places } };
+  // Oldest areas go first once the cache is full
+  const kept = Object.entries(cache).sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt).slice(0, CACHE_MAX_AREAS);
+  saveJson(CACHE_KEY, Object.fromEntries(kept));
+};
+
+export const getCachedSafePlaces = (p: LatLng): CachedArea | null => {
+  const cache = loadCache();
+  const exact = cache[cellKey(p)];
+  if (exact) return exact;
+  const nearby = Object.values(cache)
+    .map((area) => ({ area, d: distanceMeters(p, area.center) }))
+    .filter(({ d }) => d <= CACHE_REUSE_RADIUS_M)
+    .sort((a, b) => a.d - b.d)[0];
+  return nearby?.area ?? null;
+};
+
+/**
+ * 2. FINDER
+ * Re-ranks on every fix; searches again once the user has moved
+ * refreshDistanceM from the last search point (never more often than
+ * minIntervalMs, to stay clear of 429s). Failed searches fall back to the
+ * area cache, and finally to the emergency number, and are retried once
+ * minIntervalMs has passed wherever the user is.
+ */
+export interface SafePlacesFinderOptions {
+  search?: (lat: number, lng: number) => Promise<SafePlace[]>;
+  refreshDistanceM?: number;
+  minIntervalMs?: number;
+  cacheMaxAgeMs?: number; // a fresh cached area is used instead of searching
+  onUpdate: (places: SafePlace[], source: "live" | "cache" | "fallback") => void;
+}
+
+export interface SafePlacesFinder {
+  update: (p: LatLng) => void;
+  refresh: (p: LatLng) => Promise<void>;
+  getPlaces: () => SafePlace[];
+}
+
+export const createSafePlacesFinder = (options: SafePlacesFinderOptions): SafePlacesFinder => {
+  const {
+    search = findSafePlaces,
+    refreshDistanceM = 500,
+    minIntervalMs = 60000,
+    cacheMaxAgeMs = 24 * 60 * 60 * 1000,
+    onUpdate,
+  } = options;
+
+  let places: SafePlace[] = [];
+  let source: "live" | "cache" | "fallback" = "fallback";
+  let lastSearchAt = -Infinity;
+  let lastSearchPoint: LatLng | null = null;
+  let inFlight = false;
+  let latest: LatLng | null = null;
+
+  const publish = (next: SafePlace[], nextSource: typeof source) => {
+    places = rankSafePlaces(next, latest);
+    source = nextSource;
+    onUpdate(places, source);
+  };
+
+  // Usable results must have at least one plausible, located place
+  const plausible = (found: SafePlace[], p: LatLng) =>
+    found.filter((place) => !place.location || distanceMeters(p, place.location) <= MAX_PLACE_DISTANCE_M);
+
+  const refresh = async (p: LatLng) => {
+    if (inFlight) return;
+    inFlight = true;
+    lastSearchAt = Date.now();
+    try {
+      const cached = getCachedSafePlaces(p);
+      if (cached && Date.now() - cached.fetchedAt < cacheMaxAgeMs && distanceMeters(p, cached.center) < refreshDistanceM) {
+        lastSearchPoint = p;
+        publish(cached.places, "cache");
+        return;
+      }
+      const found = plausible(await search(p.lat, p.lng), p);
+      if (found.length === 0) throw new Error("No safe places found");
+      cacheSafePlaces(p, found);
+      lastSearchPoint = p;
+      publish(found, "live");
+    } catch (error) {
+      console.error("Safe Place Search Error:", error);
+      lastSearchPoint = null;
+      const cached = getCachedSafePlaces(p);
+      publish(cached ? cached.places : [EMERGENCY_FALLBACK], cached ? "cache" : "fallback");
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  return {
+    update: (p) => {
+      latest = p;
+      const moved = lastSearchPoint ? distanceMeters(p, lastSearchPoint) : Infinity;
+      if (moved >= refreshDistanceM && Date.now() - lastSearchAt >= minIntervalMs) {
+        refresh(p);
+      } else if (places.length > 0) {
+        publish(places, source);
+      }
+    },
+    refresh,
+    getPlaces: () => places,
+  };
+};
@@ -0,0 +1,135 @@
+import { ContextFactors, Geofence, LocationData, SafeRoute, SafeZones, ZoneStatus } from "../types";
+import { distanceMeters, LatLng } from "./geo";
+import { loadJson, saveJson } from "./storage";
+
+const STORAGE_KEY = "sheshield.safeZones";
+const RECORDED_POINT_SPACING_M = 20;
+
+export const loadSafeZones = (): SafeZones => loadJson<SafeZones>(STORAGE_KEY, { geofences: [], routes: [] });
+
+export const saveSafeZones = (zones: SafeZones): void => saveJson(STORAGE_KEY, zones);
+
+/**
+ * Distance from p to the segment a-b in metres, using a local equirectangular
+ * projection (accurate enough at corridor scale).
+ */
+const distanceToSegment = (p: LatLng, a: LatLng, b: LatLng): number => {
+  const mPerDegLat = 111320;
+  const mPerDegLng = 111320 * Math.cos((p.lat * Math.PI) / 180);
+  const ax = (a.lng - p.lng) * mPerDegLng, ay = (a.lat - p.lat) * mPerDegLat;
+  const bx = (b.lng - p.lng) * mPerDegLng, by = (b.lat - p.lat) * mPerDegLat;
+  const dx = bx - ax, dy = by - ay;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lenSq));
+  const cx = ax + t * dx, cy = ay + t * dy;
+  return Math.sqrt(cx * cx + cy * cy);
+};
+
+export const distanceToRoute = (p: LatLng, route: SafeRoute): number => {
+  const pts = route.waypoints;
+  if (pts.length === 0) return Infinity;
+  if (pts.length === 1) return distanceMeters(p, pts[0]);
+  let best = Infinity;
+  for (let i = 1; i < pts.length; i++) {
+    best = Math.min(best, distanceToSegment(p, pts[i - 1], pts[i]));
+  }
+  return best;
+};
+
+/**
+ * Where is the user relative to their geofences and safe routes?
+ * Returns null when nothing is configured, so callers keep their defaults.
+ */
+export const evaluateZones = (p: LatLng, zones: SafeZones): ZoneStatus | null => {
+  if (zones.geofences.length === 0 && zones.routes.length === 0) return null;
+
+  let inside: Geofence | null = null;
+  let route: SafeRoute | null = null;
+  let near: ZoneStatus["nearest"] = null;
+  let routeDistance: number | null = null;
+
+  for (const fence of zones.geofences) {
+    const d = Math.max(0, distanceMeters(p, fence) - fence.radiusM);
+    if (d === 0 && !inside) inside = fence;
+    if (!near || d < near.distanceM) near = { name: fence.name, kind: "geofence", distanceM: d };
+  }
+
+  for (const candidate of zones.routes) {
+    const d = Math.max(0, distanceToRoute(p, candidate) - candidate.corridorM);
+    if (d === 0 && !route) route = candidate;
+    if (routeDistance === null || d < routeDistance) routeDistance = d;
+    if (!near || d < near.distanceM) near = { name: candidate.name, kind: "route", distanceM: d };
+  }
+
+  let summary: string;
+  if (inside) summary = `Inside geofence [${inside.name}]`;
+  else if (route) summary = `On safe route [${route.name}]`;
+  else if (near) summary = `Outside all safe zones, ${Math.round(near.distanceM)}m from ${near.kind} [${near.name}]`;
+  else summary = "Outside all safe zones";
+
+  return {
+    insideGeofence: inside?.name ?? null,
+    onRoute: route?.name ?? null,
+    nearest: near,
+    outsideCorridor: !inside && !route,
+    routeDistanceM: routeDistance,
+    summary,
+  };
+};
+
+/**
+ * Overlay zone status onto measured context factors: corridor distance
+ * replaces heading-based deviation and drives location_risk. Only routes
+ * define a corridor; being away from a geofence such as Home is not a
+ * deviation, so the measured factors stay as they are.
+ */
+export const applyZoneStatus = (factors: ContextFactors, status: ZoneStatus | null, isNight: boolean): ContextFactors => {
+  if (!status) return factors;
+  if (!status.outsideCorridor) {
+    return { ...factors, route_deviation: `none (${status.summary})`, location_risk: "low" };
+  }
+  if (status.routeDistanceM === null) return factors;
+  const severity = status.routeDistanceM > 200 ? "major" : "minor";
+  return {
+    ...factors,
+    route_deviation: `${severity} (${status.summary})`,
+    location_risk: isNight || severity === "major" ? "high" : "medium",
+  };
+};
+
+export const zoneThreats = (status: ZoneStatus | null, isNight: boolean): string[] => {
+  if (!status || !status.outsideCorridor || status.routeDistanceM === null || !isNight) return [];
+  return ["left_safe_corridor_at_night"];
+};
+
+/**
+ * Turn a recorded GPS trace into route waypoints, dropping points closer
+ * than RECORDED_POINT_SPACING_M to the previous kept one.
+ */
+export const waypointsFromTrace = (trace: LocationData[]): LatLng[] => {
+  const points: LatLng[] = [];
+  trace.forEach((fix) => {
+    const p = { lat: fix.latitude, lng: fix.longitude };
+    const last = points[points.length - 1];
+    if (!last || distanceMeters(last, p) >= RECORDED_POINT_SPACING_M) points.push(p);
+  });
+  const end = trace[trace.length - 1];
+  if (end && points.length > 0) {
+    const last = points[points.length - 1];
+    if (last.lat !== end.latitude || last.lng !== end.longitude) points.push({ lat: end.latitude, lng: end.longitude });
+  }
+  return points;
+};
+
+/**
+ * Parse drawn waypoints in "lat,lng" pairs separated by newlines or semicolons.
+ */
+export const parseWaypoints = (text: string): LatLng[] | null => {
+  const points: LatLng[] = [];
+  for (const part of text.split(/[;\n]+/).map((p) => p.trim()).filter(Boolean)) {
+    const [lat, lng] = part.split(",").map((v) => parseFloat(v.trim()));
+    if (Number.isNaN(lat) || Number.isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    points.push({ lat, lng });
+  }
+  return points.length >= 2 ? points : null;
+};
@@ -0,0 +1,183 @@
+import { LocationData, RiskAssessment, SafeZones } from "../types";
+import { TickInputs } from "./analysisPipeline";
+import { errorStatus } from "./analysisScheduler";
+import { EscalationAction, EscalationController } from "./escalation";
+import { RiskModelClient } from "./riskEngine";
+
+/**
+ * Session recorder: captures every analysis input (frames, audio clips,
+ * location fixes, timestamps), the model's raw responses and the user's
+ * escalation inputs, so the session can be replayed offline through the same
+ * pipeline (see sessionReplay.ts).
+ *
+ * Recordings hold unfiltered camera frames and audio. They are only kept in
+ * memory until downloaded and must be treated like the evidence vault.
+ */
+
+export const RECORDING_FORMAT = "sheshield.recording";
+export const RECORDING_VERSION = 1;
+
+export type RecordedModelCall =
+  | { response: RiskAssessment }
+  | { error: { status: number | null; message: string } };
+
+export interface RecordedTick extends TickInputs {
+  offline: boolean; // browser reported no network, so the cloud engine was skipped
+  model: RecordedModelCall | null; // null when the engine did not call the model
+}
+
+export type InterventionKind =
+  | "trigger"
+  | "confirm_safe"
+  | "request_cancel"
+  | "confirm_cancel"
+  | "abort_cancel"
+  | "stand_down"
+  | "reset";
+
+// A direct call on the escalation controller (buttons, discreet triggers, trip alarms)
+export interface RecordedIntervention {
+  at: number;
+  kind: InterventionKind;
+  action?: EscalationAction; // trigger only
+  silent?: boolean; // trigger only
+  reason?: string;
+}
+
+export interface SessionRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  startedAt: number;
+  endedAt: number | null;
+  timeZone: string; // local hour drives the night rules, so replays should run in the same zone
+  safeZones: SafeZones;
+  fixes: LocationData[];
+  ticks: RecordedTick[];
+  interventions: RecordedIntervention[];
+}
+
+export interface SessionRecorder {
+  addFix: (fix: LocationData) => void;
+  addTick: (inputs: TickInputs) => void;
+  recordModelCall: (call: RecordedModelCall) => void;
+  addIntervention: (intervention: Omit<RecordedIntervention, "at">) => void;
+  getCounts: () => { ticks: number; fixes: number; interventions: number };
+  finish: () => SessionRecording;
+}
+
+const browserOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+export const createSessionRecorder = (safeZones: SafeZones, now: () => number = () => Date.now()): SessionRecorder => {
+  const recording: SessionRecording = {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    startedAt: now(),
+    endedAt: null,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    safeZones,
+    fixes: [],
+    ticks: [],
+    interventions: [],
+  };
+
+  return {
+    addFix: (fix) => {
+      recording.fixes.push(fix);
+    },
+    addTick: (inputs) => {
+      recording.ticks.push({ ...inputs, offline: browserOffline(), model: null });
+    },
+    // The model is called at most once per tick, after the tick's inputs were added
+    recordModelCall: (call) => {
+      const tick = recording.ticks[recording.ticks.length - 1];
+      if (tick && !tick.model) tick.model = call;
+    },
+    addIntervention: (intervention) => {
+      recording.interventions.push({ ...intervention, at: now() });
+    },
+    getCounts: () => ({
+      ticks: recording.ticks.length,
+      fixes: recording.fixes.length,
+      interventions: recording.interventions.length,
+    }),
+    finish: () => ({ ...recording, endedAt: recording.endedAt ?? now() }),
+  };
+};
+
+/**
+ * Wraps the model client so that, while a recorder is active, every raw
+ * response or failure is stored with the tick that asked for it.
+ */
+export const withModelRecording = (client: RiskModelClient, getRecorder: () => SessionRecorder | null): RiskModelClient =>
+  async (...args) => {
+    try {
+      const response = await client(...args);
+      getRecorder()?.recordModelCall({ response });
+      return response;
+    } catch (error) {
+      getRecorder()?.recordModelCall({
+        error: { status: errorStatus(error), message: error instanceof Error ? error.message : String(error) },
+      });
+      throw error;
+    }
+  };
+
+/**
+ * Wraps the escalation controller so direct calls are recorded as
+ * interventions. Engine recommendations are not: replays derive them again.
+ */
+export const withInterventionRecording = (
+  controller: EscalationController,
+  getRecorder: () => SessionRecorder | null
+): EscalationController => {
+  const note = (intervention: Omit<RecordedIntervention, "at">) => getRecorder()?.addIntervention(intervention);
+  return {
+    ...controller,
+    trigger: (action, options = {}) => {
+      note({ kind: "trigger", action, silent: options.silent ?? false, reason: options.reason });
+      controller.trigger(action, options);
+    },
+    confirmSafe: () => {
+      note({ kind: "confirm_safe" });
+      controller.confirmSafe();
+    },
+    requestCancel: () => {
+      note({ kind: "request_cancel" });
+      controller.requestCancel();
+    },
+    confirmCancel: () => {
+      note({ kind: "confirm_cancel" });
+      controller.confirmCancel();
+    },
+    abortCancel: () => {
+      note({ kind: "abort_cancel" });
+      controller.abortCancel();
+    },
+    standDown: (reason) => {
+      note({ kind: "stand_down", reason });
+      controller.standDown(reason);
+    },
+    reset: () => {
+      note({ kind: "reset" });
+      controller.reset();
+    },
+  };
+};
+
+export const parseRecording = (text: string): SessionRecording => {
+  let data: Partial<SessionRecording>;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!data || data.format !== RECORDING_FORMAT) throw new Error("The file is not a SheShield session recording.");
+  if (data.version !== RECORDING_VERSION) throw new Error(`Unsupported recording version ${data.version}.`);
+  if (!Array.isArray(data.ticks) || !Array.isArray(data.fixes)) throw new Error("The recording is incomplete.");
+  return {
+    interventions: [],
+    safeZones: { geofences: [], routes: [] },
+    endedAt: null,
+    ...data,
+  } as SessionRecording;
+};
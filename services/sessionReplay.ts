@@ -0,0 +1,308 @@
+import { EmergencyContact, IncidentLog, IncidentReport, MonitoringSession, RiskAssessment, RiskLevel, SafeZones } from "../types";
+import { AnalysisOutcome } from "./analysisScheduler";
+import { CapturedImage, PipelineSensors, createAnalysisPipeline } from "./analysisPipeline";
+import { contactsForTier } from "./contacts";
+import { createContextTracker } from "./contextTracker";
+import { EscalationEffect, EscalationOptions, EscalationTimers, EscalationTransition, createEscalationController } from "./escalation";
+import { sha256Hex } from "./evidenceVault";
+import { ReportEvidenceSource, composeIncidentReport } from "./incidentReport";
+import { DEFAULT_RISK_PROFILE } from "./profile";
+import { AggregatorOptions, createRiskAggregator } from "./riskAggregator";
+import { RiskModelClient, createFailoverRiskEngine, createGeminiRiskEngine, createHeuristicRiskEngine, riskRank } from "./riskEngine";
+import { RecordedTick, SessionRecording } from "./sessionRecorder";
+import { createId } from "./storage";
+
+/**
+ * Deterministic replay of a recorded session. The recorded frames, audio and
+ * fixes are fed through the live analysis pipeline with fake sensors, a
+ * stubbed model client and a manual clock, so escalation, alerting and
+ * reporting can be checked offline and compared across code changes.
+ */
+
+/**
+ * 1. MANUAL CLOCK
+ * Timers only fire when the clock is advanced past their deadline, in
+ * deadline order.
+ */
+export interface ManualClock extends EscalationTimers {
+  advanceTo: (time: number) => void;
+}
+
+export const createManualClock = (start: number): ManualClock => {
+  let current = start;
+  let nextId = 0;
+  const pending = new Map<number, { due: number; fn: () => void }>();
+
+  return {
+    now: () => current,
+    setTimeout: (fn, ms) => {
+      const id = ++nextId;
+      pending.set(id, { due: current + Math.max(0, ms), fn });
+      return id;
+    },
+    clearTimeout: (handle) => {
+      pending.delete(handle as number);
+    },
+    advanceTo: (time) => {
+      for (;;) {
+        let dueId: number | null = null;
+        let dueAt = Infinity;
+        // Map order is insertion order, so ties fire in the order they were set
+        for (const [id, timer] of pending) {
+          if (timer.due <= time && timer.due < dueAt) {
+            dueId = id;
+            dueAt = timer.due;
+          }
+        }
+        if (dueId === null) break;
+        const { fn } = pending.get(dueId)!;
+        pending.delete(dueId);
+        current = Math.max(current, dueAt);
+        fn();
+      }
+      current = Math.max(current, time);
+    },
+  };
+};
+
+/**
+ * 2. FAKE PROVIDERS
+ * Camera, microphone and GPS answer with what was recorded for the tick.
+ */
+const recordedSensors = (getTick: () => RecordedTick): PipelineSensors => ({
+  getLocation: () => getTick().location,
+  captureImage: async (): Promise<CapturedImage | null> => getTick().image,
+  getAudio: async () => getTick().audio,
+  getAudioFeatures: () => getTick().audioFeatures,
+  getConsent: () => getTick().consent,
+  getWatchPhrases: () => getTick().watchPhrases,
+  // Recordings made before user profiles replay at the normal preset
+  getRiskProfile: () => getTick().riskProfile ?? DEFAULT_RISK_PROFILE,
+});
+
+// Answers with the tick's recorded response, or fails the way the recording did
+const recordedModelClient = (getTick: () => RecordedTick): RiskModelClient => async () => {
+  const call = getTick().model;
+  if (!call) throw new Error("No model response was recorded for this tick");
+  if ("error" in call) throw Object.assign(new Error(call.error.message), { status: call.error.status ?? undefined });
+  return call.response;
+};
+
+/**
+ * 3. REPLAY
+ */
+export interface ReplayOptions {
+  escalation?: Pick<EscalationOptions, "confirmTimeoutMs" | "cancelWindowMs" | "snoozeMs">;
+  aggregator?: AggregatorOptions;
+  safeZones?: SafeZones; // defaults to the zones saved with the recording
+  contacts?: EmergencyContact[]; // lists who each alert would have reached
+}
+
+export interface ReplayTick {
+  at: number;
+  raw: RiskAssessment;
+  result: RiskAssessment;
+  actionsTaken: string[];
+  outcome: AnalysisOutcome;
+}
+
+export interface ReplayAlert {
+  at: number;
+  kind: "emergency" | "false_alarm";
+  tier: number | null; // highest contact tier reached, null for false alarms
+  recipients: string[]; // contact names
+}
+
+export interface ReplayResult {
+  ticks: ReplayTick[];
+  transitions: EscalationTransition[];
+  effects: { at: number; effect: EscalationEffect }[];
+  alerts: ReplayAlert[];
+  incidents: IncidentLog[];
+  report: IncidentReport;
+  peakRiskLevel: RiskLevel;
+  warnings: string[];
+}
+
+export const replaySession = async (recording: SessionRecording, options: ReplayOptions = {}): Promise<ReplayResult> => {
+  const { contacts = [] } = options;
+  const warnings: string[] = [];
+  const localZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (recording.timeZone && recording.timeZone !== localZone) {
+    warnings.push(`Recorded in ${recording.timeZone} but replayed in ${localZone}; night rules may differ (set TZ to match).`);
+  }
+
+  const clock = createManualClock(recording.startedAt);
+  const tracker = createContextTracker();
+  const safeZones = options.safeZones ?? recording.safeZones;
+  let current: RecordedTick | null = null;
+  const getTick = () => {
+    if (!current) throw new Error("Replay sensors read outside a tick");
+    return current;
+  };
+
+  const session: MonitoringSession = {
+    id: createId(),
+    startedAt: new Date(recording.startedAt).toISOString(),
+    endedAt: recording.endedAt !== null ? new Date(recording.endedAt).toISOString() : undefined,
+    peakRiskLevel: RiskLevel.SAFE,
+    peakScore: 0,
+    incidentCount: 0,
+  };
+  const incidents: IncidentLog[] = [];
+  const evidence: Promise<ReportEvidenceSource>[] = [];
+  const transitions: EscalationTransition[] = [];
+  const effects: ReplayResult["effects"] = [];
+  const alerts: ReplayAlert[] = [];
+  let evidenceMode = { audio: false, video: false };
+  let notified = new Set<string>();
+  let tickActions: string[] | null = null;
+  let latestLevel = RiskLevel.SAFE;
+
+  const addIncident = (incident: Omit<IncidentLog, "id" | "sessionId">) => {
+    incidents.push({ ...incident, id: createId(), sessionId: session.id });
+  };
+
+  const notify = (maxTier: number) => {
+    const recipients = contactsForTier(contacts, maxTier).filter((c) => !notified.has(c.id));
+    recipients.forEach((c) => notified.add(c.id));
+    alerts.push({ at: clock.now(), kind: "emergency", tier: maxTier, recipients: recipients.map((c) => c.name) });
+  };
+
+  // Mirrors App's effect handling without sending anything
+  const handleEffect = (effect: EscalationEffect) => {
+    effects.push({ at: clock.now(), effect });
+    if (tickActions) tickActions.push(effect);
+    else addIncident({
+      timestamp: new Date(clock.now()).toISOString(),
+      kind: "event",
+      riskLevel: latestLevel,
+      description: `Escalation: ${effect}`,
+      actionsTaken: [effect],
+    });
+    switch (effect) {
+      case "notify_contacts":
+        notify(1);
+        break;
+      case "full_emergency_mode":
+        notify(3);
+        break;
+      case "start_audio_recording":
+        evidenceMode = { ...evidenceMode, audio: true };
+        break;
+      case "start_video_stream":
+        evidenceMode = { ...evidenceMode, video: true };
+        break;
+      case "stand_down":
+        evidenceMode = { audio: false, video: false };
+        alerts.push({
+          at: clock.now(),
+          kind: "false_alarm",
+          tier: null,
+          recipients: contacts.filter((c) => notified.has(c.id)).map((c) => c.name),
+        });
+        notified = new Set();
+        break;
+    }
+  };
+
+  const escalation = createEscalationController({
+    ...options.escalation,
+    timers: clock,
+    onChange: (snapshot) => {
+      const last = snapshot.history[snapshot.history.length - 1];
+      if (last && last !== transitions[transitions.length - 1]) transitions.push(last);
+    },
+    onEffect: handleEffect,
+  });
+
+  const engine = createFailoverRiskEngine(
+    createGeminiRiskEngine(recordedModelClient(getTick)),
+    createHeuristicRiskEngine(),
+    undefined,
+    undefined,
+    { now: clock.now, isOffline: () => getTick().offline }
+  );
+
+  const pipeline = createAnalysisPipeline({
+    sensors: recordedSensors(getTick),
+    engine,
+    aggregator: createRiskAggregator(options.aggregator),
+    tracker,
+    getSafeZones: () => safeZones,
+    getEvidenceMode: () => evidenceMode,
+    now: clock.now,
+    hooks: {
+      onResult: (result) => {
+        latestLevel = result.riskLevel;
+      },
+      // Replays have no vault: artifacts are hashed for the report but not chained
+      saveEvidence: (item) => {
+        const sequence = evidence.length;
+        evidence.push(sha256Hex(Uint8Array.from(atob(item.base64), (c) => c.charCodeAt(0)))
+          .then((sha256) => ({ sequence, type: item.type, capturedAt: item.capturedAt, sha256, chainHash: "" })));
+      },
+      respond: (result) => {
+        tickActions = [];
+        escalation.handleRecommendation(result.recommendedAction);
+        const taken = tickActions;
+        tickActions = null;
+        return taken;
+      },
+      recordIncident: addIncident,
+    },
+  });
+
+  // Fixes, interventions and timers are applied in time order up to each tick
+  const fixes = [...recording.fixes].sort((a, b) => a.timestamp - b.timestamp);
+  const interventions = [...recording.interventions].sort((a, b) => a.at - b.at);
+  let fixIndex = 0;
+  let interventionIndex = 0;
+
+  const advanceTo = (time: number) => {
+    while (interventionIndex < interventions.length && interventions[interventionIndex].at <= time) {
+      const step = interventions[interventionIndex++];
+      clock.advanceTo(step.at);
+      switch (step.kind) {
+        case "trigger":
+          escalation.trigger(step.action ?? "notify_contacts", { silent: step.silent, reason: step.reason });
+          break;
+        case "confirm_safe": escalation.confirmSafe(); break;
+        case "request_cancel": escalation.requestCancel(); break;
+        case "confirm_cancel": escalation.confirmCancel(); break;
+        case "abort_cancel": escalation.abortCancel(); break;
+        case "stand_down": escalation.standDown(step.reason ?? "Stand down"); break;
+        case "reset": escalation.reset(); break;
+      }
+    }
+    clock.advanceTo(time);
+    while (fixIndex < fixes.length && fixes[fixIndex].timestamp <= time) tracker.addFix(fixes[fixIndex++]);
+  };
+
+  const ticks: ReplayTick[] = [];
+  for (const tick of [...recording.ticks].sort((a, b) => a.at - b.at)) {
+    advanceTo(tick.at);
+    current = tick;
+    const replayed = await pipeline.tick();
+    current = null;
+    if (replayed) {
+      const { raw, result, actionsTaken, outcome } = replayed;
+      ticks.push({ at: tick.at, raw, result, actionsTaken, outcome });
+    }
+  }
+  // Let pending countdowns (e.g. an unanswered safety check) run out
+  advanceTo(recording.endedAt ?? clock.now());
+
+  const report = composeIncidentReport(session, incidents, await Promise.all(evidence), { ok: true, checked: 0 });
+
+  return {
+    ticks,
+    transitions,
+    effects,
+    alerts,
+    incidents,
+    report,
+    peakRiskLevel: ticks.reduce((peak, t) => (riskRank(t.result.riskLevel) > riskRank(peak) ? t.result.riskLevel : peak), RiskLevel.SAFE),
+    warnings,
+  };
+};
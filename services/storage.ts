@@ -0,0 +1,26 @@
+/**
+ * Small localStorage helpers for user-managed configuration.
+ * Failures (private mode, quota) fall back to defaults instead of throwing.
+ */
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Storage read error (${key}):`, error);
+    return fallback;
+  }
+};
+
+export const saveJson = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Storage write error (${key}):`, error);
+  }
+};
+
+export const createId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
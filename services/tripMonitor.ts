@@ -0,0 +1,245 @@
+/**
+ * "Walk me home" trip monitor: a dead-man switch for a single journey.
+ *
+ * Pure state machine like services/escalation.ts; the clock and timers are
+ * injected. The user sets a destination and an expected arrival time, then
+ * has to check in every checkInIntervalMs. A missed check-in (after a grace
+ * period), stopping for longer than maxStopMs away from the destination, or
+ * the ETA passing without arrival raises an alarm. Entering the destination
+ * geofence ends the trip.
+ *
+ *   idle ─start─▶ active ─interval─▶ check_in_due ─grace─▶ alarm
+ *                  ▲  │ arrive            │ checkIn          │ checkIn / extend
+ *                  │  ▼                   ▼                  ▼
+ *                  │ arrived          active ◀─────────────── active
+ */
+import { TripOutcome, TripSummary } from "../types";
+import { LatLng, distanceMeters } from "./geo";
+
+export type TripState = "idle" | "active" | "check_in_due" | "alarm" | "arrived" | "ended";
+
+export type TripAlarmReason = "missed_check_in" | "stopped_too_long" | "eta_passed";
+
+export interface TripDestination extends LatLng {
+  name: string;
+  radiusM: number;
+}
+
+export interface TripPlan {
+  destination: TripDestination;
+  expectedArrivalAt: number;
+  checkInIntervalMs: number;
+  checkInGraceMs: number; // time to answer a check-in before it counts as missed
+  maxStopMs: number; // standing still this long on the way raises an alarm
+}
+
+export interface TripSnapshot {
+  state: TripState;
+  plan: TripPlan | null;
+  startedAt: number | null;
+  nextCheckInAt: number | null;
+  checkInDeadline: number | null; // set while a check-in is due
+  lastPosition: LatLng | null;
+  initialDistanceM: number | null;
+  remainingDistanceM: number | null;
+  distanceTravelledM: number;
+  stoppedSince: number | null;
+  checkIns: number;
+  alarms: TripAlarmReason[];
+}
+
+export interface TripTimers {
+  now: () => number;
+  setTimeout: (fn: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export interface TripMonitorOptions {
+  tickMs?: number; // how often deadlines are re-evaluated between fixes
+  stopRadiusM?: number; // movement inside this radius counts as standing still
+  timers?: TripTimers;
+  onChange?: (snapshot: TripSnapshot) => void;
+  onCheckInDue?: (snapshot: TripSnapshot) => void;
+  onAlarm?: (reason: TripAlarmReason, snapshot: TripSnapshot) => void;
+  onEnd?: (summary: TripSummary, snapshot: TripSnapshot) => void;
+}
+
+export interface TripMonitor {
+  start: (plan: TripPlan, from: LatLng | null) => void;
+  updatePosition: (p: LatLng) => void;
+  checkIn: () => void;
+  extendEta: (ms: number) => void;
+  end: () => void;
+  getSnapshot: () => TripSnapshot;
+}
+
+const defaultTimers: TripTimers = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+const initialSnapshot = (): TripSnapshot => ({
+  state: "idle",
+  plan: null,
+  startedAt: null,
+  nextCheckInAt: null,
+  checkInDeadline: null,
+  lastPosition: null,
+  initialDistanceM: null,
+  remainingDistanceM: null,
+  distanceTravelledM: 0,
+  stoppedSince: null,
+  checkIns: 0,
+  alarms: [],
+});
+
+export const createTripMonitor = (options: TripMonitorOptions = {}): TripMonitor => {
+  const { tickMs = 5000, stopRadiusM = 25, timers = defaultTimers, onChange, onCheckInDue, onAlarm, onEnd } = options;
+
+  let snapshot = initialSnapshot();
+  let timer: unknown = null;
+  let stopAnchor: LatLng | null = null;
+  let raised = new Set<TripAlarmReason>(); // each reason alarms once until the user checks in
+
+  const update = (patch: Partial<TripSnapshot>) => {
+    snapshot = { ...snapshot, ...patch };
+    onChange?.(snapshot);
+  };
+
+  const running = () => snapshot.state === "active" || snapshot.state === "check_in_due" || snapshot.state === "alarm";
+
+  const raise = (reason: TripAlarmReason) => {
+    if (raised.has(reason)) return;
+    raised.add(reason);
+    update({ state: "alarm", alarms: [...snapshot.alarms, reason] });
+    onAlarm?.(reason, snapshot);
+  };
+
+  const finish = (outcome: TripOutcome) => {
+    if (!running() || !snapshot.plan || snapshot.startedAt === null) return;
+    if (timer !== null) timers.clearTimeout(timer);
+    timer = null;
+    const now = timers.now();
+    const summary: TripSummary = {
+      destinationName: snapshot.plan.destination.name,
+      outcome,
+      startedAt: new Date(snapshot.startedAt).toISOString(),
+      endedAt: new Date(now).toISOString(),
+      expectedArrivalAt: new Date(snapshot.plan.expectedArrivalAt).toISOString(),
+      durationMs: now - snapshot.startedAt,
+      distanceTravelledM: Math.round(snapshot.distanceTravelledM),
+      checkIns: snapshot.checkIns,
+      alarms: snapshot.alarms,
+    };
+    update({ state: outcome === "arrived" ? "arrived" : "ended", nextCheckInAt: null, checkInDeadline: null });
+    onEnd?.(summary, snapshot);
+  };
+
+  // Checks every deadline; called on each tick and each fix
+  const evaluate = () => {
+    if (!running() || !snapshot.plan) return;
+    const now = timers.now();
+    const { plan } = snapshot;
+
+    if (snapshot.checkInDeadline !== null && now >= snapshot.checkInDeadline) {
+      raise("missed_check_in");
+    } else if (snapshot.state === "active" && snapshot.nextCheckInAt !== null && now >= snapshot.nextCheckInAt) {
+      update({ state: "check_in_due", checkInDeadline: now + plan.checkInGraceMs });
+      onCheckInDue?.(snapshot);
+    }
+    if (snapshot.stoppedSince !== null && now - snapshot.stoppedSince >= plan.maxStopMs) raise("stopped_too_long");
+    if (now >= plan.expectedArrivalAt) raise("eta_passed");
+  };
+
+  const scheduleTick = () => {
+    if (timer !== null) timers.clearTimeout(timer);
+    timer = timers.setTimeout(() => {
+      timer = null;
+      evaluate();
+      if (running()) scheduleTick();
+    }, tickMs);
+  };
+
+  return {
+    start: (plan, from) => {
+      if (running()) return;
+      const now = timers.now();
+      raised = new Set();
+      stopAnchor = from;
+      const initialDistanceM = from ? distanceMeters(from, plan.destination) : null;
+      snapshot = {
+        ...initialSnapshot(),
+        state: "active",
+        plan,
+        startedAt: now,
+        nextCheckInAt: now + plan.checkInIntervalMs,
+        lastPosition: from,
+        initialDistanceM,
+        remainingDistanceM: initialDistanceM,
+        stoppedSince: from ? now : null,
+      };
+      onChange?.(snapshot);
+      scheduleTick();
+    },
+
+    updatePosition: (p) => {
+      if (!running() || !snapshot.plan) return;
+      const now = timers.now();
+      const step = snapshot.lastPosition ? distanceMeters(snapshot.lastPosition, p) : 0;
+      const remainingDistanceM = distanceMeters(p, snapshot.plan.destination);
+
+      // Standing still = every fix stays within stopRadiusM of where the stop began
+      let stoppedSince = snapshot.stoppedSince;
+      if (!stopAnchor || distanceMeters(stopAnchor, p) > stopRadiusM) {
+        stopAnchor = p;
+        stoppedSince = now;
+        raised.delete("stopped_too_long");
+      }
+
+      update({
+        lastPosition: p,
+        remainingDistanceM,
+        distanceTravelledM: snapshot.distanceTravelledM + step,
+        stoppedSince,
+        initialDistanceM: snapshot.initialDistanceM ?? remainingDistanceM,
+      });
+
+      if (remainingDistanceM <= snapshot.plan.destination.radiusM) {
+        finish("arrived");
+        return;
+      }
+      evaluate();
+    },
+
+    // "I'm OK": clears a due check-in or an alarm and restarts the interval
+    checkIn: () => {
+      if (!running() || !snapshot.plan) return;
+      const now = timers.now();
+      raised.delete("missed_check_in");
+      raised.delete("stopped_too_long");
+      update({
+        state: "active",
+        checkIns: snapshot.checkIns + 1,
+        nextCheckInAt: now + snapshot.plan.checkInIntervalMs,
+        checkInDeadline: null,
+        stoppedSince: now,
+      });
+      stopAnchor = snapshot.lastPosition;
+    },
+
+    extendEta: (ms) => {
+      if (!running() || !snapshot.plan) return;
+      raised.delete("eta_passed");
+      const base = Math.max(snapshot.plan.expectedArrivalAt, timers.now());
+      update({
+        state: snapshot.checkInDeadline !== null ? "check_in_due" : "active",
+        plan: { ...snapshot.plan, expectedArrivalAt: base + ms },
+      });
+    },
+
+    end: () => finish("ended_by_user"),
+
+    getSnapshot: () => snapshot,
+  };
+};
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { createRelayServer } from "../server/relay";
+import { createAlertDispatcher } from "../services/alertDispatcher";
+import { createDefaultTransports, createMockTransport } from "../services/alertTransports";
+import { EmergencyContact } from "../types";
+
+const contact: EmergencyContact = { id: "c1", name: "Asha", phone: "+441234567890", preferredChannel: "sms", tier: 1 };
+
+const listen = (server: Server): Promise<string> =>
+  new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+
+describe("alert delivery", () => {
+  it("reports failure instead of delivery when no relay is configured", async () => {
+    const dispatcher = createAlertDispatcher({ transports: createDefaultTransports(() => [contact], ""), sleep: async () => {} });
+    const [receipt] = await dispatcher.dispatch([contact], "Alert", "Help");
+    assert.equal(receipt.status, "failed");
+    assert.match(receipt.error ?? "", /not set up/);
+  });
+
+  it("marks mock deliveries as simulated", async () => {
+    const dispatcher = createAlertDispatcher({ transports: { sms: createMockTransport("sms", 0, 0) }, sleep: async () => {} });
+    const [receipt] = await dispatcher.dispatch([contact], "Alert", "Help");
+    assert.equal(receipt.status, "simulated");
+  });
+
+  describe("through the relay", () => {
+    const upstreamCalls: { auth: string | undefined; body: unknown }[] = [];
+    let upstream: Server;
+    let relay: Server;
+    let relayUrl: string;
+
+    before(async () => {
+      upstream = createServer(async (req, res) => {
+        upstreamCalls.push({ auth: req.headers.authorization, body: JSON.parse(await readBody(req)) });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ sid: "SM1" }));
+      });
+      const upstreamUrl = await listen(upstream);
+      relay = createRelayServer({ alertGateway: { smsUrl: upstreamUrl, apiKey: "secret", maxPerWindow: 3, maxRegistrationsPerWindow: 5 } });
+      relayUrl = await listen(relay);
+    });
+
+    after(() => {
+      relay.close();
+      upstream.close();
+    });
+
+    const register = async (recipients: string[]) => {
+      const response = await fetch(`${relayUrl}/api/alerts/senders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ recipients }),
+      });
+      return (await response.json()) as { senderId: string; senderKey: string };
+    };
+
+    const postSms = (path: string, key: string, to: string) => fetch(`${relayUrl}/api/alerts/${path}/sms`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
+      body: JSON.stringify({ to, body: "Help" }),
+    });
+
+    it("adds the gateway key on the server and delivers", async () => {
+      const dispatcher = createAlertDispatcher({ transports: createDefaultTransports(() => [contact], relayUrl), sleep: async () => {} });
+      const [receipt] = await dispatcher.dispatch([contact], "Alert", "Help");
+      assert.equal(receipt.status, "delivered");
+      assert.equal(receipt.providerId, "SM1");
+      assert.equal(upstreamCalls[0].auth, "Bearer secret");
+      assert.deepEqual((upstreamCalls[0].body as { to: string }).to, contact.phone);
+    });
+
+    it("refuses alerts without a sender key the relay issued", async () => {
+      const { senderId } = await register(["+44 1234 567890"]);
+      assert.equal((await postSms(senderId, "guessed", "+441234567890")).status, 401);
+      assert.equal((await postSms("unknown", "guessed", "+441234567890")).status, 401);
+    });
+
+    it("only forwards to registered recipients", async () => {
+      const { senderId, senderKey } = await register(["+44 1234 567890"]);
+      assert.equal((await postSms(senderId, senderKey, "+15550000000")).status, 403);
+    });
+
+    it("rejects email when the relay has no email gateway", async () => {
+      const { senderId, senderKey } = await register(["a@example.com"]);
+      const response = await fetch(`${relayUrl}/api/alerts/${senderId}/email`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${senderKey}` },
+        body: JSON.stringify({ to: "a@example.com", subject: "Alert", text: "Help" }),
+      });
+      assert.equal(response.status, 503);
+    });
+
+    it("rate-limits alerts and registrations per client", async () => {
+      // Earlier tests used two of the three alerts and four of the five registrations
+      const { senderId, senderKey } = await register(["+441234567890"]);
+      assert.equal((await postSms(senderId, senderKey, "+441234567890")).status, 200);
+      assert.equal((await postSms(senderId, senderKey, "+441234567890")).status, 429);
+      const refused = await fetch(`${relayUrl}/api/alerts/senders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ recipients: ["+441234567890"] }),
+      });
+      assert.equal(refused.status, 429);
+    });
+
+    it("only answers cross-origin requests from the configured origin", async () => {
+      const response = await fetch(`${relayUrl}/api/alerts/senders`, { method: "OPTIONS" });
+      assert.equal(response.headers.get("access-control-allow-origin"), new URL(relayUrl).origin);
+    });
+  });
+});
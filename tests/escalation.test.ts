@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { EscalationController, EscalationEffect, EscalationTimers, createEscalationController } from "../services/escalation";
+
+interface FakeClock extends EscalationTimers {
+  advanceTo: (time: number) => void;
+}
+
+// Timers fire in deadline order when the clock is advanced past them
+const createFakeClock = (): FakeClock => {
+  let current = 0;
+  let nextId = 0;
+  const pending = new Map<number, { due: number; fn: () => void }>();
+  return {
+    now: () => current,
+    setTimeout: (fn, ms) => {
+      pending.set(++nextId, { due: current + ms, fn });
+      return nextId;
+    },
+    clearTimeout: (handle) => {
+      pending.delete(handle as number);
+    },
+    advanceTo: (time) => {
+      for (;;) {
+        const next = [...pending].filter(([, t]) => t.due <= time).sort((a, b) => a[1].due - b[1].due)[0];
+        if (!next) break;
+        pending.delete(next[0]);
+        current = next[1].due;
+        next[1].fn();
+      }
+      current = time;
+    },
+  };
+};
+
+describe("escalation controller", () => {
+  let clock: FakeClock;
+  let effects: EscalationEffect[];
+  let controller: EscalationController;
+
+  beforeEach(() => {
+    clock = createFakeClock();
+    effects = [];
+    controller = createEscalationController({
+      confirmTimeoutMs: 20000,
+      cancelWindowMs: 15000,
+      snoozeMs: 60000,
+      timers: clock,
+      onEffect: (effect) => effects.push(effect),
+    });
+  });
+
+  it("escalates to notify when the safety check times out", () => {
+    controller.handleRecommendation("ask user confirmation");
+    assert.equal(controller.getSnapshot().state, "confirming");
+    assert.equal(controller.getSnapshot().deadline, 20000);
+
+    clock.advanceTo(19999);
+    assert.equal(controller.getSnapshot().state, "confirming");
+    clock.advanceTo(20000);
+    assert.equal(controller.getSnapshot().state, "notifying");
+    assert.deepEqual(effects, ["prompt_user", "dismiss_prompt", "notify_contacts"]);
+  });
+
+  it("returns to idle on confirm-safe and snoozes further prompts", () => {
+    controller.handleRecommendation("ask_user_confirmation");
+    controller.confirmSafe();
+    assert.equal(controller.getSnapshot().state, "idle");
+
+    clock.advanceTo(30000); // the old countdown must not fire
+    assert.equal(controller.getSnapshot().state, "idle");
+    controller.handleRecommendation("ask_user_confirmation");
+    assert.equal(controller.getSnapshot().state, "idle");
+
+    // Stronger recommendations are not snoozed
+    controller.handleRecommendation("notify_contacts");
+    assert.equal(controller.getSnapshot().state, "notifying");
+    assert.deepEqual(effects, ["prompt_user", "dismiss_prompt", "notify_contacts"]);
+  });
+
+  it("fires every skipped rung's effect when jumping up the ladder", () => {
+    controller.handleRecommendation("full_emergency_mode");
+    assert.equal(controller.getSnapshot().state, "emergency");
+    assert.deepEqual(effects, ["notify_contacts", "start_audio_recording", "start_video_stream", "full_emergency_mode"]);
+  });
+
+  describe("cancel window", () => {
+    beforeEach(() => {
+      controller.handleRecommendation("start_audio_recording");
+      effects = [];
+    });
+
+    it("stands down when the cancel is confirmed", () => {
+      controller.requestCancel();
+      assert.equal(controller.getSnapshot().state, "cancel_pending");
+      assert.equal(controller.getSnapshot().deadline, 15000);
+      controller.confirmCancel();
+      assert.equal(controller.getSnapshot().state, "idle");
+      assert.equal(controller.getSnapshot().rung, 0);
+      assert.deepEqual(effects, ["stand_down"]);
+    });
+
+    it("returns to the previous state when aborted", () => {
+      controller.requestCancel();
+      controller.abortCancel();
+      assert.equal(controller.getSnapshot().state, "recording");
+      assert.deepEqual(effects, []);
+    });
+
+    it("returns to the previous state when not confirmed in time", () => {
+      controller.requestCancel();
+      clock.advanceTo(15000);
+      const snapshot = controller.getSnapshot();
+      assert.equal(snapshot.state, "recording");
+      assert.equal(snapshot.history[snapshot.history.length - 1].reason, "Cancel not confirmed in time");
+      assert.deepEqual(effects, []);
+    });
+
+    it("ignores engine recommendations while pending", () => {
+      controller.requestCancel();
+      controller.handleRecommendation("full_emergency_mode");
+      assert.equal(controller.getSnapshot().state, "cancel_pending");
+    });
+
+    it("cannot be requested before contacts were notified", () => {
+      controller.reset();
+      controller.handleRecommendation("ask_user_confirmation");
+      controller.requestCancel();
+      assert.equal(controller.getSnapshot().state, "confirming");
+    });
+  });
+
+  it("skips the prompt for silent triggers and stays silent", () => {
+    controller.trigger("ask_user_confirmation", { silent: true, reason: "Codeword" });
+    assert.equal(controller.getSnapshot().state, "notifying");
+    assert.equal(controller.getSnapshot().silent, true);
+    assert.deepEqual(effects, ["notify_contacts"]);
+
+    controller.handleRecommendation("start_video_stream");
+    assert.equal(controller.getSnapshot().silent, true);
+    assert.ok(!effects.includes("prompt_user"));
+  });
+
+  it("stands down from any state and snoozes prompts", () => {
+    controller.handleRecommendation("start_video_stream");
+    controller.standDown("Safe word heard");
+    assert.equal(controller.getSnapshot().state, "idle");
+    assert.equal(effects[effects.length - 1], "stand_down");
+
+    controller.handleRecommendation("ask_user_confirmation");
+    assert.equal(controller.getSnapshot().state, "idle");
+  });
+
+  it("dismisses the prompt instead of standing down from confirming", () => {
+    controller.handleRecommendation("ask_user_confirmation");
+    controller.standDown("Safe word heard");
+    assert.deepEqual(effects, ["prompt_user", "dismiss_prompt"]);
+    clock.advanceTo(20000);
+    assert.equal(controller.getSnapshot().state, "idle");
+  });
+});
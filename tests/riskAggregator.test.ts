@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SENSITIVITY_PRESETS } from "../services/profile";
+import { createRiskAggregator } from "../services/riskAggregator";
+import { RiskAssessment, RiskLevel } from "../types";
+
+const assessment = (score: number, recommendedAction: string, riskLevel = RiskLevel.UNCERTAIN): RiskAssessment => ({
+  riskLevel,
+  score,
+  reason: "test",
+  recommendedAction,
+  detectedThreats: [],
+});
+
+// Feeds the same assessment until the level settles and returns the last result
+const settle = (thresholds: typeof SENSITIVITY_PRESETS.normal.thresholds, input: RiskAssessment) => {
+  const aggregator = createRiskAggregator({ thresholds });
+  let result = aggregator.push(input, 0);
+  for (let i = 1; i < 4; i++) result = aggregator.push(input, i * 5000);
+  return result;
+};
+
+describe("risk aggregator action caps", () => {
+  it("holds back a check while UNCERTAIN at the normal preset", () => {
+    const result = settle(SENSITIVITY_PRESETS.normal.thresholds, assessment(34, "ask_user_confirmation"));
+    assert.equal(result.level, RiskLevel.UNCERTAIN);
+    assert.equal(result.recommendedAction, "none");
+  });
+
+  it("lets the vigilant preset ask from its lower ask score", () => {
+    const result = settle(SENSITIVITY_PRESETS.vigilant.thresholds, assessment(34, "ask_user_confirmation"));
+    assert.equal(result.level, RiskLevel.UNCERTAIN);
+    assert.equal(result.recommendedAction, "ask_user_confirmation");
+  });
+
+  it("lets the vigilant preset reach emergency mode while DANGEROUS", () => {
+    const input = assessment(79, "full_emergency_mode", RiskLevel.DANGEROUS);
+    assert.equal(settle(SENSITIVITY_PRESETS.vigilant.thresholds, input).recommendedAction, "full_emergency_mode");
+    assert.equal(settle(SENSITIVITY_PRESETS.normal.thresholds, input).recommendedAction, "start_video_stream");
+  });
+
+  it("follows threshold changes made during a session", () => {
+    const aggregator = createRiskAggregator();
+    const input = assessment(34, "ask_user_confirmation");
+    for (let i = 0; i < 3; i++) aggregator.push(input, i * 5000);
+    assert.equal(aggregator.push(input, 15000).recommendedAction, "none");
+    aggregator.setThresholds(SENSITIVITY_PRESETS.vigilant.thresholds);
+    assert.equal(aggregator.push(input, 20000).recommendedAction, "ask_user_confirmation");
+  });
+});
+
+describe("risk aggregator levels", () => {
+  // A one-entry window isolates the confirmation and hysteresis rules from smoothing
+  const unsmoothed = () => createRiskAggregator({ windowSize: 1 });
+  const push = (aggregator: ReturnType<typeof createRiskAggregator>, scores: number[], start = 0) =>
+    scores.map((score, i) => aggregator.push(assessment(score, "none"), start + i * 5000));
+
+  it("steps up after two consecutive ticks", () => {
+    const [first, second] = push(unsmoothed(), [50, 50]);
+    assert.equal(first.level, RiskLevel.SAFE);
+    assert.equal(first.pendingLevel, RiskLevel.SUSPICIOUS);
+    assert.equal(first.confirmations, 1);
+    assert.equal(second.level, RiskLevel.SUSPICIOUS);
+    assert.equal(second.pendingLevel, null);
+  });
+
+  it("restarts the count when a tick disagrees", () => {
+    const results = push(unsmoothed(), [50, 10, 50]);
+    assert.deepEqual(results.map((r) => r.level), [RiskLevel.SAFE, RiskLevel.SAFE, RiskLevel.SAFE]);
+    assert.equal(results[2].confirmations, 1);
+  });
+
+  it("steps down only after three consecutive ticks", () => {
+    const aggregator = unsmoothed();
+    push(aggregator, [50, 50]);
+    const results = push(aggregator, [10, 10, 10], 10000);
+    assert.deepEqual(results.map((r) => r.level), [RiskLevel.SUSPICIOUS, RiskLevel.SUSPICIOUS, RiskLevel.SAFE]);
+  });
+
+  it("holds a level within the hysteresis margin below its floor", () => {
+    const aggregator = unsmoothed();
+    push(aggregator, [50, 50]);
+    // SUSPICIOUS starts at 40; with the default margin of 8 it holds down to 32
+    const held = push(aggregator, [35, 35, 35, 35], 10000);
+    assert.ok(held.every((r) => r.level === RiskLevel.SUSPICIOUS && r.pendingLevel === null));
+    const dropped = push(aggregator, [30, 30, 30], 30000);
+    assert.equal(dropped[2].level, RiskLevel.UNCERTAIN);
+  });
+
+  it("needs the full floor to step up", () => {
+    const results = push(unsmoothed(), [38, 38, 38]);
+    assert.ok(results.every((r) => r.pendingLevel !== RiskLevel.SUSPICIOUS));
+    assert.equal(results[2].level, RiskLevel.UNCERTAIN);
+  });
+
+  it("escalates at once on a raw score above the emergency threshold", () => {
+    const result = unsmoothed().push(assessment(92, "full_emergency_mode", RiskLevel.CRITICAL), 0);
+    assert.equal(result.level, RiskLevel.CRITICAL);
+    assert.equal(result.recommendedAction, "full_emergency_mode");
+  });
+
+  it("weights older assessments down with the half-life", () => {
+    const aggregator = createRiskAggregator({ halfLifeMs: 10000 });
+    aggregator.push(assessment(80, "none"), 0);
+    // The first score has half the weight of the second: (80 * 0.5 + 20) / 1.5
+    assert.equal(aggregator.push(assessment(20, "none"), 10000).score, 40);
+    // After ten half-lives it barely counts
+    assert.equal(aggregator.push(assessment(20, "none"), 110000).score, 20);
+  });
+
+  it("reports the trend of the raw scores", () => {
+    const aggregator = createRiskAggregator();
+    const rising = push(aggregator, [10, 20, 30]);
+    assert.equal(rising[1].trend, "stable"); // fewer than three scores
+    assert.equal(rising[2].trend, "rising");
+    assert.equal(push(aggregator, [20, 10, 0], 15000)[2].trend, "falling");
+  });
+
+  it("forgets everything on reset", () => {
+    const aggregator = unsmoothed();
+    push(aggregator, [50, 50]);
+    aggregator.reset();
+    assert.equal(aggregator.getCurrent(), null);
+    assert.equal(push(aggregator, [50])[0].level, RiskLevel.SAFE);
+  });
+});
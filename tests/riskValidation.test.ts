@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { enforceFusionRules } from "../services/riskEngine";
+import { parseRiskResponse, validateRiskResponse } from "../services/riskValidation";
+import { RiskAssessment, RiskLevel } from "../types";
+
+const reply = (overrides: Record<string, unknown> = {}) => ({
+  final_risk_score: 30,
+  risk_level: "uncertain",
+  primary_risk_drivers: ["night_time"],
+  recommended_action: "none",
+  explanation: "Quiet street at night",
+  ...overrides,
+});
+
+const assessment = (overrides: Partial<RiskAssessment> = {}): RiskAssessment => ({
+  riskLevel: RiskLevel.UNCERTAIN,
+  score: 30,
+  reason: "test",
+  recommendedAction: "none",
+  detectedThreats: [],
+  ...overrides,
+});
+
+describe("validateRiskResponse", () => {
+  describe("rejects replies without a usable score or level", () => {
+    it("non-JSON text", () => {
+      assert.throws(() => parseRiskResponse("Sorry, I cannot help with that."), /not valid JSON/);
+      assert.throws(() => parseRiskResponse('{"final_risk_score": 40,'), /not valid JSON/);
+    });
+
+    it("JSON that is not an object", () => {
+      assert.throws(() => validateRiskResponse(null), /not a JSON object/);
+      assert.throws(() => validateRiskResponse([reply()]), /not a JSON object/);
+      assert.throws(() => parseRiskResponse('"dangerous"'), /not a JSON object/);
+    });
+
+    it("missing, NaN or non-numeric scores", () => {
+      const { final_risk_score: _omitted, ...withoutScore } = reply();
+      assert.throws(() => validateRiskResponse(withoutScore), /final_risk_score/);
+      assert.throws(() => validateRiskResponse(reply({ final_risk_score: NaN })), /final_risk_score/);
+      assert.throws(() => validateRiskResponse(reply({ final_risk_score: Infinity })), /final_risk_score/);
+      assert.throws(() => validateRiskResponse(reply({ final_risk_score: "high" })), /final_risk_score/);
+      assert.throws(() => validateRiskResponse(reply({ final_risk_score: null })), /final_risk_score/);
+    });
+
+    it("unknown or missing risk levels", () => {
+      assert.throws(() => validateRiskResponse(reply({ risk_level: "extreme" })), /risk_level/);
+      assert.throws(() => validateRiskResponse(reply({ risk_level: 3 })), /risk_level/);
+      assert.throws(() => validateRiskResponse(reply({ risk_level: undefined })), /risk_level/);
+    });
+  });
+
+  describe("repairs recoverable problems and lists them", () => {
+    it("clamps out-of-range and fractional scores", () => {
+      assert.equal(validateRiskResponse(reply({ final_risk_score: 140, risk_level: "critical" })).assessment.score, 100);
+      assert.equal(validateRiskResponse(reply({ final_risk_score: -12, risk_level: "safe" })).assessment.score, 0);
+      const { assessment: rounded, repairs } = validateRiskResponse(reply({ final_risk_score: 42.6 }));
+      assert.equal(rounded.score, 43);
+      assert.deepEqual(repairs, ["final_risk_score 42.6 clamped to 43"]);
+    });
+
+    it("accepts numeric strings and any casing of the level", () => {
+      const { assessment: parsed, repairs } = validateRiskResponse(reply({ final_risk_score: "72", risk_level: " Dangerous " }));
+      assert.equal(parsed.score, 72);
+      assert.equal(parsed.riskLevel, RiskLevel.DANGEROUS);
+      assert.deepEqual(repairs, []);
+    });
+
+    it("defaults unknown actions to none and normalises known ones", () => {
+      const unknown = validateRiskResponse(reply({ recommended_action: "call_the_police" }));
+      assert.equal(unknown.assessment.recommendedAction, "none");
+      assert.match(unknown.repairs[0], /recommended_action "call_the_police" unknown/);
+      assert.equal(validateRiskResponse(reply({ recommended_action: "Notify-Contacts" })).assessment.recommendedAction, "notify contacts");
+    });
+
+    it("drops malformed analyses and invalid list entries", () => {
+      const { assessment: parsed, repairs } = validateRiskResponse(reply({
+        primary_risk_drivers: ["weapon", 7, ""],
+        audio_analysis: "loud",
+        context_analysis: { contextual_factors: null },
+      }));
+      assert.deepEqual(parsed.detectedThreats, ["weapon"]);
+      assert.equal(parsed.audioAnalysis, undefined);
+      assert.equal(parsed.contextAnalysis, undefined);
+      assert.equal(repairs.length, 3);
+    });
+
+    it("clamps nested scores", () => {
+      const { assessment: parsed } = validateRiskResponse(reply({
+        audio_analysis: { emotional_state: "panicked", distress_score: 250, keywords_detected: [], tone_analysis: "shouting" },
+      }));
+      assert.equal(parsed.audioAnalysis?.distress_score, 100);
+    });
+  });
+});
+
+describe("enforceFusionRules", () => {
+  it("leaves a consistent assessment untouched", () => {
+    const input = assessment();
+    assert.equal(enforceFusionRules(input), input);
+  });
+
+  describe("level and score bands", () => {
+    it("raises the score into the band of a more severe level", () => {
+      const result = enforceFusionRules(assessment({ riskLevel: RiskLevel.DANGEROUS, score: 15 }));
+      assert.equal(result.riskLevel, RiskLevel.DANGEROUS);
+      assert.equal(result.score, 60);
+      assert.match(result.corrections![0], /below DANGEROUS band/);
+    });
+
+    it("raises the level to match a more severe score", () => {
+      const result = enforceFusionRules(assessment({ riskLevel: RiskLevel.SAFE, score: 65 }));
+      assert.equal(result.riskLevel, RiskLevel.DANGEROUS);
+      assert.equal(result.score, 65);
+    });
+  });
+
+  it("lowers drastic actions that a low score does not support", () => {
+    const result = enforceFusionRules(assessment({ riskLevel: RiskLevel.SAFE, score: 10, recommendedAction: "full_emergency_mode" }));
+    assert.equal(result.recommendedAction, "ask user confirmation");
+    assert.match(result.corrections![0], /contradicts score 10/);
+  });
+
+  describe("rule 4 and 5 action floors", () => {
+    it("requires notify_contacts above 70", () => {
+      const result = enforceFusionRules(assessment({ riskLevel: RiskLevel.DANGEROUS, score: 75, recommendedAction: "ask_user_confirmation" }));
+      assert.equal(result.recommendedAction, "notify contacts");
+      assert.match(result.corrections![0], /^rule 4/);
+    });
+
+    it("requires full_emergency_mode above 85", () => {
+      const result = enforceFusionRules(assessment({ riskLevel: RiskLevel.CRITICAL, score: 90, recommendedAction: "notify_contacts" }));
+      assert.equal(result.recommendedAction, "full emergency mode");
+      assert.match(result.corrections![0], /^rule 5/);
+    });
+
+    it("keeps stronger actions than the floor", () => {
+      const input = assessment({ riskLevel: RiskLevel.DANGEROUS, score: 75, recommendedAction: "start_video_stream" });
+      assert.equal(enforceFusionRules(input), input);
+    });
+
+    it("follows the thresholds it is given", () => {
+      const thresholds = { askScore: 30, notifyScore: 60, emergencyScore: 78 };
+      const result = enforceFusionRules(assessment({ riskLevel: RiskLevel.DANGEROUS, score: 65 }), thresholds);
+      assert.equal(result.recommendedAction, "notify contacts");
+      assert.equal(enforceFusionRules(assessment({ riskLevel: RiskLevel.DANGEROUS, score: 65 })).recommendedAction, "none");
+    });
+  });
+
+  describe("rules 1 and 2", () => {
+    it("lifts audio distress with a major route deviation to DANGEROUS", () => {
+      const result = enforceFusionRules(assessment({
+        audioAnalysis: { emotional_state: "panicked", distress_score: 70, keywords_detected: [], tone_analysis: "" },
+        contextAnalysis: {
+          contextual_factors: { time_risk: "low", location_risk: "low", route_deviation: "major (heading changed 120°)", movement_pattern: "vehicle" },
+          context_risk_score: 40,
+          reasoning: "",
+        },
+      }));
+      assert.equal(result.riskLevel, RiskLevel.DANGEROUS);
+      assert.equal(result.score, 60);
+    });
+
+    it("lifts visible aggression to DANGEROUS", () => {
+      const result = enforceFusionRules(assessment({ detectedThreats: ["weapon_visible"] }));
+      assert.equal(result.riskLevel, RiskLevel.DANGEROUS);
+      assert.ok(result.corrections!.some((c) => c.startsWith("rule 2")));
+    });
+  });
+});
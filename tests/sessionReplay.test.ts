@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { before, describe, it } from "node:test";
+import { parseRecording } from "../services/sessionRecorder";
+import { ReplayResult, replaySession } from "../services/sessionReplay";
+import { EmergencyContact, RiskLevel } from "../types";
+
+// Night rules follow the local hour, so replay in the zone the fixture was recorded in
+process.env.TZ = "UTC";
+
+// A daytime walk: a follower, an unanswered safety check, a model outage, then a cancelled alert
+const recording = parseRecording(readFileSync(new URL("./fixtures/followed-walk.recording.json", import.meta.url), "utf8"));
+const offset = (at: number) => at - recording.startedAt;
+
+const contacts: EmergencyContact[] = [
+  { id: "c1", name: "Asha", phone: "+15550100", preferredChannel: "sms", tier: 1 },
+  { id: "c2", name: "Ravi", phone: "+15550101", preferredChannel: "sms", tier: 2 },
+];
+
+describe("replaySession", () => {
+  let replay: ReplayResult;
+
+  before(async () => {
+    replay = await replaySession(recording, { contacts });
+  });
+
+  it("replays every recorded tick in the recording's time zone", () => {
+    assert.deepEqual(replay.ticks.map((t) => offset(t.at)), recording.ticks.map((t) => offset(t.at)));
+    assert.deepEqual(replay.warnings, []);
+  });
+
+  it("falls back to on-device scoring after the recorded model failure", () => {
+    assert.deepEqual(replay.ticks.map((t) => t.raw.engine), [
+      ...Array(7).fill("gemini"),
+      ...Array(5).fill("heuristic"),
+    ]);
+    assert.equal(replay.ticks[7].outcome.status, 503);
+  });
+
+  it("smooths the model's scores before acting on them", () => {
+    assert.equal(replay.ticks[6].raw.riskLevel, RiskLevel.CRITICAL);
+    assert.equal(replay.peakRiskLevel, RiskLevel.SUSPICIOUS);
+    const prompted = replay.ticks.filter((t) => t.actionsTaken.length > 0);
+    assert.deepEqual(prompted.map((t) => [offset(t.at), t.actionsTaken]), [[25000, ["prompt_user"]]]);
+  });
+
+  it("records the escalation transitions in order", () => {
+    assert.deepEqual(replay.transitions.map((t) => [offset(t.at), t.from, t.to]), [
+      [25000, "idle", "confirming"],
+      [45000, "confirming", "notifying"],
+      [52000, "notifying", "cancel_pending"],
+      [53000, "cancel_pending", "idle"],
+    ]);
+  });
+
+  it("alerts first-tier contacts when the check goes unanswered, then sends the false alarm", () => {
+    assert.deepEqual(replay.alerts.map((a) => ({ ...a, at: offset(a.at) })), [
+      { at: 45000, kind: "emergency", tier: 1, recipients: ["Asha"] },
+      { at: 53000, kind: "false_alarm", tier: null, recipients: ["Asha"] },
+    ]);
+  });
+
+  it("composes the incident report from the replayed session", () => {
+    const { report } = replay;
+    assert.equal(report.session.durationMs, 60000);
+    // The smoothed score that drove escalation, not the raw 80 of the CRITICAL tick
+    assert.equal(report.peakScore, Math.max(...replay.ticks.map((t) => t.result.score)));
+    assert.equal(report.peakScore, 60);
+    assert.equal(report.incidentAt, new Date(recording.startedAt + 25000).toISOString());
+    assert.equal(report.gpsTrace.length, recording.fixes.length);
+    assert.deepEqual(report.threats.map((t) => t.name), ["followed", "shouting"]);
+    const events = report.timeline.filter((e) => e.kind === "event").map((e) => e.description);
+    assert.ok(events.includes("Escalation: notify_contacts"));
+    assert.ok(events.includes("Escalation: stand_down"));
+  });
+
+  it("gives the same result on a second run", async () => {
+    const again = await replaySession(recording, { contacts });
+    assert.deepEqual(again.ticks.map((t) => t.result.score), replay.ticks.map((t) => t.result.score));
+    assert.deepEqual(again.alerts, replay.alerts);
+  });
+});
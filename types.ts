@@ -34,6 +34,21 @@ export interface RiskAssessment {
   detectedThreats: string[];
   audioAnalysis?: AudioAnalysisDetails;
   contextAnalysis?: ContextAnalysis;
+  engine?: string; // id of the RiskEngine that produced this assessment
+  trend?: RiskTrend; // set once the assessment has passed through the session aggregator
+  corrections?: string[]; // repairs made by response validation and fusion-rule enforcement
+}
+
+export type RiskTrend = 'rising' | 'falling' | 'stable';
+
+export interface AggregatedRisk {
+  level: RiskLevel; // confirmed level after hysteresis
+  score: number; // time-decayed score over the window
+  trend: RiskTrend;
+  pendingLevel: RiskLevel | null; // level waiting for confirmation
+  confirmations: number;
+  recommendedAction: string; // raw recommendation gated by the confirmed level
+  raw: RiskAssessment;
 }
 
 export interface LocationData {
@@ -41,24 +56,331 @@ export interface LocationData {
   longitude: number;
   accuracy: number;
   timestamp: number;
+  speed?: number | null; // m/s, as reported by the GPS when available
+  heading?: number | null; // degrees from north
+}
+
+export type MovementPattern = 'unknown' | 'stationary' | 'walking' | 'running' | 'vehicle' | 'loitering';
+
+export interface MovementContext {
+  pattern: MovementPattern;
+  speedMps: number | null;
+  headingDeg: number | null;
+  stoppedForMs: number; // 0 while moving
+  suddenAcceleration: boolean; // e.g. getting into a vehicle
+  headingChangeDeg: number | null; // recent heading vs. established heading
+  fixCount: number;
 }
 
+export type SafePlaceCategory = 'police' | 'hospital' | 'store_24h' | 'transit' | 'other';
+
 export interface SafePlace {
   name: string;
   address: string;
-  distance: string;
+  distance: string; // display text, recomputed from distanceM whenever the list is re-ranked
   type: string;
   uri?: string;
+  category: SafePlaceCategory;
+  location?: { lat: number; lng: number };
+  openNow: boolean | null; // null when unknown
+  distanceM?: number; // from the latest fix
+  bearingDeg?: number; // from the latest fix, 0 = north
 }
 
+export type IncidentKind = 'assessment' | 'event';
+
 export interface IncidentLog {
   id: string;
+  sessionId: string;
   timestamp: string;
   riskLevel: RiskLevel;
+  score?: number; // smoothed score behind riskLevel; the raw one is in assessment
   description: string;
+  kind: IncidentKind;
+  location?: { lat: number; lng: number };
+  assessment?: RiskAssessment; // includes audio/context analysis
+  actionsTaken: string[];
+}
+
+export interface MonitoringSession {
+  id: string;
+  startedAt: string;
+  endedAt?: string;
+  peakRiskLevel: RiskLevel;
+  peakScore: number;
+  incidentCount: number;
+  trip?: TripSummary; // set when the session was a "walk me home" trip
+  ride?: RideDetails; // vehicle the user got into during this session
+}
+
+// Entered or read from a plate photo before getting into a cab
+export interface RideDetails {
+  plate: string;
+  vehicle: string; // colour, make and model
+  driverName: string;
+  service: string; // ride-hailing app, or e.g. "street taxi"
+  plateConfirmed: boolean; // the user checked the plate against the car
+  startedAt: string;
+}
+
+export interface PlateReading {
+  plate: string | null;
+  vehicle: string;
+  confidence: number; // 0-1
+}
+
+export type TripOutcome = 'arrived' | 'ended_by_user';
+
+export interface TripSummary {
+  destinationName: string;
+  outcome: TripOutcome;
+  startedAt: string;
+  endedAt: string;
+  expectedArrivalAt: string;
+  durationMs: number;
+  distanceTravelledM: number;
+  checkIns: number;
+  alarms: string[]; // reasons for each escalation raised during the trip
 }
 
 export interface GroundingChunk {
   web?: { uri: string; title: string };
   maps?: { uri: string; title: string };
-}
\ No newline at end of file
+}
+
+export interface AudioFeatures {
+  rms: number; // 0-1 loudness
+  peak: number; // 0-1 max amplitude
+  pitchHz: number | null;
+  spectralCentroidHz?: number;
+  spectralRolloffHz?: number; // frequency below which 85% of the energy sits
+  spectralFlatness?: number; // 0 = tonal, 1 = noise-like
+  zeroCrossingRate?: number;
+}
+
+export interface LocalAudioAnalysis extends AudioFeatures {
+  timestamp: number;
+  silent: boolean;
+  screamDetected: boolean;
+  impactDetected: boolean;
+  distressScore: number; // 0-100, computed on-device in real time
+}
+
+export interface SensorSnapshot {
+  imageBase64: string | null;
+  audioBase64: string | null;
+  audioFeatures: LocalAudioAnalysis | null;
+  locationContext: string;
+  isNight: boolean;
+  speedMps: number | null;
+  contextFactors: ContextFactors | null;
+  movement: MovementContext | null;
+  watchPhrases?: string[]; // user phrases the engine should report in keywords_detected
+  consent?: SensorConsent; // what may be sent to cloud engines; everything when absent
+  riskProfile?: RiskProfile; // the user's sensitivity and language; the "normal" preset when absent
+  timestamp: number;
+}
+
+// Score boundaries behind fusion rules 4 and 5 and the confirmation prompt
+export interface RiskThresholds {
+  askScore: number; // ask_user_confirmation from this score
+  notifyScore: number; // notify_contacts above this score
+  emergencyScore: number; // full_emergency_mode above this score
+}
+
+// What the risk engines need from the user profile
+export interface RiskProfile {
+  thresholds: RiskThresholds;
+  language: string; // BCP 47 code for free-text explanations
+}
+
+// Which inputs may leave the device for cloud analysis; local evidence is unaffected
+export interface SensorConsent {
+  vision: boolean;
+  audio: boolean;
+  context: boolean; // location, movement and route
+}
+
+export interface PrivacySettings {
+  consent: SensorConsent;
+  blurFaces: boolean;
+  blurPlates: boolean; // text regions, which covers licence plates
+  maxWidth: number; // frames are downscaled to this width before upload
+  cropFraction: number; // centre crop kept, 1 = whole frame
+}
+
+export interface Geofence {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radiusM: number;
+}
+
+export interface SafeRoute {
+  id: string;
+  name: string;
+  waypoints: { lat: number; lng: number }[];
+  corridorM: number; // tolerance either side of the route line
+  source: 'recorded' | 'drawn';
+}
+
+export interface SafeZones {
+  geofences: Geofence[];
+  routes: SafeRoute[];
+}
+
+export interface ZoneStatus {
+  insideGeofence: string | null;
+  onRoute: string | null;
+  nearest: { name: string; kind: 'geofence' | 'route'; distanceM: number } | null;
+  outsideCorridor: boolean; // true when routes/geofences exist and the user is in none of them
+  routeDistanceM: number | null; // distance outside the nearest route corridor, null without routes
+  summary: string;
+}
+
+export type AlertChannel = 'sms' | 'email' | 'webhook' | 'share';
+
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  webhookUrl?: string;
+  preferredChannel: AlertChannel;
+  tier: number; // 1 = notified first, higher tiers only on stronger escalation
+}
+
+export type DeliveryStatus = 'pending' | 'sending' | 'delivered' | 'simulated' | 'failed'; // simulated: mock transport, nothing sent
+
+export interface DeliveryReceipt {
+  id: string;
+  alertId: string;
+  contactId: string;
+  contactName: string;
+  channel: AlertChannel;
+  status: DeliveryStatus;
+  attempts: number;
+  timestamp: string;
+  providerId?: string;
+  error?: string;
+}
+
+export type EvidenceType = 'image' | 'audio';
+
+export interface EvidenceRecord {
+  id: string;
+  sessionId: string;
+  sequence: number; // position in the vault-wide hash chain
+  type: EvidenceType;
+  mimeType: string;
+  data: Blob;
+  capturedAt: string;
+  location?: { lat: number; lng: number };
+  riskLevel: RiskLevel;
+  riskScore: number;
+  sha256: string; // of the artifact bytes
+  prevHash: string; // chainHash of the previous record
+  chainHash: string; // sha256(prevHash + sha256 + metadata)
+  redacted?: boolean; // artifact bytes deleted by the user; hashes stay so the chain still verifies
+}
+
+export interface ChainVerification {
+  ok: boolean;
+  checked: number;
+  brokenAt?: number; // sequence of the first record that fails verification
+  problem?: string;
+}
+
+export interface ReportTimelineEntry {
+  timestamp: string;
+  kind: IncidentKind;
+  riskLevel: RiskLevel;
+  score?: number;
+  description: string;
+  actions: string[];
+}
+
+export interface ReportThreat {
+  name: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface ReportEvidenceItem {
+  sequence: number;
+  type: EvidenceType;
+  capturedAt: string;
+  sha256: string;
+  chainHash: string;
+  redacted: boolean;
+}
+
+// Sections written by the model; everything else in IncidentReport is computed
+export interface ReportNarrative {
+  summary: string;
+  locationSummary: string;
+  nextSteps: string[];
+}
+
+export interface IncidentReport {
+  id: string;
+  sessionId: string;
+  generatedAt: string;
+  session: { startedAt: string; endedAt?: string; durationMs: number | null };
+  peakRiskLevel: RiskLevel;
+  peakScore: number;
+  incidentAt: string | null; // first time the peak level was reached
+  timeline: ReportTimelineEntry[];
+  gpsTrace: { timestamp: string; lat: number; lng: number }[];
+  threats: ReportThreat[];
+  evidence: {
+    imageCount: number;
+    audioCount: number;
+    redactedCount: number;
+    chain: ChainVerification;
+    items: ReportEvidenceItem[];
+  };
+  actionsTaken: { action: string; count: number; firstAt: string }[];
+  ride: RideDetails | null;
+  narrative: ReportNarrative | null; // null when the model could not be reached
+}
+
+export interface LiveSharePoint {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+  timestamp: number;
+}
+
+// One push from the app to the relay; any field may be omitted
+export interface LiveShareUpdate {
+  point?: LiveSharePoint;
+  riskLevel?: RiskLevel;
+  score?: number;
+  reason?: string;
+  ride?: RideDetails | null; // null clears the ride when it ends
+}
+
+// What a guardian's browser receives
+export interface LiveShareSnapshot {
+  token: string;
+  createdAt: number;
+  expiresAt: number;
+  ended: boolean;
+  trail: LiveSharePoint[];
+  riskLevel: RiskLevel | null;
+  score: number | null;
+  reason: string | null;
+  ride: RideDetails | null;
+  updatedAt: number | null;
+}
+
+// Returned to the app only: ownerKey authorises updates and ending the share
+export interface LiveShareGrant {
+  token: string;
+  ownerKey: string;
+  viewerUrl: string;
+  expiresAt: number;
+}